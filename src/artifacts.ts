@@ -1,17 +1,20 @@
 import {toFileName} from './name.ts';
 import {saveBlobDownload} from './saver.ts';
 
+type ArtifactDataContent = string | Uint8Array | Blob;
+
 export interface PartialArtifactData {
   name: string;
   desc?: string;
   fileName?: string;
-  data: () => string | Uint8Array | Blob;
+  /** The data of the artifact. It is only computed when needed, and it can be async. */
+  data: () => ArtifactDataContent | Promise<ArtifactDataContent>;
 }
 export interface ArtifactData {
   readonly name: string;
   readonly desc: string | undefined;
   readonly fileName: string;
-  readonly data: () => Blob,
+  readonly data: () => Promise<Blob>,
 }
 export function artifactDataFromPartial({
   name,
@@ -23,8 +26,8 @@ export function artifactDataFromPartial({
     name,
     desc,
     fileName,
-    data: () => {
-      const d = data();
+    data: async () => {
+      const d = await data();
       return typeof d === "string" ? new Blob([d], {type: "text/plain;charset=utf-8"}) :
         d instanceof Uint8Array ? new Blob([d], {type: "application/octet-stream"}) :
           d;
@@ -32,6 +35,6 @@ export function artifactDataFromPartial({
   };
 }
 
-export function saveArtifact({fileName, data}: ArtifactData) {
-  saveBlobDownload({name: fileName, blob: data()});
+export async function saveArtifact({fileName, data}: ArtifactData) {
+  saveBlobDownload({name: fileName, blob: await data()});
 }
@@ -0,0 +1,244 @@
+import {parseColor} from './colors.ts';
+import {Matings} from './mating.ts';
+import {getPiecePolygons} from './outlines.ts';
+import {Piece} from './pieces.ts';
+import {Point, pointsDist} from './point.ts';
+import {isPointInPolygon} from './polygons.ts';
+import {roundReasonably} from './util.ts';
+
+/**
+ * A point or a vector in the 3D space of the assembly. The axes are: X pointing right,
+ * Y pointing away from the viewer (in the front view), and Z pointing up.
+ */
+export type Point3D = readonly [number, number, number];
+
+/**
+ * A flat piece placed in the 3D space. The point `[x, y]` of the piece is placed
+ * at `origin + x * xAxis + y * yAxis`. This is the surface of the material that is visible
+ * when the piece is displayed as drawn, and the material extends from it to the back,
+ * i.e. in the direction of `xAxis × yAxis`.
+ */
+export interface AssemblyFace {
+  /**
+   * The flat piece, e.g. a `ClosedFace`. Only its closed shapes are taken into account.
+   * @see {@link getPiecePolygons}
+   */
+  readonly piece: Piece;
+  readonly name?: string;
+  /** Default: `[0, 0, 0]`. */
+  readonly origin?: Point3D;
+  /** The direction of the X axis of the piece, a unit vector. Default: `[1, 0, 0]`. */
+  readonly xAxis?: Point3D;
+  /**
+   * The direction of the Y axis of the piece, a unit vector perpendicular to the X axis.
+   * Default: `[0, -1, 0]`, i.e. the piece lies flat, displayed as viewed from above.
+   */
+  readonly yAxis?: Point3D;
+  /** The thickness of this piece, if different from the thickness of the assembly. */
+  readonly materialThickness?: number;
+  /**
+   * The colour of the surface of the piece, in the `#rrggbb`, `#rgb` or `rgb(r,g,b)` format,
+   * or `black` or `white`.
+   */
+  readonly color?: string;
+}
+
+/** A description of the assembled project, with the flat pieces placed in the 3D space. */
+export interface Assembly {
+  readonly materialThickness: number;
+  readonly faces: readonly AssemblyFace[];
+  /** The declaration of the mating edges of the faces, verified in the preview. */
+  readonly matings?: Matings;
+}
+
+/**
+ * The direction from which the assembly is viewed. The azimuth is the angle of the rotation
+ * of the viewer around the Z axis, starting from the front and moving to the right,
+ * and the elevation is the angle above the horizontal plane.
+ */
+export type AssemblyView =
+  "isometric" | "front" | "back" | "left" | "right" | "top" | "bottom" |
+  {azimuthDeg: number, elevationDeg: number};
+
+export interface PartialAssemblyViewOptions {
+  /** Default: `"isometric"`. */
+  view?: AssemblyView;
+  /** The colour of the surfaces of the faces that don't specify their own. Default: plywood. */
+  color?: string;
+  /** The colour of the cut edges of the material. Default: burnt plywood. */
+  edgeColor?: string;
+  /** The colour of the outlines of the surfaces. Default: semi-transparent black. */
+  outlineColor?: string;
+}
+
+/** Returns the view as azimuth and elevation in radians. */
+function viewAngles(view: AssemblyView) {
+  const deg = (azimuthDeg: number, elevationDeg: number) =>
+    ({azimuth: azimuthDeg * Math.PI / 180, elevation: elevationDeg * Math.PI / 180});
+  if (typeof view === "object")
+    return deg(view.azimuthDeg, view.elevationDeg);
+  switch (view) {
+    case "isometric":
+      return {azimuth: Math.PI / 4, elevation: Math.atan(Math.SQRT1_2)};
+    case "front":
+      return deg(0, 0);
+    case "back":
+      return deg(180, 0);
+    case "left":
+      return deg(-90, 0);
+    case "right":
+      return deg(90, 0);
+    case "top":
+      return deg(0, 90);
+    case "bottom":
+      return deg(0, -90);
+    default:
+      return view satisfies never;
+  }
+}
+
+function add([x1, y1, z1]: Point3D, [x2, y2, z2]: Point3D): Point3D {
+  return [x1 + x2, y1 + y2, z1 + z2];
+}
+
+function scale([x, y, z]: Point3D, factor: number): Point3D {
+  return [x * factor, y * factor, z * factor];
+}
+
+function dot([x1, y1, z1]: Point3D, [x2, y2, z2]: Point3D) {
+  return x1 * x2 + y1 * y2 + z1 * z2;
+}
+
+function cross([x1, y1, z1]: Point3D, [x2, y2, z2]: Point3D): Point3D {
+  return [y1 * z2 - z1 * y2, z1 * x2 - x1 * z2, x1 * y2 - y1 * x2];
+}
+
+function colorChannels(color: string): Point3D {
+  const channels = parseColor(color);
+  if (!channels)
+    throw new Error(`Unsupported colour ${JSON.stringify(color)}, ` +
+      `expected #rrggbb, #rgb, rgb(r,g,b), black or white`);
+  return channels;
+}
+
+function shadeColor(color: Point3D, brightness: number) {
+  return `rgb(${color.map(c => Math.round(Math.min(c * brightness, 255))).join(",")})`;
+}
+
+/** A flat polygon (possibly with holes) of the surface of a solid, in the 3D space. */
+interface Facet {
+  readonly rings: readonly (readonly Point3D[])[];
+  /** The outward normal. */
+  readonly normal: Point3D;
+  readonly color: Point3D;
+  readonly outline: boolean;
+}
+
+/** Returns the facets of the solid created by extruding the face. */
+function faceFacets(face: AssemblyFace, assembly: Assembly, {color, edgeColor}: {
+  color: Point3D,
+  edgeColor: Point3D,
+}): Facet[] {
+  const {
+    origin = [0, 0, 0],
+    xAxis = [1, 0, 0],
+    yAxis = [0, -1, 0],
+    materialThickness = assembly.materialThickness,
+  } = face;
+  const tolerance = 1e-6;
+  if (Math.abs(dot(xAxis, xAxis) - 1) > tolerance || Math.abs(dot(yAxis, yAxis) - 1) > tolerance ||
+    Math.abs(dot(xAxis, yAxis)) > tolerance)
+    throw new Error(`The axes of the face${face.name ? ` ${face.name}` : ``} should be ` +
+      `perpendicular unit vectors, got ${JSON.stringify({xAxis, yAxis})}`);
+  const back = cross(xAxis, yAxis);
+  const faceColor = face.color ? colorChannels(face.color) : color;
+  const polygons = getPiecePolygons(face.piece);
+  const inMaterial = (point: Point) =>
+    polygons.filter(polygon => isPointInPolygon(point, polygon)).length % 2 === 1;
+  const to3D = ([x, y]: Point, depth: number) =>
+    add(add(origin, scale(xAxis, x)), add(scale(yAxis, y), scale(back, depth)));
+  const facets: Facet[] = [
+    {
+      rings: polygons.map(polygon => polygon.map(point => to3D(point, 0))),
+      normal: scale(back, -1),
+      color: faceColor,
+      outline: true,
+    },
+    {
+      rings: polygons.map(polygon => polygon.map(point => to3D(point, materialThickness))),
+      normal: back,
+      color: faceColor,
+      outline: true,
+    },
+  ];
+  for (const polygon of polygons)
+    for (let i = 0; i < polygon.length; i++) {
+      const a = polygon[i];
+      const b = polygon[(i + 1) % polygon.length];
+      const length = pointsDist(a, b);
+      if (!length)
+        continue;
+      const perp: Point = [(b[1] - a[1]) / length, (a[0] - b[0]) / length];
+      const mid: Point = [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2];
+      const eps = length * 1e-6;
+      const sign = inMaterial([mid[0] + eps * perp[0], mid[1] + eps * perp[1]]) ? -1 : 1;
+      facets.push({
+        rings: [[to3D(a, 0), to3D(b, 0), to3D(b, materialThickness), to3D(a, materialThickness)]],
+        normal: scale(add(scale(xAxis, perp[0]), scale(yAxis, perp[1])), sign),
+        color: edgeColor,
+        outline: false,
+      });
+    }
+  return facets;
+}
+
+/**
+ * Returns a Piece with the orthographic projection of the assembly, with the pieces extruded
+ * to the thickness of the material and shaded.
+ *
+ * The hidden surfaces are removed by drawing the surfaces from the farthest to the nearest,
+ * which is exact for typical boxes, but might show some artifacts where large surfaces
+ * are close to each other at an angle.
+ */
+export function assemblyView(assembly: Assembly, {
+  view = "isometric",
+  color = "#e3c08d",
+  edgeColor = "#6b4423",
+  outlineColor = "#0006",
+}: PartialAssemblyViewOptions = {}) {
+  const {azimuth, elevation} = viewAngles(view);
+  const [sinA, cosA, sinE, cosE] =
+    [Math.sin(azimuth), Math.cos(azimuth), Math.sin(elevation), Math.cos(elevation)];
+  /** The direction towards the viewer. */
+  const toViewer: Point3D = [sinA * cosE, -cosA * cosE, sinE];
+  const right: Point3D = [cosA, sinA, 0];
+  const up: Point3D = [-sinA * sinE, cosA * sinE, cosE];
+  const light = scale(add(add(toViewer, scale(up, 0.6)), scale(right, -0.4)), 1 / Math.hypot(
+    1, 0.6, 0.4));
+  const colors = {color: colorChannels(color), edgeColor: colorChannels(edgeColor)};
+  const facets = assembly.faces.flatMap(face => faceFacets(face, assembly, colors))
+    .filter(({rings, normal}) => rings.length && dot(normal, toViewer) > 1e-9)
+    .map(facet => {
+      const points = facet.rings.flat();
+      const depth = points.reduce((sum, point) => sum + dot(point, toViewer), 0) / points.length;
+      return {facet, depth};
+    })
+    .sort((a, b) => a.depth - b.depth);
+  const project = (point: Point3D) =>
+    `${roundReasonably(dot(point, right))},${roundReasonably(-dot(point, up))}`;
+  return Piece.create(facets.map(({facet: {rings, normal, color, outline}}) => {
+    const fill = shadeColor(color, 0.55 + 0.5 * Math.max(dot(normal, light), 0));
+    return Piece.createElement({
+      tagName: "path",
+      attributes: {
+        d: rings.map(ring => `M${ring.map(project).join("L")}Z`).join(""),
+        fill,
+        fillRule: "evenodd",
+        stroke: outline ? outlineColor : fill,
+        strokeWidth: outline ? 0.8 : 0.5,
+        strokeLinejoin: "round",
+        vectorEffect: "non-scaling-stroke",
+      },
+    });
+  }));
+}
@@ -0,0 +1,316 @@
+import {Assembly, AssemblyFace, Point3D} from './assembly.ts';
+import * as figures from './figures.ts';
+import {TabsPattern} from './interlock_patterns.ts';
+import * as kerfUtil from './kerf_util.ts';
+import {Kerf} from './kerf_util.ts';
+import {Piece, gather} from './pieces.ts';
+import {Point} from './point.ts';
+import {TabbedFace, TabbedFaceCreator, turtleInterlock} from './tabbed_face.ts';
+import {Turtle} from './turtle.ts';
+
+/**
+ * The top of the box:
+ * - `"closed"` - a top face joined with tabs, like the bottom,
+ * - `"open"` - no top face,
+ * - `"lid"` - a loose lid, consisting of a plate covering the box and a locator plate that should
+ *   be glued under it, fitting into the opening,
+ * - `"hinged"` - a lid joined with the back wall with a pin hinge.
+ */
+export type BoxTop = "closed" | "open" | "lid" | "hinged";
+
+export interface BoxParams {
+  /** The size of the box along the front wall. */
+  width: number;
+  /** The size of the box along the side walls. */
+  depth: number;
+  height: number;
+  /** Whether the size is the inner or the outer size of the box. Default: `"inner"`. */
+  size?: "inner" | "outer";
+  materialThickness: number;
+  /** Kerf correction of the tabs and slots. Default: zero. */
+  kerf?: Kerf;
+  /** The approximate length of the tabs (and the gaps between them). Default: three thicknesses. */
+  tabLength?: number;
+  /** Default: `"closed"`. */
+  top?: BoxTop;
+  /**
+   * The clearance between the locator plate of the lid and the walls, on each side, or between
+   * the knuckles of the hinge and the opposite edge. Used for the `"lid"` and `"hinged"` top.
+   * Default: 5% of the material thickness.
+   */
+  lidClearance?: number;
+  /** Parameters of the hinge, used for the `"hinged"` top. */
+  hinge?: {
+    /**
+     * The diameter of the pin going through the knuckles (e.g. a piece of 3D printer filament).
+     * Default: half the material thickness.
+     */
+    pinDiameter?: number,
+  };
+  /**
+   * The number of the dividers splitting the box into equal compartments, parallel to the side
+   * walls (by default) or to the front wall. The dividers are joined with tabs and slots to
+   * the bottom and to the walls.
+   */
+  dividers?: number | {count: number, parallelTo?: "sides" | "front"};
+}
+
+export interface BoxPieces {
+  readonly bottom: Piece;
+  readonly top?: Piece;
+  readonly front: Piece;
+  readonly back: Piece;
+  readonly left: Piece;
+  readonly right: Piece;
+  readonly dividers: readonly Piece[];
+  readonly lid?: Piece;
+  readonly lidLocator?: Piece;
+  /** All the pieces of the box. */
+  readonly pieces: readonly Piece[];
+  /** The assembled box, with the inner space spanning from `[0, 0, 0]` to the inner size. */
+  readonly assembly: Assembly;
+}
+
+/** Returns the pattern with tabs and gaps of approximately the specified length. */
+function edgeTabs(length: number, tabLength: number) {
+  return TabsPattern.distributed({
+    length,
+    numTabs: Math.max(Math.round((length / tabLength - 1) / 2), 1),
+  });
+}
+
+/** Returns the positions of the middles of the tabs of the pattern. */
+function tabCenters(pattern: TabsPattern) {
+  const result = [];
+  let pos = 0;
+  for (const {active, length} of pattern.pattern.items) {
+    if (active)
+      result.push(pos + length / 2);
+    pos += length;
+  }
+  return result;
+}
+
+/**
+ * Creates the slots in the face, along the line from `start`, in the direction `angleDeg`.
+ */
+function slotsLine({slots, start, angleDeg, pattern}: {
+  slots: ReturnType<typeof turtleInterlock>["slots"],
+  start: Point,
+  angleDeg: number,
+  pattern: TabsPattern,
+}) {
+  return Turtle.create(start).setAngle(angleDeg).andThen(slots, pattern.matchingSlots());
+}
+
+/**
+ * Creates a wall, viewed from the outside, with the base rectangle spanning from `[-width, 0]`
+ * to `[0, height]`, optionally with the top part of the height cut off. Both vertical edges
+ * have the specified pattern (starting from the top), so that the walls with complementary
+ * patterns interlock at the corners. The top edge is drawn by the specified function.
+ */
+function wall({TFace, bottom, vertical, top, topCut = 0}: {
+  TFace: TabbedFaceCreator,
+  bottom: TabsPattern,
+  vertical: TabsPattern,
+  top: (face: TabbedFace) => TabbedFace,
+  topCut?: number,
+}) {
+  const height = vertical.length();
+  return TFace.create({startPos: [0, topCut], startDir: "down"})
+    .tabs(vertical.slice(topCut)).right()
+    .tabs(bottom).right()
+    .tabs(vertical.reverse().slice(0, height - topCut)).right()
+    .andThen(top).right()
+    .closeFace();
+}
+
+/**
+ * Creates a horizontal face (bottom or top), with the base rectangle spanning from `[0, 0]`
+ * to `[width, depth]`, matching the walls with the specified bottom patterns.
+ */
+function horizontalFace({TFace, widthTabs, depthTabs}: {
+  TFace: TabbedFaceCreator,
+  widthTabs: TabsPattern,
+  depthTabs: TabsPattern,
+}) {
+  return TFace.create({startDir: "right", mode: {boxMode: {verticalEdgesTabWidth: "same"}}})
+    .tabs(widthTabs.matchingTabs()).right()
+    .tabs(depthTabs.matchingTabs()).right()
+    .tabs(widthTabs.matchingTabs()).right()
+    .tabs(depthTabs.matchingTabs()).right()
+    .closeFace();
+}
+
+/**
+ * Generates a finger-jointed box. The faces are joined with tabs distributed evenly along
+ * the edges. The walls are viewed from the outside, and the bottom and the top from above.
+ *
+ * The tabs of the walls protrude into the bottom and the top faces, and the vertical edges
+ * of the front and back walls interlock with the side walls. All the pieces are returned
+ * as ready to be laid out on the sheet, e.g. with `layouts.row` or `nest`.
+ */
+export function box({
+  width,
+  depth,
+  height,
+  size = "inner",
+  materialThickness: t,
+  kerf = kerfUtil.ZERO,
+  tabLength = 3 * t,
+  top = "closed",
+  lidClearance = t / 20,
+  hinge: {pinDiameter = t / 2} = {},
+  dividers = 0,
+}: BoxParams): BoxPieces {
+  const w = size === "inner" ? width : width - 2 * t;
+  const d = size === "inner" ? depth : depth - 2 * t;
+  const h = size === "inner" ? height : height - (top === "open" ? 1 : 2) * t;
+  if (!(w > 0 && d > 0 && h > 0))
+    throw new Error(`The box is too small for the material thickness ${t}`);
+  const {TFace, slots} = turtleInterlock({
+    materialThickness: t,
+    kerf,
+    tabsDir: "left",
+  });
+  const widthTabs = edgeTabs(w, tabLength);
+  const depthTabs = edgeTabs(d, tabLength);
+  const verticalTabs = edgeTabs(h, tabLength);
+  const flatTop = (length: number) => (face: TabbedFace) => face.forward(length);
+  const tabbedTop = (pattern: TabsPattern) => (face: TabbedFace) => face.tabs(pattern.reverse());
+  const {count: numDividers, parallelTo = "sides"} =
+    typeof dividers === "number" ? {count: dividers} : dividers;
+  const parallelToSides = parallelTo === "sides";
+  /** The positions of the middles of the dividers, along the walls they are perpendicular to. */
+  const dividerPositions = (length: number) => {
+    const compartment = (length - numDividers * t) / (numDividers + 1);
+    if (!(compartment > 0))
+      throw new Error(`Too many dividers: ${numDividers}`);
+    return Array.from({length: numDividers}, (_, i) => (i + 1) * (compartment + t) - t / 2);
+  };
+  const dividerLength = parallelToSides ? d : w;
+  const dividerBottomTabs = edgeTabs(dividerLength, tabLength);
+  const dividerPos = dividerPositions(parallelToSides ? w : d);
+  // Leave space for the locator plate of the lid above the dividers.
+  const dividerTopCut = top === "lid" ? t : 0;
+  const dividersPieces = dividerPos.map(() =>
+    TFace.create({startPos: [0, dividerTopCut], startDir: "down"})
+      .tabs(verticalTabs.slice(dividerTopCut)).right()
+      .tabs(dividerBottomTabs).right()
+      .tabs(verticalTabs.reverse().slice(0, h - dividerTopCut)).right()
+      .forward(dividerLength).right()
+      .closeFace());
+  /** Slots for the dividers in a wall of the specified width. */
+  const wallSlots = (wallWidth: number, hasDividers: boolean) => hasDividers ?
+    dividerPos.map(pos => slotsLine({
+      slots,
+      start: [pos - wallWidth, h],
+      angleDeg: 0,
+      pattern: verticalTabs,
+    })) : [];
+  const hinged = top === "hinged";
+  // The knuckles of the hinge have square cross-sections, so when the lid rotates, their corners
+  // need a clearance from the opposite edge, which is recessed accordingly.
+  const hingeRecess = t * (Math.SQRT1_2 - 0.5) + lidClearance;
+  const backKnuckles = edgeTabs(w, tabLength);
+  const knuckles = (pattern: TabsPattern) => (face: TabbedFace) => face.with({
+    options: {tabWidth: t + hingeRecess, kerf: kerfUtil.ZERO},
+  }, face => face.tabs(pattern));
+  const pinHoles = (centers: readonly number[], toPoint: (center: number) => Point) =>
+    centers.map(center => figures.circle({center: toPoint(center), radius: pinDiameter / 2}));
+  const topFunc = (pattern: TabsPattern, length: number) =>
+    top === "closed" ? tabbedTop(pattern) : flatTop(length);
+  const front = gather(
+    wall({TFace, bottom: widthTabs, vertical: verticalTabs, top: topFunc(widthTabs, w)}),
+    wallSlots(w, parallelToSides),
+  );
+  const back = gather(
+    wall({
+      TFace,
+      bottom: widthTabs,
+      vertical: verticalTabs,
+      top: hinged ? knuckles(backKnuckles) : topFunc(widthTabs, w),
+      topCut: hinged ? hingeRecess : 0,
+    }),
+    wallSlots(w, parallelToSides),
+    hinged ? pinHoles(tabCenters(backKnuckles), center => [center - w, -t / 2]) : [],
+  );
+  const side = () => gather(
+    wall({
+      TFace,
+      bottom: depthTabs,
+      vertical: verticalTabs.matchingTabs(),
+      top: topFunc(depthTabs, d),
+    }),
+    wallSlots(d, !parallelToSides),
+  );
+  const bottom = gather(
+    horizontalFace({TFace, widthTabs, depthTabs}),
+    dividerPos.map(pos => parallelToSides ?
+      slotsLine({slots, start: [pos, 0], angleDeg: 180, pattern: dividerBottomTabs}) :
+      slotsLine({slots, start: [0, pos], angleDeg: 90, pattern: dividerBottomTabs})),
+  );
+  let topPiece, lid, lidLocator;
+  if (top === "closed")
+    topPiece = horizontalFace({TFace, widthTabs, depthTabs});
+  else if (top === "open") {
+    // No top.
+  } else if (top === "lid") {
+    lid = figures.rectangle({minX: -t, minY: -t, width: w + 2 * t, height: d + 2 * t});
+    lidLocator = figures.rectangle({
+      minX: lidClearance,
+      minY: lidClearance,
+      width: w - 2 * lidClearance,
+      height: d - 2 * lidClearance,
+    });
+  } else if (hinged) {
+    // The lid covers the side walls and the front wall, and its knuckles interlock with
+    // the knuckles of the back wall.
+    const lidKnuckles = TabsPattern.base(t).addPattern(backKnuckles.matchingTabs()).base(t);
+    lid = gather(
+      TFace.create({startDir: "right"})
+        .andThen(knuckles(lidKnuckles)).right()
+        .forward(d + t - hingeRecess).right()
+        .forward(w + 2 * t).right()
+        .forward(d + t - hingeRecess).right()
+        .closeFace(),
+      pinHoles(tabCenters(lidKnuckles), center => [center, -t / 2 - hingeRecess]),
+    );
+  } else
+    top satisfies never;
+  const left = side();
+  const right = side();
+  const placed = (name: string, piece: Piece | undefined, origin: Point3D,
+    xAxis: Point3D, yAxis: Point3D = [0, 0, -1]): AssemblyFace | undefined =>
+    piece && {name, piece, origin, xAxis, yAxis};
+  const fromAbove: Point3D = [0, -1, 0];
+  const assemblyFaces = [
+    placed("bottom", bottom, [0, d, 0], [1, 0, 0], fromAbove),
+    placed("top", topPiece, [0, d, h + t], [1, 0, 0], fromAbove),
+    placed("front", front, [w, -t, h], [1, 0, 0]),
+    placed("back", back, [0, d + t, h], [-1, 0, 0]),
+    placed("left", left, [-t, 0, h], [0, -1, 0]),
+    placed("right", right, [w + t, d, h], [0, 1, 0]),
+    ...dividersPieces.map((divider, i) => parallelToSides ?
+      placed(`divider ${i + 1}`, divider, [dividerPos[i] - t / 2, 0, h], [0, -1, 0]) :
+      placed(`divider ${i + 1}`, divider, [w, d - dividerPos[i] - t / 2, h], [1, 0, 0])),
+    hinged ?
+      placed("lid", lid, [-t, d - hingeRecess, h + t], [1, 0, 0], fromAbove) :
+      placed("lid", lid, [0, d, h + t], [1, 0, 0], fromAbove),
+    placed("lid locator", lidLocator, [0, d, h], [1, 0, 0], fromAbove),
+  ].filter(face => face !== undefined);
+  return {
+    bottom,
+    top: topPiece,
+    front,
+    back,
+    left,
+    right,
+    dividers: dividersPieces,
+    lid,
+    lidLocator,
+    pieces: [bottom, topPiece, front, back, left, right, ...dividersPieces, lid, lidLocator]
+      .filter(piece => piece !== undefined),
+    assembly: {materialThickness: t, faces: assemblyFaces},
+  };
+}
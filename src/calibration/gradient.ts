@@ -8,7 +8,12 @@ import {Turtle} from '../turtle.ts';
 
 export const name = "Gradient calibrator";
 
-/** Returns a calibrator Sheet for testing gradients. */
+/**
+ * Returns a calibrator Sheet for testing gradients. The marks divide the gradient into equal
+ * parts, from white (input lightness 1) to black (input lightness 0). The lightness observed
+ * at the marks after engraving can be specified as the `measured` points of a `ToneCurve`,
+ * used in the sheet options for the material.
+ */
 export function getSheets() {
 
   const p = createNumParams(p => ({
@@ -0,0 +1,210 @@
+/// <reference lib="deno.ns" />
+
+/**
+ * A command-line tool that exports the files of a Project (a module exporting `name` and
+ * `getSheets`, see {@link Project}) to a directory, without the browser.
+ *
+ * Run it with _cmds/export_, see {@link USAGE} for the parameters.
+ */
+
+// The headless DOM needs to be installed before any other module is loaded.
+import '../headless_init.ts';
+
+import * as globalOptions from '../global_options.ts';
+import {PartialRunsSelector, Sheet} from '../sheet.ts';
+import {getSVGString} from '../svg_converter.ts';
+import {unwrap} from '../viewer/types.ts';
+import {Project} from '../viewer/viewer_tools.ts';
+
+const USAGE = `Usage: cmds/export PROJECT_MODULE [OPTIONS]
+
+Exports the laser SVG files, the preview SVG files and the artifacts of all the sheets
+of the project defined in PROJECT_MODULE (a module exporting name and getSheets).
+
+Options:
+  --out=DIR                  Output directory (default: out).
+  --args=JSON                JSON array of arguments passed to getSheets.
+  --runs=all|ID,ID,...       The runs to include (default: all).
+  --corners-marker=auto|true|false
+                             Whether to include the corners marker (default: auto).
+  --reversing-frame=auto|true|false
+                             Whether to include the reversing frame (default: auto).
+  --natural-order            Export also a separate file for each group of runs,
+                             in their natural order, like the buttons in the Viewer.
+  --preset=NAME              Global options preset: LightBurn, VisiCut or product.
+  --no-preview               Don't export the preview SVG files.
+  --no-artifacts             Don't export the artifacts.
+  --help                     Show this message.
+`;
+
+interface CLIParams {
+  readonly projectModule: string;
+  readonly outDir: string;
+  readonly args: readonly unknown[];
+  readonly runsSelector: PartialRunsSelector;
+  readonly naturalOrder: boolean;
+  readonly preset: string | undefined;
+  readonly preview: boolean;
+  readonly artifacts: boolean;
+}
+
+const PRESETS: Readonly<Record<string, () => globalOptions.PartialGlobalOptions>> = {
+  LightBurn: () => globalOptions.presets.LightBurn(),
+  VisiCut: () => globalOptions.presets.VisiCut(),
+  product: () => globalOptions.presets.product(),
+};
+
+function parseAutoBoolean(flag: string, value: string) {
+  if (value === "auto")
+    return "auto";
+  if (value === "true")
+    return true;
+  if (value === "false")
+    return false;
+  throw new Error(`Invalid value of --${flag}: ${JSON.stringify(value)}`);
+}
+
+function parseCLIParams(cliArgs: readonly string[]): CLIParams | undefined {
+  const positional: string[] = [];
+  const flags = new Map<string, string>();
+  for (const arg of cliArgs) {
+    if (arg.startsWith("--")) {
+      const eqPos = arg.indexOf("=");
+      if (eqPos >= 0)
+        flags.set(arg.slice(2, eqPos), arg.slice(eqPos + 1));
+      else
+        flags.set(arg.slice(2), "");
+    } else
+      positional.push(arg);
+  }
+  if (flags.has("help"))
+    return undefined;
+  const known = new Set(["out", "args", "runs", "corners-marker", "reversing-frame",
+    "natural-order", "preset", "no-preview", "no-artifacts"]);
+  for (const flag of flags.keys())
+    if (!known.has(flag))
+      throw new Error(`Unknown option: --${flag}`);
+  if (positional.length !== 1)
+    throw new Error(`Expected exactly one project module, got: ${JSON.stringify(positional)}`);
+  const args = JSON.parse(flags.get("args") || "[]");
+  if (!Array.isArray(args))
+    throw new Error(`The value of --args must be a JSON array, got: ${flags.get("args")}`);
+  const runs = flags.get("runs") || "all";
+  const preset = flags.get("preset");
+  if (preset !== undefined && !Object.hasOwn(PRESETS, preset))
+    throw new Error(`Unknown preset: ${JSON.stringify(preset)}, ` +
+      `expected one of: ${Object.keys(PRESETS).join(", ")}`);
+  return {
+    projectModule: positional[0],
+    outDir: flags.get("out") || "out",
+    args,
+    runsSelector: {
+      runs: runs === "all" ? "all" : runs.split(",").map(r => r.trim()).filter(Boolean),
+      cornersMarker: parseAutoBoolean("corners-marker", flags.get("corners-marker") || "auto"),
+      reversingFrame: parseAutoBoolean("reversing-frame", flags.get("reversing-frame") || "auto"),
+    },
+    naturalOrder: flags.has("natural-order"),
+    preset,
+    preview: !flags.has("no-preview"),
+    artifacts: !flags.has("no-artifacts"),
+  };
+}
+
+function isProject(content: unknown): content is Project<unknown[]> {
+  return !!content && typeof (content as Project).getSheets === "function";
+}
+
+async function loadProject(projectModule: string) {
+  const module = await import(new URL(projectModule, `file://${Deno.cwd()}/`).href);
+  for (const candidate of [module, module.default])
+    if (isProject(candidate))
+      return candidate;
+  throw new Error(`Module ${JSON.stringify(projectModule)} does not export name and getSheets`);
+}
+
+/**
+ * Returns the sheets of the project. The assets loaded using `import(...)` (see _assets.ts_)
+ * need the bundler, so such projects can only be exported from the Viewer.
+ */
+async function getSheets(project: Project<unknown[]>, args: readonly unknown[]) {
+  try {
+    return await unwrap(project.getSheets, ...args);
+  } catch (e) {
+    if (e instanceof Error && "code" in e && e.code === "ERR_MODULE_NOT_FOUND")
+      throw new Error(`Failed to import a module while creating the sheets. Projects loading ` +
+        `assets using import(...) need the bundler, and cannot be exported from the command ` +
+        `line, use the Viewer instead.\n${e.message}`, {cause: e});
+    throw e;
+  }
+}
+
+/** Writes the files, making sure that no file is written twice. */
+class FilesWriter {
+
+  private readonly written = new Set<string>();
+
+  constructor(private readonly outDir: string) {}
+
+  async write(fileName: string, data: string | Blob) {
+    const path = `${this.outDir}/${fileName.replaceAll("/", "_")}`;
+    if (this.written.has(path))
+      throw new Error(`Duplicate output file: ${JSON.stringify(path)}`);
+    this.written.add(path);
+    if (typeof data === "string")
+      await Deno.writeTextFile(path, data);
+    else
+      await Deno.writeFile(path, new Uint8Array(await data.arrayBuffer()));
+    console.log(path);
+  }
+
+}
+
+async function exportSheet(sheet: Sheet, params: CLIParams, writer: FilesWriter) {
+  const runsSelectors = [params.runsSelector];
+  if (params.naturalOrder) {
+    const naturalOrder = sheet.getRunsInNaturalOrder();
+    if (naturalOrder.length > 1)
+      runsSelectors.push(...naturalOrder);
+  }
+  for (const runsSelector of runsSelectors) {
+    const fileName = sheet.getFileName({runsSelector});
+    await writer.write(`${fileName}.svg`,
+      getSVGString(await sheet.getLaserSVG({runsSelector})));
+    if (params.preview)
+      await writer.write(`${fileName} preview.svg`,
+        getSVGString(await sheet.getPreviewSVG({runsSelector})));
+  }
+  if (params.artifacts)
+    for (const artifact of sheet.getArtifacts())
+      await writer.write(artifact.fileName, await artifact.data());
+  const unusedLayers = sheet.getUnusedLayers();
+  if (unusedLayers.length)
+    console.warn(`Warning: Sheet ${JSON.stringify(sheet.name)} has layers not included ` +
+      `in any runs: ${unusedLayers.map(l => l === undefined ? `NO_LAYER` : JSON.stringify(l))
+        .join(", ")}`);
+}
+
+async function main(cliArgs: readonly string[]) {
+  const params = parseCLIParams(cliArgs);
+  if (!params) {
+    console.log(USAGE);
+    return;
+  }
+  if (params.preset)
+    globalOptions.modify(PRESETS[params.preset]());
+  const project = await loadProject(params.projectModule);
+  const sheetOrSheets = await getSheets(project, params.args);
+  const sheets = Array.isArray(sheetOrSheets) ? sheetOrSheets : [sheetOrSheets];
+  await Deno.mkdir(params.outDir, {recursive: true});
+  const writer = new FilesWriter(params.outDir);
+  for (const sheet of sheets)
+    await exportSheet(sheet, params, writer);
+}
+
+try {
+  await main(Deno.args);
+} catch (e) {
+  console.error(e);
+  console.error(`Run with --help for usage.`);
+  Deno.exit(1);
+}
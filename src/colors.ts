@@ -5,3 +5,30 @@ export function darkness(darknessValue: number) {
   const val = roundReasonably(255 * (1 - darknessValue));
   return `rgb(${val},${val},${val})`;
 }
+
+const NAMED_COLORS: Readonly<Record<string, readonly [number, number, number]>> = {
+  black: [0, 0, 0],
+  white: [0xFF, 0xFF, 0xFF],
+};
+
+/**
+ * Returns the channels (from 0 to 255) of a colour in one of the simple formats: `#rgb`,
+ * `#rrggbb`, `rgb(r,g,b)`, `black` or `white`. Returns undefined for the other formats.
+ */
+export function parseColor(color: string): readonly [number, number, number] | undefined {
+  color = color.trim().toLowerCase();
+  if (Object.hasOwn(NAMED_COLORS, color))
+    return NAMED_COLORS[color];
+  const hexMatch = color.match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/);
+  if (hexMatch) {
+    const hex = hexMatch[1].length === 3 ? [...hexMatch[1]].map(c => c + c).join("") : hexMatch[1];
+    const [r, g, b] = [0, 2, 4].map(i => parseInt(hex.slice(i, i + 2), 16));
+    return [r, g, b];
+  }
+  const rgbMatch = color.match(/^rgb\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*\)$/);
+  if (rgbMatch) {
+    const [r, g, b] = rgbMatch.slice(1).map(Number);
+    return [r, g, b];
+  }
+  return undefined;
+}
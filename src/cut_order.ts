@@ -0,0 +1,135 @@
+import {CutOrderOptions} from './options.ts';
+import {getPieceNonShapeElements, getPieceShapeOutlines} from './outlines.ts';
+import {Subpath, flattenSubpath, isSubpathClosed, reverseSubpath, subpathsBoundingBox, subpathsToPathD} from './path_segments.ts';
+import {Piece, gather} from './pieces.ts';
+import {Point, pointsDist} from './point.ts';
+import {Polygon, isPointInPolygon, polygonSignedArea} from './polygons.ts';
+
+interface Contour {
+  readonly subpath: Subpath;
+  readonly polygon: Polygon;
+  /** The indices of the closed contours enclosing this contour. */
+  readonly enclosing: number[];
+}
+
+/** Returns the closed subpath starting at the end of the specified segment. */
+function rotateSubpath(subpath: Subpath, index: number): Subpath {
+  const {segments} = subpath;
+  const rotated = [...segments.slice(index + 1), ...segments.slice(0, index + 1)];
+  return {start: rotated[0].from, segments: rotated, closed: true};
+}
+
+/**
+ * Returns the version of the subpath that starts closest to the point: for an open subpath
+ * possibly reversed, and for a closed subpath possibly started at another vertex.
+ */
+function bestEntry(subpath: Subpath, point: Point) {
+  if (!subpath.segments.length)
+    return {subpath, dist: pointsDist(subpath.start, point)};
+  if (subpath.closed) {
+    let best = {index: subpath.segments.length - 1, dist: pointsDist(subpath.start, point)};
+    subpath.segments.forEach((segment, index) => {
+      const dist = pointsDist(segment.to, point);
+      if (dist < best.dist)
+        best = {index, dist};
+    });
+    return {subpath: rotateSubpath(subpath, best.index), dist: best.dist};
+  }
+  const startDist = pointsDist(subpath.start, point);
+  const endDist = pointsDist(subpath.segments.at(-1)!.to, point);
+  return endDist < startDist ? {subpath: reverseSubpath(subpath), dist: endDist} :
+    {subpath, dist: startDist};
+}
+
+function subpathEnd(subpath: Subpath, tolerance: number) {
+  return isSubpathClosed(subpath, tolerance) || !subpath.segments.length ?
+    subpath.start : subpath.segments.at(-1)!.to;
+}
+
+/**
+ * Orders the subpaths for cutting, according to the options. The contours inside closed
+ * contours can be placed before the enclosing ones (so that a part doesn't drop out before its
+ * holes are cut), the travel between the subpaths can be reduced by choosing greedily the nearest
+ * subpath (and its nearest starting point), and the closed contours can be oriented consistently.
+ */
+export function orderCutSubpaths(subpaths: readonly Subpath[], {
+  insideOut,
+  minimizeTravel,
+  direction,
+  start = [0, 0],
+}: Omit<CutOrderOptions, "enable"> & {
+  /** The initial position of the laser head. */
+  start?: Point,
+}): Subpath[] {
+  const box = subpathsBoundingBox(subpaths);
+  if (!box)
+    return [];
+  const tolerance = Math.max(box.width, box.height) * 1e-4;
+  const contours: Contour[] = subpaths.map(subpath => {
+    // The outlines ending at their start, like the ones drawn by a turtle, are closed as well.
+    if (isSubpathClosed(subpath, tolerance))
+      subpath = {...subpath, closed: true};
+    let polygon = flattenSubpath(subpath, tolerance);
+    if (subpath.closed && direction !== "keep" &&
+      (polygonSignedArea(polygon) > 0) !== (direction === "clockwise")) {
+      subpath = reverseSubpath(subpath);
+      polygon = flattenSubpath(subpath, tolerance);
+    }
+    return {subpath, polygon, enclosing: []};
+  });
+  if (insideOut) {
+    const areas = contours.map(({polygon}) => Math.abs(polygonSignedArea(polygon)));
+    contours.forEach((contour, i) => {
+      contours.forEach((other, j) => {
+        if (i !== j && other.subpath.closed && areas[j] > areas[i] &&
+          contour.polygon.every(point => isPointInPolygon(point, other.polygon)))
+          contour.enclosing.push(j);
+      });
+    });
+  }
+  const numEnclosed = contours.map(() => 0);
+  for (const {enclosing} of contours)
+    for (const j of enclosing)
+      numEnclosed[j]++;
+  const done = contours.map(() => false);
+  const result: Subpath[] = [];
+  let position = start;
+  for (let n = 0; n < contours.length; n++) {
+    let best: {index: number, subpath: Subpath, dist: number} | undefined;
+    for (const [index, contour] of contours.entries()) {
+      if (done[index] || numEnclosed[index])
+        continue;
+      if (!minimizeTravel) {
+        best = {index, subpath: contour.subpath, dist: 0};
+        break;
+      }
+      const entry = bestEntry(contour.subpath, position);
+      if (!best || entry.dist < best.dist)
+        best = {index, ...entry};
+    }
+    // There is always an available contour, as the enclosing relation is acyclic.
+    const {index, subpath} = best!;
+    done[index] = true;
+    for (const j of contours[index].enclosing)
+      numEnclosed[j]--;
+    result.push(subpath);
+    position = subpathEnd(subpath, tolerance);
+  }
+  return result;
+}
+
+/**
+ * Returns a Piece where all the shapes are combined into a single path, with the subpaths
+ * ordered for cutting.
+ * The other elements (like texts and images), and the shapes referenced by `<use>` elements,
+ * are kept as they are. The styles of the individual shapes are not preserved.
+ * @see {@link orderCutSubpaths}
+ */
+export function orderCutPaths(piece: Piece,
+  options: Omit<CutOrderOptions, "enable"> & {start?: Point}) {
+  const d = subpathsToPathD(orderCutSubpaths(getPieceShapeOutlines(piece), options));
+  return gather(
+    d ? Piece.createElement({tagName: "path", attributes: {d}}) : undefined,
+    getPieceNonShapeElements(piece),
+  ).addDefs(piece.getDefs());
+}
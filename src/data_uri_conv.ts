@@ -15,6 +15,14 @@ export function fromBase64({mimeType, base64Data}: {
 }
 
 export async function fromBlob(blob: Blob) {
+  if (typeof FileReader === "undefined") {
+    // FileReader is not available e.g. in Node.
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    let binary = "";
+    for (let i = 0; i < bytes.length; i++)
+      binary += String.fromCharCode(bytes[i]);
+    return fromBase64({mimeType: blob.type || DEFAULT_MIME_TYPE, base64Data: btoa(binary)});
+  }
   const fileReader = new FileReader();
   const loaded = loadEvent(fileReader);
   fileReader.readAsDataURL(blob);
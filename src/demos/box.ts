@@ -0,0 +1,35 @@
+import {box} from '../box.ts';
+import * as kerfUtil from '../kerf_util.ts';
+import * as layouts from '../layouts.ts';
+import {Sheet} from '../sheet.ts';
+
+export const name = "Box";
+
+const mpu = {millimetersPerUnit: 1};
+
+export function getBox() {
+  return box({
+    width: 80,
+    depth: 50,
+    height: 30,
+    materialThickness: 3,
+    kerf: kerfUtil.millimeters(0.18, mpu),
+    top: "hinged",
+    dividers: 2,
+  });
+}
+
+export function getSheets() {
+
+  const {pieces} = getBox();
+
+  return Sheet.create({
+    options: {name, ...mpu},
+    pieces: layouts.fitInBoxes({
+      pieces,
+      boxes: {width: 300, height: 1e6},
+      gap: 4,
+    }).boxedPieces[0]!,
+  });
+
+}
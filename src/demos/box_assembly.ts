@@ -0,0 +1,8 @@
+import {getAssemblyPreview} from '../viewer/viewer_tools.ts';
+import {getBox} from './box.ts';
+
+export const name = "Box assembly";
+
+export function element() {
+  return getAssemblyPreview(getBox().assembly);
+}
@@ -0,0 +1,59 @@
+import {turtleScallops, turtleZigzag} from '../edge_decorations.ts';
+import {turtleInterlock} from '../interlock.ts';
+import {TabsPattern} from '../interlock_patterns.ts';
+import * as kerfUtil from '../kerf_util.ts';
+import * as layouts from '../layouts.ts';
+import {Path} from '../path.ts';
+import {turtleAlongPath} from '../path_following.ts';
+import {Sheet} from '../sheet.ts';
+import {Turtle} from '../turtle.ts';
+
+export const name = "Curved edges";
+
+export function getSheets() {
+
+  const mpu = {millimetersPerUnit: 1};
+
+  const {tabs} = turtleInterlock({
+    materialThickness: 3,
+    kerf: kerfUtil.millimeters(0.18, mpu),
+    tabsDir: "left",
+  });
+
+  // The side of an arched roof, with tabs along the arch.
+  const arch = Path.create().cubic({point1: [0, -40], point2: [70, -40], target: [70, 0]});
+  const archSide = Turtle.create()
+    .forward(20)
+    .andThen(turtleAlongPath, {
+      path: arch,
+      func: (t, length) => t.andThen(tabs, TabsPattern.distributed({length, tabEveryLen: 10})),
+    })
+    .forward(20).right()
+    .forward(70);
+
+  // A flower-shaped coaster, with scallops along a circle.
+  const coaster = Turtle.create()
+    .andThen(turtleAlongPath, {
+      path: Turtle.create().arcRight(360, 25).asPath(),
+      func: (t, length) => t.andThen(turtleScallops, {length, period: 12, depth: 3}),
+    });
+
+  // A tag with a zigzag edge along a wave.
+  const wave = Path.create().cubic({point1: [15, -15], point2: [25, 15], target: [40, 0]});
+  const [waveEndX] = wave.getPointAtLength(wave.getTotalLength());
+  const tag = Turtle.create()
+    .andThen(turtleAlongPath, {
+      path: wave,
+      placement: "absolute",
+      func: (t, length) => t.andThen(turtleZigzag, {length, period: 4, depth: 2}),
+    })
+    .setAngle(180).forward(20).right()
+    .forward(waveEndX).right()
+    .forward(20);
+
+  return Sheet.create({
+    options: {name, ...mpu},
+    pieces: layouts.row({pieces: [archSide, coaster, tag], gap: 5}),
+  });
+
+}
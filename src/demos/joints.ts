@@ -0,0 +1,77 @@
+import {BoltSpec} from '../interlock.ts';
+import {TabsPattern} from '../interlock_patterns.ts';
+import * as kerfUtil from '../kerf_util.ts';
+import * as layouts from '../layouts.ts';
+import {Sheet} from '../sheet.ts';
+import {turtleInterlock} from '../tabbed_face.ts';
+
+export const name = "Joint types";
+
+export function getSheets() {
+
+  const mpu = {millimetersPerUnit: 1};
+
+  const materialThickness = 3;
+  const m3x12: BoltSpec = {diameter: 3, length: 12, nutWidth: 5.5, nutThickness: 2.4};
+  const {slots, TFace} = turtleInterlock({
+    materialThickness,
+    kerf: kerfUtil.millimeters(0.18, mpu),
+    tabsDir: "left",
+  });
+
+  const width = 60;
+  const height = 25;
+
+  // Two plates joined in the plane of the material with dovetails.
+  const dovetailA = TFace.create({startDir: "right"})
+    .tabsDef("joint", TabsPattern.distributed({length: width, numTabs: 3}), {
+      options: {tabShape: {kind: "dovetail", angleDeg: 12}},
+    })
+    .right().forward(height).right().forward(width).right().forward(height).right()
+    .closeFace();
+  const dovetailB = TFace.create({startDir: "left"})
+    .tabs(dovetailA.fit.joint)
+    .right().forward(height).right().forward(width).right().forward(height).right()
+    .closeFace();
+
+  // A plate with slots, and a perpendicular plate attached to it with bolts through the holes
+  // between the slots, and nuts captured in the t-slots.
+  const boltedPattern = TabsPattern.base(5).tab(10).base(10).tab(10).base(10).tab(10).base(5);
+  const bolted = TFace.create({startDir: "right"})
+    .tabs(boltedPattern, {options: {bolt: m3x12}})
+    .right().forward(height).right().forward(width).right().forward(height).right()
+    .closeFace();
+
+  // A plate with snap-fit clips, locking in the slots of the other plate.
+  const clippedPattern = TabsPattern.distributed({length: width, numTabs: 3, tabLength: 8});
+  const clipped = TFace.create({startDir: "right"})
+    .tabs(clippedPattern, {options: {tabShape: {kind: "snapFit", hookDepth: 0.8}}})
+    .right().forward(height).right().forward(width).right().forward(height).right()
+    .closeFace();
+
+  // The plate with the slots for both plates above.
+  const base = TFace.create({startDir: "right"})
+    .forward(10)
+    .branchTurtle(t => t
+      .withPenUp(t => t.strafeRight(height / 3))
+      .andThen(slots, {
+        pattern: boltedPattern.matchingSlots(),
+        options: {bolt: m3x12},
+      })
+      .withPenUp(t => t.back(width).strafeRight(height / 3))
+      .andThen(slots, clippedPattern.matchingSlots())
+    )
+    .forward(width + 10).right().forward(height).right().forward(width + 20).right()
+    .forward(height).right()
+    .closeFace();
+
+  return Sheet.create({
+    options: {name, ...mpu},
+    pieces: layouts.pack([
+      [dovetailA, dovetailB.rotate(180)],
+      [bolted, clipped],
+      base,
+    ]),
+  });
+
+}
@@ -0,0 +1,45 @@
+import * as layouts from '../layouts.ts';
+import {turtleLSystem} from '../l_system.ts';
+import {Sheet} from '../sheet.ts';
+import {Turtle} from '../turtle.ts';
+
+export const name = "L-systems";
+
+export function getSheets() {
+
+  const mpu = {millimetersPerUnit: 1};
+
+  // Koch snowflake.
+  const snowflake = Turtle.create().andThen(turtleLSystem, {
+    axiom: "F--F--F",
+    rules: {F: "F+F--F+F"},
+    depth: 3,
+    step: 2,
+    angleDeg: 60,
+  });
+
+  // Hilbert curve. The symbols A and B only control the expansion, and are not drawn.
+  const hilbert = Turtle.create().andThen(turtleLSystem, {
+    axiom: "A",
+    rules: {A: "+BF-AFA-FB+", B: "-AF+BFB+FA-"},
+    depth: 4,
+    step: 3,
+  });
+
+  // A fractal plant. The symbols X remaining after the last iteration are drawn as round buds
+  // by a custom action.
+  const plant = Turtle.create().andThen(turtleLSystem, {
+    axiom: "X",
+    rules: {X: "F+[[X]-X]-F[-FX]+X", F: "FF"},
+    depth: 4,
+    step: 1.5,
+    angleDeg: 25,
+    actions: {X: t => t.withPenUp(t => t.forward(0.6)).circle(0.6)},
+  });
+
+  return Sheet.create({
+    options: {name, ...mpu},
+    pieces: layouts.row({pieces: [snowflake, hilbert, plant], gap: 5}),
+  });
+
+}
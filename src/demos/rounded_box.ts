@@ -0,0 +1,61 @@
+import {TabsPattern} from '../interlock_patterns.ts';
+import * as kerfUtil from '../kerf_util.ts';
+import * as layouts from '../layouts.ts';
+import {livingHingeLength} from '../living_hinge.ts';
+import {Sheet} from '../sheet.ts';
+import {TabbedFace, turtleInterlock} from '../tabbed_face.ts';
+
+export const name = "Rounded box";
+
+export function getSheets() {
+
+  const mpu = {millimetersPerUnit: 1};
+
+  const materialThickness = 3;
+  const {TFace} = turtleInterlock({
+    materialThickness,
+    kerf: kerfUtil.millimeters(0.18, mpu),
+    tabsDir: "left",
+  });
+
+  // Inner size of the box, and the radius of its corners.
+  const width = 70;
+  const depth = 40;
+  const height = 30;
+  const radius = 10;
+
+  const widthTabs = TabsPattern.distributed({length: width - 2 * radius, numTabs: 3});
+  const depthTabs = TabsPattern.distributed({length: depth - 2 * radius, numTabs: 2});
+
+  const bottom = TFace.create({startDir: "right"})
+    .tabs(widthTabs.matchingTabs()).arcRight(90, radius)
+    .tabs(depthTabs.matchingTabs()).arcRight(90, radius)
+    .tabs(widthTabs.matchingTabs()).arcRight(90, radius)
+    .tabs(depthTabs.matchingTabs()).arcRight(90, radius)
+    .closeFace();
+
+  // The side walls are a single strip, bent on the corners, and joined in the middle
+  // of the front side.
+  const corner = (face: TabbedFace) =>
+    face.livingHinge({angleDeg: 90, radius, height, pattern: "straight"});
+  const wallBottom = (face: TabbedFace) => face
+    .tabs(widthTabs.slice(widthTabs.length() / 2)).andThen(corner)
+    .tabs(depthTabs).andThen(corner)
+    .tabs(widthTabs).andThen(corner)
+    .tabs(depthTabs).andThen(corner)
+    .tabs(widthTabs.slice(0, widthTabs.length() / 2));
+  const wallLength = 2 * widthTabs.length() + 2 * depthTabs.length() +
+    4 * livingHingeLength({angleDeg: 90, radius, materialThickness});
+  const wall = TFace.create({startDir: "down"})
+    .forward(height).right()
+    .andThen(wallBottom).right()
+    .forward(height).right()
+    .forward(wallLength).right()
+    .closeFace();
+
+  return Sheet.create({
+    options: {name, ...mpu},
+    pieces: layouts.column({pieces: [wall, bottom], gap: 5}),
+  });
+
+}
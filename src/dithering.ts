@@ -0,0 +1,158 @@
+import {DitherOptions} from './options.ts';
+
+/** The weights of an error diffusion kernel, as `[dx, dy, weight]`, and the divisor. */
+interface DiffusionKernel {
+  readonly weights: readonly (readonly [dx: number, dy: number, weight: number])[];
+  readonly divisor: number;
+}
+
+const DIFFUSION_KERNELS = {
+  floydSteinberg: {
+    weights: [
+      [1, 0, 7],
+      [-1, 1, 3], [0, 1, 5], [1, 1, 1],
+    ],
+    divisor: 16,
+  },
+  jarvis: {
+    weights: [
+      [1, 0, 7], [2, 0, 5],
+      [-2, 1, 3], [-1, 1, 5], [0, 1, 7], [1, 1, 5], [2, 1, 3],
+      [-2, 2, 1], [-1, 2, 3], [0, 2, 5], [1, 2, 3], [2, 2, 1],
+    ],
+    divisor: 48,
+  },
+  stucki: {
+    weights: [
+      [1, 0, 8], [2, 0, 4],
+      [-2, 1, 2], [-1, 1, 4], [0, 1, 8], [1, 1, 4], [2, 1, 2],
+      [-2, 2, 1], [-1, 2, 2], [0, 2, 4], [1, 2, 2], [2, 2, 1],
+    ],
+    divisor: 42,
+  },
+} satisfies Record<string, DiffusionKernel>;
+
+/**
+ * Returns the lightness of the pixels, in the range 0 to 255, as if the image was placed
+ * on a white background.
+ */
+export function getImageLightness({data, width, height}: ImageData) {
+  const lightness = new Float32Array(width * height);
+  for (let i = 0; i < lightness.length; i++) {
+    const [r, g, b, a] = data.subarray(4 * i, 4 * i + 4);
+    const luma = 0.299 * r + 0.587 * g + 0.114 * b;
+    lightness[i] = (luma * a + 0xFF * (0xFF - a)) / 0xFF;
+  }
+  return lightness;
+}
+
+function diffuseError(lightness: Float32Array, {width, height}: ImageData, {
+  kernel: {weights, divisor},
+  serpentine,
+}: {
+  kernel: DiffusionKernel,
+  serpentine: boolean,
+}) {
+  const black = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const reverse = serpentine && y % 2 === 1;
+    for (let i = 0; i < width; i++) {
+      const x = reverse ? width - 1 - i : i;
+      const index = y * width + x;
+      const value = lightness[index];
+      const isBlack = value < 0x80;
+      black[index] = Number(isBlack);
+      const error = (value - (isBlack ? 0 : 0xFF)) / divisor;
+      for (const [dx, dy, weight] of weights) {
+        const [nx, ny] = [reverse ? x - dx : x + dx, y + dy];
+        if (nx >= 0 && nx < width && ny < height)
+          lightness[ny * width + nx] += error * weight;
+      }
+    }
+  }
+  return black;
+}
+
+/** Returns the Bayer matrix of the specified size, with values from 0 to size² - 1. */
+function bayerMatrix(size: number): number[][] {
+  if (size === 1)
+    return [[0]];
+  const halfSize = size / 2;
+  const half = bayerMatrix(halfSize);
+  const quadrants = [[0, 2], [3, 1]];
+  return Array.from({length: size}, (_, y) => Array.from({length: size}, (_, x) =>
+    4 * half[y % halfSize][x % halfSize] +
+    quadrants[Math.floor(y / halfSize)][Math.floor(x / halfSize)]));
+}
+
+function orderedDither(lightness: Float32Array, {width, height}: ImageData, size: number) {
+  const matrix = bayerMatrix(size);
+  const black = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++)
+    for (let x = 0; x < width; x++) {
+      const threshold = (matrix[y % size][x % size] + 0.5) / (size * size) * 0xFF;
+      black[y * width + x] = Number(lightness[y * width + x] < threshold);
+    }
+  return black;
+}
+
+/**
+ * Returns the fraction of the unit cell covered by a circle with the specified radius, centred
+ * in the cell.
+ */
+function circleCoverage(radius: number) {
+  if (radius <= 0.5)
+    return Math.PI * radius * radius;
+  if (radius >= Math.SQRT1_2)
+    return 1;
+  const segment =
+    radius * radius * Math.acos(0.5 / radius) - 0.5 * Math.sqrt(radius * radius - 0.25);
+  return Math.PI * radius * radius - 4 * segment;
+}
+
+function halftone(lightness: Float32Array, {width, height}: ImageData, {cellSize, angleDeg}: {
+  cellSize: number,
+  angleDeg: number,
+}) {
+  const angle = angleDeg * Math.PI / 180;
+  const [cos, sin] = [Math.cos(angle) / cellSize, Math.sin(angle) / cellSize];
+  const black = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++)
+    for (let x = 0; x < width; x++) {
+      const [px, py] = [x + 0.5, y + 0.5];
+      const u = px * cos + py * sin;
+      const v = py * cos - px * sin;
+      const [du, dv] = [u - Math.floor(u) - 0.5, v - Math.floor(v) - 0.5];
+      // The pixel is black if the dot large enough to cover it has the area not larger
+      // than the darkness of the pixel.
+      const darkness = 1 - lightness[y * width + x] / 0xFF;
+      black[y * width + x] = Number(circleCoverage(Math.hypot(du, dv)) < darkness);
+    }
+  return black;
+}
+
+/**
+ * Converts the image in place to a 1-bit image, consisting of opaque black pixels, and white
+ * pixels, which are opaque, or transparent where the original image was fully transparent.
+ * The transparent parts of the image are treated as white.
+ */
+export function ditherImageData(imageData: ImageData, {
+  method,
+  serpentine,
+  bayerSize,
+  halftoneCellSize,
+  halftoneAngleDeg,
+}: DitherOptions) {
+  const lightness = getImageLightness(imageData);
+  const black = method === "bayer" ? orderedDither(lightness, imageData, bayerSize) :
+    method === "halftone" ? halftone(lightness, imageData, {
+      cellSize: halftoneCellSize,
+      angleDeg: halftoneAngleDeg,
+    }) :
+      diffuseError(lightness, imageData, {kernel: DIFFUSION_KERNELS[method], serpentine});
+  const {data} = imageData;
+  for (let i = 0; i < black.length; i++) {
+    const value = black[i] ? 0 : 0xFF;
+    data.set([value, value, value, black[i] || data[4 * i + 3] ? 0xFF : 0], 4 * i);
+  }
+}
@@ -0,0 +1,203 @@
+import {getPieceNonShapeElements, getPieceShapeOutlines} from './outlines.ts';
+import {ArcSegment, Segment, Subpath, segmentControlPoints, segmentPoint, splitSegment, subpathsBoundingBox, subpathsToPathD} from './path_segments.ts';
+import {Piece, gather} from './pieces.ts';
+import {Point, pointsDist} from './point.ts';
+import {ViewBox} from './view_box.ts';
+
+/** An interval of the parameter of a segment, between 0 and 1. */
+type Interval = readonly [number, number];
+
+function boxesOverlap(a: ViewBox, b: ViewBox, margin: number) {
+  return a.minX <= b.minX + b.width + margin && b.minX <= a.minX + a.width + margin &&
+    a.minY <= b.minY + b.height + margin && b.minY <= a.minY + a.height + margin;
+}
+
+/** Returns the distance of the point from the line containing the segment, and its parameter. */
+function projectOnLine(point: Point, from: Point, to: Point) {
+  const dx = to[0] - from[0];
+  const dy = to[1] - from[1];
+  const length = Math.hypot(dx, dy);
+  const rx = point[0] - from[0];
+  const ry = point[1] - from[1];
+  return {
+    dist: Math.abs(rx * dy - ry * dx) / length,
+    u: (rx * dx + ry * dy) / (length * length),
+  };
+}
+
+function lineCoverage(segment: Segment, other: Segment, tolerance: number): Interval | undefined {
+  if (other.type !== "line")
+    return undefined;
+  const a = projectOnLine(other.from, segment.from, segment.to);
+  const b = projectOnLine(other.to, segment.from, segment.to);
+  if (a.dist > tolerance || b.dist > tolerance)
+    return undefined;
+  return [Math.min(a.u, b.u), Math.max(a.u, b.u)];
+}
+
+/** Returns the angle of the point in the parametrisation of the arc's ellipse. */
+function arcAngle({center, axisU, axisV}: ArcSegment, point: Point) {
+  const det = axisU[0] * axisV[1] - axisU[1] * axisV[0];
+  const rx = point[0] - center[0];
+  const ry = point[1] - center[1];
+  return Math.atan2((axisU[0] * ry - axisU[1] * rx) / det, (rx * axisV[1] - ry * axisV[0]) / det);
+}
+
+function arcCoverage(segment: ArcSegment, other: Segment, tolerance: number): Interval[] {
+  if (other.type !== "arc" || pointsDist(segment.center, other.center) > tolerance)
+    return [];
+  const det = (arc: ArcSegment) => arc.axisU[0] * arc.axisV[1] - arc.axisU[1] * arc.axisV[0];
+  if (!det(segment) || !det(other))
+    return [];
+  // Check that the other arc lies on the same ellipse.
+  for (const t of [0, 0.25, 0.5, 0.75, 1]) {
+    const point = segmentPoint(other, t);
+    const angle = arcAngle(segment, point);
+    if (pointsDist(segmentPoint({...segment, startAngle: angle, sweepAngle: 0}, 0.5), point) >
+      tolerance)
+      return [];
+  }
+  // Both arcs are parametrised by angles on the same ellipse, so the parametrisations differ
+  // only by a shift and possibly the direction.
+  const direction = Math.sign(det(segment)) * Math.sign(det(other));
+  const otherStart = arcAngle(segment, other.from);
+  const otherEnd = otherStart + direction * other.sweepAngle;
+  const [otherMin, otherMax] = [Math.min(otherStart, otherEnd), Math.max(otherStart, otherEnd)];
+  const {startAngle, sweepAngle} = segment;
+  const [min, max] = [Math.min(startAngle, startAngle + sweepAngle),
+    Math.max(startAngle, startAngle + sweepAngle)];
+  const result: Interval[] = [];
+  for (let shift = -2; shift <= 2; shift++) {
+    const from = Math.max(min, otherMin + shift * 2 * Math.PI);
+    const to = Math.min(max, otherMax + shift * 2 * Math.PI);
+    if (from < to) {
+      const u1 = (from - startAngle) / sweepAngle;
+      const u2 = (to - startAngle) / sweepAngle;
+      result.push([Math.min(u1, u2), Math.max(u1, u2)]);
+    }
+  }
+  return result;
+}
+
+function isSameCurve(segment: Segment, other: Segment, tolerance: number) {
+  if (segment.type !== other.type)
+    return false;
+  const points = segmentControlPoints(segment);
+  const otherPoints = segmentControlPoints(other);
+  return points.every((point, i) => pointsDist(point, otherPoints[i]) <= tolerance) ||
+    points.every((point, i) => pointsDist(point, otherPoints.at(-1 - i)!) <= tolerance);
+}
+
+/** Returns the intervals of the segment that are covered by the other segment. */
+function coverage(segment: Segment, other: Segment, tolerance: number): Interval[] {
+  switch (segment.type) {
+    case "line": {
+      const interval = lineCoverage(segment, other, tolerance);
+      return interval ? [interval] : [];
+    }
+    case "arc":
+      return arcCoverage(segment, other, tolerance);
+    case "quadratic":
+    case "cubic":
+      return isSameCurve(segment, other, tolerance) ? [[0, 1]] : [];
+    default:
+      return segment satisfies never;
+  }
+}
+
+/** Returns the part of the segment between the specified parameters. */
+function subSegment(segment: Segment, [from, to]: Interval): Segment {
+  const head = to < 1 ? splitSegment(segment, to)[0] : segment;
+  return from > 0 ? splitSegment(head, from / to)[1] : head;
+}
+
+interface SegmentPart {
+  readonly segment: Segment;
+  /** The index of the original segment in the subpath. */
+  readonly index: number;
+  readonly atStart: boolean;
+  readonly atEnd: boolean;
+}
+
+/**
+ * Removes the parts of the lines and arcs that overlap the earlier lines and arcs (in the order
+ * of the subpaths and segments), so that each line is included only once. Other curves are
+ * removed only if they duplicate exactly an earlier curve (possibly reversed).
+ * The subpaths are split where the overlapping parts are removed.
+ */
+export function removeDuplicateSegments(subpaths: readonly Subpath[],
+  {tolerance}: {tolerance?: number} = {}): Subpath[] {
+  const box = subpathsBoundingBox(subpaths);
+  if (!box)
+    return [];
+  tolerance ??= Math.max(box.width, box.height) * 1e-6;
+  const tol = tolerance;
+  const segments = subpaths.flatMap(({segments}) => segments);
+  const boxes = segments.map(segment =>
+    subpathsBoundingBox([{start: segment.from, segments: [segment], closed: false}])!);
+  const isTiny = (segment: Segment) => pointsDist(segment.from, segment.to) <= tol &&
+    pointsDist(segment.from, segmentPoint(segment, 0.5)) <= tol;
+  let index = 0;
+  const result: Subpath[] = [];
+  for (const subpath of subpaths) {
+    const parts: SegmentPart[] = [];
+    for (const [k, segment] of subpath.segments.entries()) {
+      const i = index++;
+      if (isTiny(segment))
+        continue;
+      const covered: Interval[] = [];
+      for (let j = 0; j < i; j++)
+        if (!isTiny(segments[j]) && boxesOverlap(boxes[i], boxes[j], tol))
+          covered.push(...coverage(segment, segments[j], tol));
+      covered.sort((a, b) => a[0] - b[0]);
+      let pos = 0;
+      for (const [from, to] of [...covered, [1, 1] as Interval]) {
+        const end = Math.min(Math.max(from, 0), 1);
+        if (end > pos) {
+          const part = subSegment(segment, [pos, end]);
+          if (!isTiny(part))
+            parts.push({segment: part, index: k, atStart: pos === 0, atEnd: end === 1});
+        }
+        pos = Math.max(pos, Math.min(to, 1));
+      }
+    }
+    if (parts.length === subpath.segments.filter(segment => !isTiny(segment)).length &&
+      parts.every(({atStart, atEnd}) => atStart && atEnd)) {
+      result.push(subpath);
+      continue;
+    }
+    const chains: Segment[][] = [];
+    let previous: SegmentPart | undefined;
+    for (const part of parts) {
+      if (previous?.atEnd && part.atStart &&
+        pointsDist(previous.segment.to, part.segment.from) <= tol)
+        chains.at(-1)!.push(part.segment);
+      else
+        chains.push([part.segment]);
+      previous = part;
+    }
+    const [first, last] = [parts[0], parts.at(-1)];
+    if (subpath.closed && chains.length > 1 && first.index === 0 && first.atStart &&
+      last?.index === subpath.segments.length - 1 && last.atEnd)
+      chains[0].unshift(...chains.pop()!);
+    for (const chain of chains)
+      result.push({start: chain[0].from, segments: chain, closed: false});
+  }
+  return result;
+}
+
+/**
+ * Returns a Piece where all the shapes are combined into a single path, with the parts of lines
+ * and arcs that overlap earlier lines and arcs removed, so that the shared edges of the adjacent
+ * parts are cut only once.
+ * The other elements (like texts and images), and the shapes referenced by `<use>` elements,
+ * are kept as they are. The styles of the individual shapes are not preserved.
+ * @see {@link removeDuplicateSegments}
+ */
+export function removeDuplicateLines(piece: Piece, {tolerance}: {tolerance?: number} = {}) {
+  const d = subpathsToPathD(removeDuplicateSegments(getPieceShapeOutlines(piece), {tolerance}));
+  return gather(
+    d ? Piece.createElement({tagName: "path", attributes: {d}}) : undefined,
+    getPieceNonShapeElements(piece),
+  ).addDefs(piece.getDefs());
+}
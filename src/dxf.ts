@@ -0,0 +1,480 @@
+import * as assets from './assets.ts';
+import {Matrix} from './matrix.ts';
+import {getElementOutlines} from './outlines.ts';
+import {ArcSegment, Segment, Subpath, arcPointAtAngle, flattenSegment, reverseSubpath, subpathsToPathD, transformSubpaths} from './path_segments.ts';
+import {Path} from './path.ts';
+import {Point, pointsDist} from './point.ts';
+import {BasicSheetParams, Sheet} from './sheet.ts';
+
+/** A DXF entity, as a list of group code and value pairs. */
+interface DXFEntity {
+  readonly type: string;
+  readonly layer: string;
+  readonly groups: readonly (readonly [number, string])[];
+  /** The vertices of a POLYLINE entity. */
+  readonly vertices?: readonly DXFEntity[];
+}
+
+function groupNumber(entity: DXFEntity, code: number, defaultValue = 0) {
+  const group = entity.groups.find(([c]) => c === code);
+  return group ? Number(group[1]) : defaultValue;
+}
+
+function groupNumbers(entity: DXFEntity, code: number) {
+  return entity.groups.filter(([c]) => c === code).map(([_c, v]) => Number(v));
+}
+
+function parseDXFEntities(dxf: string): DXFEntity[] {
+  const lines = dxf.split(/\r?\n/);
+  const groups: [number, string][] = [];
+  for (let i = 0; i + 1 < lines.length; i += 2) {
+    const code = Number(lines[i].trim());
+    if (!Number.isInteger(code))
+      throw new Error(`Invalid DXF group code in line ${i + 1}: ${JSON.stringify(lines[i])}`);
+    groups.push([code, lines[i + 1].trim()]);
+  }
+  const result: DXFEntity[] = [];
+  let inEntities = false;
+  let current: [number, string][] | undefined;
+  let polyline: DXFEntity | undefined;
+  function finishEntity() {
+    if (!current)
+      return;
+    const type = current[0][1];
+    const entity: DXFEntity = {
+      type,
+      layer: current.find(([c]) => c === 8)?.[1] ?? "0",
+      groups: current.slice(1),
+    };
+    current = undefined;
+    if (type === "POLYLINE") {
+      polyline = {...entity, vertices: []};
+      result.push(polyline);
+    } else if (type === "VERTEX" && polyline)
+      (polyline.vertices as DXFEntity[]).push(entity);
+    else if (type === "SEQEND")
+      polyline = undefined;
+    else
+      result.push(entity);
+  }
+  for (let i = 0; i < groups.length; i++) {
+    const [code, value] = groups[i];
+    if (code === 0) {
+      finishEntity();
+      if (value === "SECTION")
+        inEntities = groups[i + 1]?.[0] === 2 && groups[i + 1][1] === "ENTITIES";
+      else if (value === "ENDSEC")
+        inEntities = false;
+      else if (inEntities)
+        current = [[code, value]];
+    } else if (current)
+      current.push([code, value]);
+  }
+  finishEntity();
+  return result;
+}
+
+/** Matrix mirroring the entity, if its extrusion direction points down. */
+function extrusionMatrix(entity: DXFEntity): Matrix | undefined {
+  return groupNumber(entity, 230, 1) < 0 ? [-1, 0, 0, 1, 0, 0] : undefined;
+}
+
+function circleArc(center: Point, radius: number, startAngle: number, sweepAngle: number):
+  ArcSegment {
+  const segment: Omit<ArcSegment, "from" | "to"> = {
+    type: "arc",
+    center,
+    axisU: [radius, 0],
+    axisV: [0, radius],
+    startAngle,
+    sweepAngle,
+  };
+  return {
+    ...segment,
+    from: arcPointAtAngle(segment as ArcSegment, startAngle),
+    to: arcPointAtAngle(segment as ArcSegment, startAngle + sweepAngle),
+  };
+}
+
+/**
+ * Returns the segment between two polyline vertices. The bulge is the tangent of a quarter of
+ * the included angle of the arc, positive for a counterclockwise arc, and 0 for a straight line.
+ */
+function bulgeSegment(from: Point, to: Point, bulge: number): Segment {
+  const chord = pointsDist(from, to);
+  if (!bulge || !chord)
+    return {type: "line", from, to};
+  const angle = 4 * Math.atan(bulge);
+  const radius = chord / 2 / Math.sin(Math.abs(angle) / 2);
+  const centerOffset = chord / 2 / Math.tan(angle / 2);
+  const center: Point = [
+    (from[0] + to[0]) / 2 - (to[1] - from[1]) / chord * centerOffset,
+    (from[1] + to[1]) / 2 + (to[0] - from[0]) / chord * centerOffset,
+  ];
+  return {
+    ...circleArc(center, radius, Math.atan2(from[1] - center[1], from[0] - center[0]), angle),
+    from,
+    to,
+  };
+}
+
+function polylineSubpath(vertices: readonly {point: Point, bulge: number}[], closed: boolean):
+  Subpath | undefined {
+  if (!vertices.length)
+    return undefined;
+  const segments: Segment[] = [];
+  const n = closed ? vertices.length : vertices.length - 1;
+  for (let i = 0; i < n; i++) {
+    const {point, bulge} = vertices[i];
+    segments.push(bulgeSegment(point, vertices[(i + 1) % vertices.length].point, bulge));
+  }
+  return {start: vertices[0].point, segments, closed};
+}
+
+/** Converts a B-spline (possibly rational) to Bézier curves, using knot insertion. */
+function splineSegments({degree, knots, points, weights}: {
+  degree: number,
+  knots: readonly number[],
+  points: readonly Point[],
+  weights: readonly number[],
+}): Segment[] {
+  if (knots.length !== points.length + degree + 1)
+    throw new Error(`Invalid DXF spline, expected ${points.length + degree + 1} knots, ` +
+      `got ${knots.length}`);
+  const domainStart = knots[degree];
+  const domainEnd = knots[points.length];
+  let us = [...knots];
+  // Homogeneous coordinates.
+  let ps = points.map(([x, y], i) => {
+    const w = weights[i] ?? 1;
+    return [x * w, y * w, w];
+  });
+  const distinctKnots = [...new Set(us.filter(u => u >= domainStart && u <= domainEnd))];
+  for (const u of distinctKnots) {
+    while (us.filter(v => v === u).length < degree) {
+      const k = us.findLastIndex(v => v <= u);
+      const newPs = [];
+      for (let i = 0; i <= ps.length; i++)
+        if (i <= k - degree)
+          newPs.push(ps[i]);
+        else if (i > k)
+          newPs.push(ps[i - 1]);
+        else {
+          const alpha = (u - us[i]) / (us[i + degree] - us[i]);
+          newPs.push(ps[i].map((v, j) => (1 - alpha) * ps[i - 1][j] + alpha * v));
+        }
+      ps = newPs;
+      us = [...us.slice(0, k + 1), u, ...us.slice(k + 1)];
+    }
+  }
+  const isRational = weights.some(w => w !== weights[0]);
+  const result: Segment[] = [];
+  for (let k = degree; k < ps.length; k++) {
+    if (!(us[k] < us[k + 1] && us[k] >= domainStart && us[k + 1] <= domainEnd))
+      continue;
+    const bezier = ps.slice(k - degree, k + 1);
+    const cartesian = bezier.map(([x, y, w]): Point => [x / w, y / w]);
+    if (!isRational && degree === 1)
+      result.push({type: "line", from: cartesian[0], to: cartesian[1]});
+    else if (!isRational && degree === 2)
+      result.push({type: "quadratic", from: cartesian[0], control: cartesian[1], to: cartesian[2]});
+    else if (!isRational && degree === 3)
+      result.push({
+        type: "cubic",
+        from: cartesian[0], control1: cartesian[1], control2: cartesian[2], to: cartesian[3],
+      });
+    else {
+      // Approximate with lines, evaluating the curve with the de Casteljau algorithm.
+      const numPieces = 16 * degree;
+      let prev = cartesian[0];
+      for (let i = 1; i <= numPieces; i++) {
+        const t = i / numPieces;
+        let pts = bezier;
+        while (pts.length > 1)
+          pts = pts.slice(1).map((p, j) => p.map((v, c) => (1 - t) * pts[j][c] + t * v));
+        const [x, y, w] = pts[0];
+        const point: Point = [x / w, y / w];
+        result.push({type: "line", from: prev, to: point});
+        prev = point;
+      }
+    }
+  }
+  return result;
+}
+
+function entitySubpath(entity: DXFEntity): Subpath | undefined {
+  const point = (xCode: number): Point =>
+    [groupNumber(entity, xCode), groupNumber(entity, xCode + 10)];
+  let subpath: Subpath | undefined;
+  switch (entity.type) {
+    case "LINE":
+      subpath = {start: point(10), segments: [{type: "line", from: point(10), to: point(11)}],
+        closed: false};
+      break;
+    case "CIRCLE": {
+      const arc = circleArc(point(10), groupNumber(entity, 40), 0, 2 * Math.PI);
+      subpath = {start: arc.from, segments: [arc], closed: true};
+      break;
+    }
+    case "ARC": {
+      const startDeg = groupNumber(entity, 50);
+      let sweepDeg = (groupNumber(entity, 51) - startDeg) % 360;
+      if (sweepDeg <= 0)
+        sweepDeg += 360;
+      const arc = circleArc(point(10), groupNumber(entity, 40),
+        startDeg / 180 * Math.PI, sweepDeg / 180 * Math.PI);
+      subpath = {start: arc.from, segments: [arc], closed: false};
+      break;
+    }
+    case "LWPOLYLINE": {
+      const vertices: {point: Point, bulge: number}[] = [];
+      for (const [code, value] of entity.groups)
+        if (code === 10)
+          vertices.push({point: [Number(value), 0], bulge: 0});
+        else if (code === 20 && vertices.length)
+          vertices.at(-1)!.point = [vertices.at(-1)!.point[0], Number(value)];
+        else if (code === 42 && vertices.length)
+          vertices.at(-1)!.bulge = Number(value);
+      subpath = polylineSubpath(vertices, !!(groupNumber(entity, 70) & 1));
+      break;
+    }
+    case "POLYLINE":
+      subpath = polylineSubpath(
+        (entity.vertices || []).filter(v => !(groupNumber(v, 70) & 16)).map(v => ({
+          point: [groupNumber(v, 10), groupNumber(v, 20)],
+          bulge: groupNumber(v, 42),
+        })),
+        !!(groupNumber(entity, 70) & 1));
+      break;
+    case "SPLINE": {
+      const xs = groupNumbers(entity, 10);
+      const ys = groupNumbers(entity, 20);
+      if (!xs.length)
+        throw new Error(`DXF splines defined only by fit points are not supported`);
+      const segments = splineSegments({
+        degree: groupNumber(entity, 71, 3),
+        knots: groupNumbers(entity, 40),
+        points: xs.map((x, i) => [x, ys[i]]),
+        weights: groupNumbers(entity, 41),
+      });
+      if (segments.length)
+        subpath = {start: segments[0].from, segments, closed: !!(groupNumber(entity, 70) & 1)};
+      break;
+    }
+    default:
+      return undefined;
+  }
+  const matrix = extrusionMatrix(entity);
+  return subpath && matrix ? transformSubpaths([subpath], matrix)[0] : subpath;
+}
+
+/**
+ * Joins the open subpaths whose ends meet, into longer subpaths, closing them if they end where
+ * they start.
+ */
+function joinSubpaths(subpaths: readonly Subpath[], tolerance: number): Subpath[] {
+  const end = (subpath: Subpath) => subpath.segments.at(-1)?.to || subpath.start;
+  const near = (a: Point, b: Point) => pointsDist(a, b) <= tolerance;
+  const result: Subpath[] = subpaths.filter(({closed}) => closed);
+  const open = subpaths.filter(({closed}) => !closed);
+  const used = new Set<Subpath>();
+  for (const first of open) {
+    if (used.has(first))
+      continue;
+    used.add(first);
+    let chain = first;
+    for (let direction = 0; direction < 2; direction++) {
+      for (; ;) {
+        const chainEnd = end(chain);
+        if (near(chainEnd, chain.start) && chain.segments.length > 1)
+          break;
+        let next = open.find(s => !used.has(s) && near(s.start, chainEnd));
+        if (!next) {
+          const reversed = open.find(s => !used.has(s) && near(end(s), chainEnd));
+          if (reversed) {
+            used.add(reversed);
+            next = reverseSubpath(reversed);
+          }
+        } else
+          used.add(next);
+        if (!next)
+          break;
+        chain = {start: chain.start, segments: [...chain.segments, ...next.segments], closed: false};
+      }
+      chain = reverseSubpath(chain);
+    }
+    result.push({...chain, closed: near(end(chain), chain.start)});
+  }
+  return result;
+}
+
+/**
+ * A class representing an imported DXF file. Supported entities are: LINE, ARC, CIRCLE,
+ * LWPOLYLINE, POLYLINE and SPLINE (defined by control points), other entities are ignored.
+ *
+ * Usage:
+ *
+ *     const dxfFile = await DXFImporter.fromAsset(import("" + "./path/to/file.dxf"));
+ *     const path = dxfFile.path({layers: ["Outline"]});
+ */
+export class DXFImporter {
+
+  protected constructor(private readonly entities: readonly DXFEntity[]) {}
+
+  static fromString(dxf: string) {
+    return new DXFImporter(parseDXFEntities(dxf));
+  }
+
+  static async fromAsset(urlAsset: assets.ModuleImport<string>) {
+    return DXFImporter.fromString(await (await fetch(await assets.url(urlAsset))).text());
+  }
+
+  /** Returns the names of the layers containing any entities. */
+  getLayers() {
+    return [...new Set(this.entities.map(({layer}) => layer))];
+  }
+
+  /**
+   * Returns a Path with the entities from the specified layers (or all layers).
+   * The entities that connect are joined into continuous subpaths.
+   * By default the Y axis is flipped, as in DXF it points up, and in SVG it points down.
+   */
+  path({layers, flipY = true, joinTolerance = 1e-6}: {
+    layers?: readonly string[],
+    flipY?: boolean,
+    joinTolerance?: number,
+  } = {}) {
+    const subpaths = this.entities
+      .filter(({layer}) => !layers || layers.includes(layer))
+      .map(entitySubpath)
+      .filter(subpath => subpath !== undefined);
+    if (!subpaths.length)
+      throw new Error(`Expected supported entities in the DXF file${layers ?
+        ` in layers ${JSON.stringify(layers)}` : ""}, but not found`);
+    const joined = joinSubpaths(subpaths, joinTolerance);
+    return Path.fromD(subpathsToPathD(flipY ? transformSubpaths(joined, [1, 0, 0, -1, 0, 0]) : joined));
+  }
+
+}
+
+function dxfNum(value: number) {
+  return String(Number(value.toFixed(6)));
+}
+
+function isCircular({axisU: [ux, uy], axisV: [vx, vy]}: ArcSegment) {
+  const scale = ux * ux + uy * uy;
+  return Math.abs(vx * vx + vy * vy - scale) <= 1e-9 * scale &&
+    Math.abs(ux * vx + uy * vy) <= 1e-9 * scale;
+}
+
+/** Returns the DXF groups of the subpath, as a POLYLINE, or a CIRCLE if possible. */
+function subpathDXFGroups({start, segments, closed}: Subpath, layer: string, tolerance: number) {
+  const groups: [number, string | number][] = [];
+  if (segments.length === 1 && segments[0].type === "arc" && isCircular(segments[0]) &&
+    Math.abs(Math.abs(segments[0].sweepAngle) - 2 * Math.PI) < 1e-9) {
+    const {center, axisU} = segments[0];
+    groups.push([0, "CIRCLE"], [8, layer], [10, center[0]], [20, center[1]], [30, 0],
+      [40, Math.hypot(...axisU)]);
+    return groups;
+  }
+  const vertices: {point: Point, bulge: number}[] = [];
+  for (const segment of segments)
+    if (segment.type === "arc" && isCircular(segment)) {
+      const {axisU: [ux, uy], axisV: [vx, vy], startAngle, sweepAngle} = segment;
+      // Angle in the counterclockwise direction, in the Y-up coordinates.
+      const ccwAngle = Math.sign(ux * vy - uy * vx) * sweepAngle;
+      const numPieces = Math.max(1, Math.ceil(Math.abs(sweepAngle) / Math.PI - 1e-9));
+      for (let i = 0; i < numPieces; i++)
+        vertices.push({
+          point: i ? arcPointAtAngle(segment, startAngle + sweepAngle * i / numPieces) : segment.from,
+          bulge: Math.tan(ccwAngle / numPieces / 4),
+        });
+    } else
+      for (const point of [segment.from, ...flattenSegment(segment, tolerance).slice(0, -1)])
+        vertices.push({point, bulge: 0});
+  const end = segments.at(-1)?.to || start;
+  const closing = closed && pointsDist(end, start) <= 1e-9;
+  if (!closing)
+    vertices.push({point: end, bulge: 0});
+  groups.push([0, "POLYLINE"], [8, layer], [66, 1], [10, 0], [20, 0], [30, 0],
+    [70, closed ? 1 : 0]);
+  for (const {point, bulge} of vertices) {
+    groups.push([0, "VERTEX"], [8, layer], [10, point[0]], [20, point[1]], [30, 0]);
+    if (bulge)
+      groups.push([42, bulge]);
+  }
+  groups.push([0, "SEQEND"], [8, layer]);
+  return groups;
+}
+
+function dxfGroupsToString(groups: readonly (readonly [number, string | number])[]) {
+  return groups.map(([code, value]) =>
+    `${String(code).padStart(3)}\n${typeof value === "number" ? dxfNum(value) : value}\n`).join("");
+}
+
+/**
+ * Returns a DXF (R12, ASCII) document with the geometry of the cut runs of the sheet, each run
+ * on a separate layer named after the run. Print runs are skipped.
+ * The coordinates are in millimeters, with the origin in the bottom left corner of the sheet
+ * and the Y axis pointing up. Circular arcs are preserved, other curves are approximated
+ * with lines.
+ */
+export async function getDXF(sheet: Sheet, {
+  runs = "all",
+  toleranceMm = 0.01,
+}: {
+  runs?: readonly string[] | "all",
+  toleranceMm?: number,
+} = {}) {
+  const {minX, minY, height} = sheet.viewBox;
+  const millimetersPerUnit = sheet.options.millimetersPerUnit ?? 1;
+  const toMm: Matrix = [
+    millimetersPerUnit, 0, 0, -millimetersPerUnit,
+    -minX * millimetersPerUnit, (minY + height) * millimetersPerUnit,
+  ];
+  const cutRuns = (runs === "all" ? sheet.getNonEmptyRunIds() : runs)
+    .filter(id => !sheet.hasPrintRuns([id]));
+  const entities: [number, string | number][] = [];
+  for (const id of cutRuns) {
+    const svg = await sheet.getLaserSVG({
+      runsSelector: {runs: [id], cornersMarker: false, reversingFrame: false},
+    });
+    svg.querySelector(`[id="${id}-handle"]`)?.remove();
+    for (const subpath of transformSubpaths(getElementOutlines(svg), toMm))
+      entities.push(...subpathDXFGroups(subpath, id, toleranceMm));
+  }
+  return dxfGroupsToString([
+    [0, "SECTION"], [2, "HEADER"],
+    [9, "$ACADVER"], [1, "AC1009"],
+    [9, "$INSUNITS"], [70, 4],
+    [0, "ENDSEC"],
+    [0, "SECTION"], [2, "TABLES"],
+    [0, "TABLE"], [2, "LTYPE"], [70, 1],
+    [0, "LTYPE"], [2, "CONTINUOUS"], [70, 0], [3, "Solid line"], [72, 65], [73, 0], [40, 0],
+    [0, "ENDTAB"],
+    [0, "TABLE"], [2, "LAYER"], [70, cutRuns.length],
+    ...cutRuns.flatMap((id, i): [number, string | number][] =>
+      [[0, "LAYER"], [2, id], [70, 0], [62, i % 255 + 1], [6, "CONTINUOUS"]]),
+    [0, "ENDTAB"],
+    [0, "ENDSEC"],
+    [0, "SECTION"], [2, "ENTITIES"],
+    ...entities,
+    [0, "ENDSEC"],
+    [0, "EOF"],
+  ]);
+}
+
+/**
+ * Returns sheet params which include a DXF artifact with the cut runs.
+ * @see {@link getDXF}
+ */
+export function dxfArtifact(params: Parameters<typeof getDXF>[1] = {}) {
+  return {
+    artifacts: (sheet) => sheet.getNonEmptyRunIds().some(id => !sheet.hasPrintRuns([id])) ? [{
+      name: `DXF`,
+      desc: `The cut runs in the DXF format, each run on a separate layer.`,
+      fileName: `${sheet.getFileName()}.dxf`,
+      data: () => getDXF(sheet, params),
+    }] : [],
+  } satisfies BasicSheetParams;
+}
@@ -0,0 +1,45 @@
+import {Turtle} from './turtle.ts';
+
+export interface EdgeDecorationArgs {
+  /** The length of the decorated edge. */
+  length: number;
+  /**
+   * The approximate length of a single repetition of the decoration. It is adjusted so that
+   * the edge contains a whole number of repetitions.
+   */
+  period: number;
+  /** To which side the decoration goes. Default: `"left"`. */
+  side?: "right" | "left";
+}
+
+function periods(length: number, period: number) {
+  const count = Math.max(Math.round(length / period), 1);
+  return {count, period: length / count};
+}
+
+/**
+ * Draws a zigzag line going forward by the specified length, with the teeth of the specified
+ * depth on one side of the line.
+ */
+export function turtleZigzag(t: Turtle, {length, period: approxPeriod, depth, side = "left"}:
+  EdgeDecorationArgs & {depth: number}) {
+  const {count, period} = periods(length, approxPeriod);
+  const angle = Math.atan2(depth, period / 2) * 180 / Math.PI * (side === "left" ? 1 : -1);
+  const edge = Math.hypot(depth, period / 2);
+  return t.repeat(count, t => t.left(angle).forward(edge).right(2 * angle).forward(edge)
+    .left(angle));
+}
+
+/**
+ * Draws a line of circular scallops going forward by the specified length, each bulging
+ * to one side of the line by the specified depth.
+ */
+export function turtleScallops(t: Turtle, {length, period: approxPeriod, depth, side = "left"}:
+  EdgeDecorationArgs & {depth: number}) {
+  const {count, period} = periods(length, approxPeriod);
+  const radius = (period * period / 4 + depth * depth) / (2 * depth);
+  const halfAngle = Math.atan2(period / 2, radius - depth) * 180 / Math.PI;
+  return t.repeat(count, t => side === "left" ?
+    t.left(halfAngle).arcRight(2 * halfAngle, radius).left(halfAngle) :
+    t.right(halfAngle).arcLeft(2 * halfAngle, radius).right(halfAngle));
+}
@@ -242,13 +242,15 @@ export function getElementsBoundingBox(elements: readonly SVGElement[]) {
   }
 }
 
-const utilSVG = createSVG({viewBox: viewBoxFromPartial()});
+let utilSVG: SVGSVGElement | undefined;
 
 /**
  * Executes the function on a reusable `<svg>` element appended to body.
  * The `<svg>` is then removed.
  */
 export function withUtilSVG<R>(func: (svg: SVGSVGElement) => R) {
+  // Created lazily, so that a headless DOM can be installed after this module is loaded.
+  utilSVG ||= createSVG({viewBox: viewBoxFromPartial()});
   try {
     document.body.append(utilSVG);
     return func(utilSVG);
@@ -0,0 +1,257 @@
+import {BinaryReader, TrueTypeGlyph, TrueTypePoint, readComponents, subView} from './font_tables.ts';
+
+/** The tables of a font, extracted from a font file. */
+export interface FontTables {
+  readonly tables: ReadonlyMap<string, DataView>;
+  /**
+   * The glyphs decoded from a transformed glyf table of a WOFF2 file. If present, the glyf and
+   * loca tables are not available.
+   */
+  readonly glyphs?: readonly TrueTypeGlyph[];
+}
+
+const SIGNATURES = {
+  trueType: 0x00010000,
+  appleTrueType: 0x74727565, // true
+  openType: 0x4f54544f, // OTTO
+  collection: 0x74746366, // ttcf
+  woff: 0x774f4646, // wOFF
+  woff2: 0x774f4632, // wOF2
+} as const;
+
+/**
+ * Extracts the tables from the data of a font file, in one of the formats: TTF, OTF, WOFF
+ * or WOFF2. Font collections are not supported.
+ */
+export async function readFontTables(data: Uint8Array): Promise<FontTables> {
+  const r = BinaryReader.of(data);
+  const signature = r.u32();
+  switch (signature) {
+    case SIGNATURES.trueType:
+    case SIGNATURES.appleTrueType:
+    case SIGNATURES.openType:
+      return {tables: readSFNTTables(r)};
+    case SIGNATURES.woff:
+      return {tables: await readWOFFTables(r)};
+    case SIGNATURES.woff2:
+      return await readWOFF2Tables(r);
+    case SIGNATURES.collection:
+      throw new Error(`Font collections are not supported`);
+    default:
+      throw new Error(`Unrecognised font format (signature 0x${signature.toString(16)})`);
+  }
+}
+
+function readSFNTTables(r: BinaryReader) {
+  const numTables = r.u16();
+  r.skip(6);
+  const tables = new Map<string, DataView>();
+  for (let i = 0; i < numTables; i++) {
+    const tag = r.tag();
+    r.skip(4);
+    const offset = r.u32();
+    tables.set(tag, subView(r.view, offset, r.u32()));
+  }
+  return tables;
+}
+
+/**
+ * Returns the decompression stream for the format. Brotli is not a standard format
+ * of DecompressionStream, and is only supported by some of the environments.
+ */
+function decompressionStream(format: CompressionFormat | "brotli") {
+  if (format !== "brotli")
+    return new DecompressionStream(format);
+  try {
+    return new DecompressionStream(format as CompressionFormat);
+  } catch (e) {
+    throw new Error(`WOFF2 needs Brotli DecompressionStream support, ` +
+      `which is not available in this environment\n${e}`, {cause: e});
+  }
+}
+
+async function decompress(data: DataView, format: CompressionFormat | "brotli") {
+  const decompressor = decompressionStream(format);
+  const bytes = new Uint8Array(data.byteLength);
+  bytes.set(new Uint8Array(data.buffer, data.byteOffset, data.byteLength));
+  const stream = new Blob([bytes]).stream().pipeThrough(decompressor);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/** @see https://www.w3.org/TR/WOFF/ */
+async function readWOFFTables(r: BinaryReader) {
+  r.skip(8);
+  const numTables = r.u16();
+  r.pos = 44;
+  const entries = Array.from({length: numTables}, () => {
+    const tag = r.tag();
+    const [offset, compLength, origLength] = [r.u32(), r.u32(), r.u32()];
+    r.skip(4);
+    return {tag, offset, compLength, origLength};
+  });
+  const tables = new Map<string, DataView>();
+  await Promise.all(entries.map(async ({tag, offset, compLength, origLength}) => {
+    const view = subView(r.view, offset, compLength);
+    tables.set(tag, compLength < origLength ?
+      BinaryReader.of(await decompress(view, "deflate")).view : view);
+  }));
+  return tables;
+}
+
+const WOFF2_KNOWN_TAGS = [
+  "cmap", "head", "hhea", "hmtx", "maxp", "name", "OS/2", "post", "cvt ", "fpgm", "glyf", "loca",
+  "prep", "CFF ", "VORG", "EBDT", "EBLC", "gasp", "hdmx", "kern", "LTSH", "PCLT", "VDMX", "vhea",
+  "vmtx", "BASE", "GDEF", "GPOS", "GSUB", "EBSC", "JSTF", "MATH", "CBDT", "CBLC", "COLR", "CPAL",
+  "SVG ", "sbix", "acnt", "avar", "bdat", "bloc", "bsln", "cvar", "fdsc", "feat", "fmtx", "fvar",
+  "gvar", "hsty", "just", "lcar", "mort", "morx", "opbd", "prop", "trak", "Zapf", "Silf", "Glat",
+  "Gloc", "Feat", "Sill",
+];
+
+function readUIntBase128(r: BinaryReader) {
+  let value = 0;
+  for (let i = 0; i < 5; i++) {
+    const byte = r.u8();
+    value = value * 128 + (byte & 0x7f);
+    if (!(byte & 0x80))
+      return value;
+  }
+  throw new Error(`Invalid UIntBase128 value in the WOFF2 data`);
+}
+
+function read255UInt16(r: BinaryReader) {
+  const code = r.u8();
+  switch (code) {
+    case 253:
+      return r.u16();
+    case 255:
+      return r.u8() + 253;
+    case 254:
+      return r.u8() + 2 * 253;
+    default:
+      return code;
+  }
+}
+
+/** @see https://www.w3.org/TR/WOFF2/ */
+async function readWOFF2Tables(r: BinaryReader): Promise<FontTables> {
+  if (r.u32() === SIGNATURES.collection)
+    throw new Error(`Font collections are not supported`);
+  r.skip(4);
+  const numTables = r.u16();
+  r.skip(6);
+  const totalCompressedSize = r.u32();
+  r.pos = 48;
+  const entries = Array.from({length: numTables}, () => {
+    const flags = r.u8();
+    const tag = (flags & 0x3f) === 0x3f ? r.tag() : WOFF2_KNOWN_TAGS[flags & 0x3f];
+    const version = flags >> 6;
+    const origLength = readUIntBase128(r);
+    const transformed = tag === "glyf" || tag === "loca" ? version === 0 : version !== 0;
+    return {tag, transformed, length: transformed ? readUIntBase128(r) : origLength};
+  });
+  const data = BinaryReader.of(await decompress(r.take(totalCompressedSize), "brotli"));
+  const tables = new Map<string, DataView>();
+  let glyphs;
+  let transformedHmtx;
+  for (const {tag, transformed, length} of entries) {
+    const view = data.take(length);
+    if (!transformed)
+      tables.set(tag, view);
+    else if (tag === "glyf")
+      glyphs = decodeTransformedGlyf(view);
+    else if (tag === "hmtx")
+      transformedHmtx = view;
+    else if (tag !== "loca")
+      throw new Error(`Unsupported transformation of the ${tag} table in the WOFF2 data`);
+  }
+  if (transformedHmtx) {
+    const hhea = tables.get("hhea");
+    if (!hhea)
+      throw new Error(`Missing hhea table`);
+    tables.set("hmtx", decodeTransformedHmtx(transformedHmtx, hhea.getUint16(34)));
+  }
+  return {tables, glyphs};
+}
+
+/**
+ * Decodes the triplet-encoded coordinates delta of a point, from the flag and the data
+ * in the glyph stream.
+ */
+function readTriplet(flag: number, r: BinaryReader): [dx: number, dy: number] {
+  const withSign = (flag: number, value: number) => flag & 1 ? value : -value;
+  if (flag < 10)
+    return [0, withSign(flag, ((flag & 14) << 7) + r.u8())];
+  if (flag < 20)
+    return [withSign(flag, (((flag - 10) & 14) << 7) + r.u8()), 0];
+  if (flag < 84) {
+    const b0 = flag - 20;
+    const b1 = r.u8();
+    return [
+      withSign(flag, 1 + (b0 & 0x30) + (b1 >> 4)),
+      withSign(flag >> 1, 1 + ((b0 & 0x0c) << 2) + (b1 & 0x0f)),
+    ];
+  }
+  if (flag < 120) {
+    const b0 = flag - 84;
+    return [
+      withSign(flag, 1 + (Math.floor(b0 / 12) << 8) + r.u8()),
+      withSign(flag >> 1, 1 + (((b0 % 12) >> 2) << 8) + r.u8()),
+    ];
+  }
+  if (flag < 124) {
+    const [b1, b2, b3] = [r.u8(), r.u8(), r.u8()];
+    return [withSign(flag, (b1 << 4) + (b2 >> 4)), withSign(flag >> 1, ((b2 & 0x0f) << 8) + b3)];
+  }
+  return [withSign(flag, r.u16()), withSign(flag >> 1, r.u16())];
+}
+
+/** Decodes the glyphs from the transformed glyf table. The instructions are skipped. */
+function decodeTransformedGlyf(view: DataView): TrueTypeGlyph[] {
+  const r = new BinaryReader(view, 4);
+  const numGlyphs = r.u16();
+  r.skip(2);
+  const streamSizes = Array.from({length: 7}, () => r.u32());
+  let streamStart = r.pos;
+  const [nContourStream, nPointsStream, flagStream, glyphStream, compositeStream] =
+    streamSizes.map(size => {
+      const stream = r.at(streamStart);
+      streamStart += size;
+      return stream;
+    });
+  const glyphs: TrueTypeGlyph[] = [];
+  for (let i = 0; i < numGlyphs; i++) {
+    const numContours = nContourStream.i16();
+    if (numContours < 0) {
+      const {components, hasInstructions} = readComponents(compositeStream);
+      if (hasInstructions)
+        read255UInt16(glyphStream);
+      glyphs.push({components});
+      continue;
+    }
+    const contourSizes = Array.from({length: numContours}, () => read255UInt16(nPointsStream));
+    let [x, y] = [0, 0];
+    const contours = contourSizes.map(size => Array.from({length: size}, (): TrueTypePoint => {
+      const flag = flagStream.u8();
+      const [dx, dy] = readTriplet(flag & 0x7f, glyphStream);
+      x += dx;
+      y += dy;
+      return {x, y, onCurve: !(flag & 0x80)};
+    }));
+    if (numContours)
+      read255UInt16(glyphStream);
+    glyphs.push({contours});
+  }
+  return glyphs;
+}
+
+/**
+ * Decodes the advance widths from the transformed hmtx table, into an untransformed table
+ * with zero left side bearings (which are not used).
+ */
+function decodeTransformedHmtx(view: DataView, numberOfHMetrics: number) {
+  const r = new BinaryReader(view, 1);
+  const hmtx = new DataView(new ArrayBuffer(4 * numberOfHMetrics));
+  for (let i = 0; i < numberOfHMetrics; i++)
+    hmtx.setUint16(4 * i, r.u16());
+  return hmtx;
+}
@@ -0,0 +1,191 @@
+import {readFontTables} from './font_files.ts';
+import {Kerning, cffGlyphSubpaths, glyfTableGlyphs, parseAdvanceWidths, parseCmap, parseGPOSKerning, parseKernTable, trueTypeGlyphSubpaths} from './font_tables.ts';
+import {Path} from './path.ts';
+import {Subpath, subpathsToPathD, transformSubpaths} from './path_segments.ts';
+
+export type TextOutlinesAlign = "start" | "center" | "end";
+
+export interface TextOutlinesOptions {
+  /** The font size, i.e. the size of the em square. Default: 1. */
+  readonly size?: number;
+  /** The additional space between the characters, in the same units as the size. Default: 0. */
+  readonly letterSpacing?: number;
+  /**
+   * The distance between the baselines of the lines, as a multiple of the size.
+   * Default: as specified by the font.
+   */
+  readonly lineHeight?: number;
+  /** The horizontal alignment of the lines relative to the origin. Default: `"start"`. */
+  readonly align?: TextOutlinesAlign;
+  /** Whether to apply the kerning specified by the font. Default: true. */
+  readonly kerning?: boolean;
+}
+
+interface PositionedGlyph {
+  readonly glyphIndex: number;
+  /** The position of the glyph along the baseline, in font units. */
+  readonly x: number;
+}
+
+const outlinesCache = new Map<string, Promise<FontOutlines>>();
+
+/**
+ * The outlines of the glyphs of a font, parsed from a font file (TTF, OTF, WOFF or WOFF2),
+ * allowing conversion of text to a Path. Unlike a `<text>` element, such a Path is rendered
+ * the same way by all programs, so it can be reliably cut or scored by a laser cutter.
+ */
+export class FontOutlines {
+
+  private readonly glyphsCache = new Map<number, readonly Subpath[]>();
+
+  protected constructor(
+    /** The size of the em square in font units. */
+    readonly unitsPerEm: number,
+    /** The ascender, as a fraction of the em square. */
+    readonly ascender: number,
+    /** The descender (typically negative), as a fraction of the em square. */
+    readonly descender: number,
+    /** The default distance between the baselines, as a fraction of the em square. */
+    readonly lineHeight: number,
+    private readonly glyphIndex: (codePoint: number) => number,
+    private readonly advanceWidth: (glyphIndex: number) => number,
+    private readonly kerning: Kerning,
+    private readonly glyphSubpaths: (glyphIndex: number) => Subpath[],
+  ) {}
+
+  static async fromData(data: Uint8Array) {
+    const {tables, glyphs} = await readFontTables(data);
+    function table(tag: string) {
+      const table = tables.get(tag);
+      if (!table)
+        throw new Error(`Missing ${tag} table in the font`);
+      return table;
+    }
+    const head = table("head");
+    const hhea = table("hhea");
+    const numGlyphs = table("maxp").getUint16(4);
+    const unitsPerEm = head.getUint16(18);
+    const [ascender, descender, lineGap] = [4, 6, 8].map(offset => hhea.getInt16(offset));
+    const cff = tables.get("CFF ");
+    const gpos = tables.get("GPOS");
+    const kern = tables.get("kern");
+    return new FontOutlines(
+      unitsPerEm,
+      ascender / unitsPerEm,
+      descender / unitsPerEm,
+      (ascender - descender + lineGap) / unitsPerEm,
+      parseCmap(table("cmap")),
+      parseAdvanceWidths(table("hmtx"), hhea.getUint16(34)),
+      (gpos && parseGPOSKerning(gpos)) || (kern ? parseKernTable(kern) : () => 0),
+      cff ? cffGlyphSubpaths(cff) :
+        trueTypeGlyphSubpaths(glyphs ? glyphIndex => glyphs[glyphIndex] : glyfTableGlyphs({
+          glyf: table("glyf"),
+          loca: table("loca"),
+          indexToLocFormat: head.getInt16(50),
+          numGlyphs,
+        })),
+    );
+  }
+
+  static async fromBlob(blob: Blob) {
+    return await FontOutlines.fromData(new Uint8Array(await blob.arrayBuffer()));
+  }
+
+  /** Loads the outlines from the font file at the URL, which can also be a data URI. */
+  static async fromURL(url: string) {
+    let outlines = outlinesCache.get(url);
+    if (!outlines) {
+      outlines = (async () => {
+        let blob;
+        try {
+          blob = await (await fetch(url)).blob();
+        } catch (e) {
+          throw new Error(`Failed to fetch: ${url}\n${e}`, {cause: e});
+        }
+        return await FontOutlines.fromBlob(blob);
+      })();
+      outlinesCache.set(url, outlines);
+    }
+    return await outlines;
+  }
+
+  /** Returns the outline of the glyph, in font units, with the Y axis pointing up. */
+  private getGlyphSubpaths(glyphIndex: number) {
+    let subpaths = this.glyphsCache.get(glyphIndex);
+    if (!subpaths) {
+      subpaths = this.glyphSubpaths(glyphIndex);
+      this.glyphsCache.set(glyphIndex, subpaths);
+    }
+    return subpaths;
+  }
+
+  /** Returns whether the font has a glyph for the character. */
+  hasGlyph(char: string) {
+    const codePoint = char.codePointAt(0);
+    return codePoint !== undefined && this.glyphIndex(codePoint) !== 0;
+  }
+
+  private layoutLine(line: string, {letterSpacing, kerning}: {
+    letterSpacing: number,
+    kerning: boolean,
+  }) {
+    const glyphs: PositionedGlyph[] = [];
+    let x = 0;
+    let prevGlyphIndex: number | undefined;
+    for (const char of line) {
+      const glyphIndex = this.glyphIndex(char.codePointAt(0) || 0);
+      if (prevGlyphIndex !== undefined)
+        x += letterSpacing + (kerning ? this.kerning(prevGlyphIndex, glyphIndex) : 0);
+      glyphs.push({glyphIndex, x});
+      x += this.advanceWidth(glyphIndex);
+      prevGlyphIndex = glyphIndex;
+    }
+    return {glyphs, width: x};
+  }
+
+  private layout(text: string, {
+    size = 1,
+    letterSpacing = 0,
+    lineHeight = this.lineHeight,
+    align = "start",
+    kerning = true,
+  }: TextOutlinesOptions) {
+    const scale = size / this.unitsPerEm;
+    return text.split(/\r?\n/).map((line, lineIndex) => {
+      const {glyphs, width} =
+        this.layoutLine(line, {letterSpacing: letterSpacing / scale, kerning});
+      const alignShift = align === "start" ? 0 : align === "center" ? -width / 2 :
+        align === "end" ? -width : align satisfies never;
+      return {
+        glyphs,
+        width: width * scale,
+        scale,
+        x: alignShift * scale,
+        y: lineIndex * lineHeight * size,
+      };
+    });
+  }
+
+  /** Returns the width of the longest line of the text. */
+  getTextWidth(text: string, options: TextOutlinesOptions = {}) {
+    return Math.max(...this.layout(text, options).map(({width}) => width));
+  }
+
+  /**
+   * Returns a Path with the outlines of the text. The first line of the text is placed on
+   * the X axis, which is the baseline, and the subsequent lines (separated by newlines)
+   * are placed below it.
+   *
+   * Example:
+   *
+   *     const outlines = await font.getOutlines();
+   *     outlines.getTextPath("Hello", {size: 10, align: "center"})
+   */
+  getTextPath(text: string, options: TextOutlinesOptions = {}) {
+    const subpaths = this.layout(text, options).flatMap(({glyphs, scale, x, y}) =>
+      glyphs.flatMap(glyph => transformSubpaths(this.getGlyphSubpaths(glyph.glyphIndex),
+        [scale, 0, 0, -scale, x + glyph.x * scale, y])));
+    return Path.fromD(subpathsToPathD(subpaths));
+  }
+
+}
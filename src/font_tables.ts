@@ -0,0 +1,862 @@
+import {Matrix} from './matrix.ts';
+import {Segment, Subpath, transformSubpaths} from './path_segments.ts';
+import {Point} from './point.ts';
+
+/** A reader of big-endian binary data, as found in font files. */
+export class BinaryReader {
+
+  constructor(readonly view: DataView, public pos = 0) {}
+
+  static of(data: Uint8Array, pos = 0) {
+    return new BinaryReader(new DataView(data.buffer, data.byteOffset, data.byteLength), pos);
+  }
+
+  at(pos: number) {
+    return new BinaryReader(this.view, pos);
+  }
+
+  skip(bytes: number) {
+    this.pos += bytes;
+    return this;
+  }
+
+  u8() {
+    return this.view.getUint8(this.pos++);
+  }
+
+  i8() {
+    return this.view.getInt8(this.pos++);
+  }
+
+  u16() {
+    const value = this.view.getUint16(this.pos);
+    this.pos += 2;
+    return value;
+  }
+
+  i16() {
+    const value = this.view.getInt16(this.pos);
+    this.pos += 2;
+    return value;
+  }
+
+  u32() {
+    const value = this.view.getUint32(this.pos);
+    this.pos += 4;
+    return value;
+  }
+
+  i32() {
+    const value = this.view.getInt32(this.pos);
+    this.pos += 4;
+    return value;
+  }
+
+  f2dot14() {
+    return this.i16() / (1 << 14);
+  }
+
+  tag() {
+    return String.fromCharCode(this.u8(), this.u8(), this.u8(), this.u8());
+  }
+
+  /** Returns a view of the specified number of bytes at the current position, and skips them. */
+  take(length: number) {
+    const view = subView(this.view, this.pos, length);
+    this.pos += length;
+    return view;
+  }
+
+}
+
+export function subView(view: DataView, offset: number, length = view.byteLength - offset) {
+  if (offset < 0 || length < 0 || offset + length > view.byteLength)
+    throw new Error(`Font data out of bounds (offset ${offset}, length ${length})`);
+  return new DataView(view.buffer, view.byteOffset + offset, length);
+}
+
+export interface TrueTypePoint {
+  readonly x: number;
+  readonly y: number;
+  readonly onCurve: boolean;
+}
+
+export interface TrueTypeComponent {
+  readonly glyphIndex: number;
+  readonly matrix: Matrix;
+}
+
+/** A glyph of a TrueType font: either simple, with contours, or composite. */
+export type TrueTypeGlyph =
+  | {readonly contours: readonly (readonly TrueTypePoint[])[]}
+  | {readonly components: readonly TrueTypeComponent[]};
+
+const EMPTY_GLYPH: TrueTypeGlyph = {contours: []};
+
+const COMPONENT_FLAGS = {
+  ARG_1_AND_2_ARE_WORDS: 0x1,
+  ARGS_ARE_XY_VALUES: 0x2,
+  WE_HAVE_A_SCALE: 0x8,
+  MORE_COMPONENTS: 0x20,
+  WE_HAVE_AN_X_AND_Y_SCALE: 0x40,
+  WE_HAVE_A_TWO_BY_TWO: 0x80,
+  WE_HAVE_INSTRUCTIONS: 0x100,
+} as const;
+
+/**
+ * Reads the components of a composite glyph. Components positioned by matching points
+ * (and not by offsets) are placed without an offset.
+ */
+export function readComponents(r: BinaryReader) {
+  const F = COMPONENT_FLAGS;
+  const components: TrueTypeComponent[] = [];
+  let hasInstructions = false;
+  let flags;
+  do {
+    flags = r.u16();
+    const glyphIndex = r.u16();
+    const signed = !!(flags & F.ARGS_ARE_XY_VALUES);
+    const [dx, dy] = flags & F.ARG_1_AND_2_ARE_WORDS ?
+      signed ? [r.i16(), r.i16()] : [r.u16(), r.u16()] :
+      signed ? [r.i8(), r.i8()] : [r.u8(), r.u8()];
+    let [a, b, c, d] = [1, 0, 0, 1];
+    if (flags & F.WE_HAVE_A_SCALE)
+      a = d = r.f2dot14();
+    else if (flags & F.WE_HAVE_AN_X_AND_Y_SCALE)
+      [a, d] = [r.f2dot14(), r.f2dot14()];
+    else if (flags & F.WE_HAVE_A_TWO_BY_TWO)
+      [a, b, c, d] = [r.f2dot14(), r.f2dot14(), r.f2dot14(), r.f2dot14()];
+    components.push({glyphIndex, matrix: signed ? [a, b, c, d, dx, dy] : [a, b, c, d, 0, 0]});
+    hasInstructions ||= !!(flags & F.WE_HAVE_INSTRUCTIONS);
+  } while (flags & F.MORE_COMPONENTS);
+  return {components, hasInstructions};
+}
+
+function readSimpleGlyph(r: BinaryReader, numContours: number): TrueTypeGlyph {
+  const endPoints = Array.from({length: numContours}, () => r.u16());
+  r.skip(r.u16());
+  const numPoints = numContours ? endPoints[numContours - 1] + 1 : 0;
+  const flags: number[] = [];
+  while (flags.length < numPoints) {
+    const flag = r.u8();
+    flags.push(flag);
+    if (flag & 0x8)
+      for (let repeat = r.u8(); repeat > 0; repeat--)
+        flags.push(flag);
+  }
+  function readCoords(shortBit: number, sameOrPositiveBit: number) {
+    let value = 0;
+    return flags.slice(0, numPoints).map(flag => {
+      if (flag & shortBit)
+        value += flag & sameOrPositiveBit ? r.u8() : -r.u8();
+      else if (!(flag & sameOrPositiveBit))
+        value += r.i16();
+      return value;
+    });
+  }
+  const xs = readCoords(0x2, 0x10);
+  const ys = readCoords(0x4, 0x20);
+  const points = xs.map((x, i) => ({x, y: ys[i], onCurve: !!(flags[i] & 0x1)}));
+  return {contours: endPoints.map((end, i) => points.slice(i ? endPoints[i - 1] + 1 : 0, end + 1))};
+}
+
+/**
+ * Returns the function reading the glyphs from the glyf and loca tables.
+ * @see https://learn.microsoft.com/en-us/typography/opentype/spec/glyf
+ */
+export function glyfTableGlyphs({glyf, loca, indexToLocFormat, numGlyphs}: {
+  glyf: DataView,
+  loca: DataView,
+  indexToLocFormat: number,
+  numGlyphs: number,
+}) {
+  const offset = (index: number) =>
+    indexToLocFormat ? loca.getUint32(4 * index) : 2 * loca.getUint16(2 * index);
+  return (glyphIndex: number): TrueTypeGlyph | undefined => {
+    if (glyphIndex < 0 || glyphIndex >= numGlyphs)
+      return undefined;
+    const start = offset(glyphIndex);
+    if (offset(glyphIndex + 1) <= start)
+      return EMPTY_GLYPH;
+    const r = new BinaryReader(glyf, start);
+    const numContours = r.i16();
+    r.skip(8);
+    return numContours >= 0 ? readSimpleGlyph(r, numContours) : readComponents(r);
+  };
+}
+
+function midPoint(a: Point, b: Point): Point {
+  return [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2];
+}
+
+/** Converts a TrueType contour, consisting of on-curve and off-curve points, to a subpath. */
+function contourSubpath(points: readonly TrueTypePoint[]): Subpath | undefined {
+  if (points.length < 2)
+    return undefined;
+  const xy = ({x, y}: TrueTypePoint): Point => [x, y];
+  const firstOn = points.findIndex(({onCurve}) => onCurve);
+  let start: Point;
+  let sequence: TrueTypePoint[];
+  if (firstOn >= 0) {
+    start = xy(points[firstOn]);
+    sequence = [...points.slice(firstOn + 1), ...points.slice(0, firstOn + 1)];
+  } else {
+    // All the points are off-curve, start at an implied on-curve point.
+    start = midPoint(xy(points[points.length - 1]), xy(points[0]));
+    sequence = [...points, {x: start[0], y: start[1], onCurve: true}];
+  }
+  const segments: Segment[] = [];
+  let current = start;
+  let control: Point | undefined;
+  for (const point of sequence) {
+    const to = xy(point);
+    if (point.onCurve) {
+      segments.push(control ?
+        {type: "quadratic", from: current, control, to} :
+        {type: "line", from: current, to});
+      current = to;
+      control = undefined;
+    } else {
+      if (control) {
+        const implied = midPoint(control, to);
+        segments.push({type: "quadratic", from: current, control, to: implied});
+        current = implied;
+      }
+      control = to;
+    }
+  }
+  return {start, segments, closed: true};
+}
+
+const MAX_COMPONENTS_DEPTH = 16;
+
+/** Returns the function computing the outlines of the TrueType glyphs, in font units. */
+export function trueTypeGlyphSubpaths(getGlyph: (glyphIndex: number) => TrueTypeGlyph | undefined) {
+  function subpaths(glyphIndex: number, depth: number): Subpath[] {
+    const glyph = getGlyph(glyphIndex);
+    if (!glyph)
+      return [];
+    if ("contours" in glyph)
+      return glyph.contours.flatMap(contour => contourSubpath(contour) || []);
+    if (depth >= MAX_COMPONENTS_DEPTH)
+      throw new Error(`Composite glyph ${glyphIndex} nested too deeply`);
+    return glyph.components.flatMap(({glyphIndex, matrix}) =>
+      transformSubpaths(subpaths(glyphIndex, depth + 1), matrix));
+  }
+  return (glyphIndex: number) => subpaths(glyphIndex, 0);
+}
+
+function readCFFIndex(r: BinaryReader): DataView[] {
+  const count = r.u16();
+  if (!count)
+    return [];
+  const offSize = r.u8();
+  const offsets = Array.from({length: count + 1}, () => {
+    let offset = 0;
+    for (let i = 0; i < offSize; i++)
+      offset = offset * 256 + r.u8();
+    return offset;
+  });
+  const base = r.pos - 1;
+  r.pos = base + offsets[count];
+  return offsets.slice(0, -1).map((offset, i) => subView(r.view, base + offset, offsets[i + 1] - offset));
+}
+
+const REAL_NIBBLES = "0123456789.EE?-";
+
+function readCFFReal(r: BinaryReader) {
+  let text = "";
+  for (; ;) {
+    const byte = r.u8();
+    for (const nibble of [byte >> 4, byte & 0xf]) {
+      if (nibble === 0xf)
+        return Number(text);
+      text += nibble === 0xc ? "E-" : REAL_NIBBLES[nibble];
+    }
+  }
+}
+
+/** Reads a CFF DICT. Two-byte operators `12 x` are stored under the key `1200 + x`. */
+function readCFFDict(view: DataView) {
+  const r = new BinaryReader(view);
+  const dict = new Map<number, number[]>();
+  let operands: number[] = [];
+  while (r.pos < view.byteLength) {
+    const b0 = r.u8();
+    if (b0 <= 21) {
+      dict.set(b0 === 12 ? 1200 + r.u8() : b0, operands);
+      operands = [];
+    } else if (b0 === 28)
+      operands.push(r.i16());
+    else if (b0 === 29)
+      operands.push(r.i32());
+    else if (b0 === 30)
+      operands.push(readCFFReal(r));
+    else if (b0 >= 32 && b0 <= 246)
+      operands.push(b0 - 139);
+    else if (b0 >= 247 && b0 <= 250)
+      operands.push((b0 - 247) * 256 + r.u8() + 108);
+    else if (b0 >= 251 && b0 <= 254)
+      operands.push(-(b0 - 251) * 256 - r.u8() - 108);
+  }
+  return dict;
+}
+
+function subrsBias(subrs: readonly DataView[]) {
+  return subrs.length < 1240 ? 107 : subrs.length < 33900 ? 1131 : 32768;
+}
+
+const MAX_SUBRS_DEPTH = 10;
+
+/**
+ * Executes a Type 2 charstring and returns the drawn outline.
+ * @see https://adobe-type-tools.github.io/font-tech-notes/pdfs/5177.Type2.pdf
+ */
+function runCharString(charString: DataView, globalSubrs: readonly DataView[],
+  localSubrs: readonly DataView[]) {
+  const subpaths: Subpath[] = [];
+  let stack: number[] = [];
+  let numStems = 0;
+  let widthParsed = false;
+  let done = false;
+  let [x, y] = [0, 0];
+  let start: Point | undefined;
+  let segments: Segment[] = [];
+
+  function parseWidth(hasWidth: boolean) {
+    if (!widthParsed && hasWidth)
+      stack.shift();
+    widthParsed = true;
+  }
+  function closeContour() {
+    if (start && segments.length)
+      subpaths.push({start, segments, closed: true});
+    start = undefined;
+    segments = [];
+  }
+  function moveTo(dx: number, dy: number) {
+    closeContour();
+    x += dx;
+    y += dy;
+    start = [x, y];
+  }
+  function lineTo(dx: number, dy: number) {
+    const from: Point = [x, y];
+    x += dx;
+    y += dy;
+    segments.push({type: "line", from, to: [x, y]});
+  }
+  function curveTo(dx1: number, dy1: number, dx2: number, dy2: number, dx3: number, dy3: number) {
+    const from: Point = [x, y];
+    const control1: Point = [x + dx1, y + dy1];
+    const control2: Point = [control1[0] + dx2, control1[1] + dy2];
+    [x, y] = [control2[0] + dx3, control2[1] + dy3];
+    segments.push({type: "cubic", from, control1, control2, to: [x, y]});
+  }
+  function stems() {
+    parseWidth(stack.length % 2 === 1);
+    numStems += stack.length >> 1;
+    stack = [];
+  }
+  /** Draws alternating horizontal and vertical curves, as in hvcurveto and vhcurveto. */
+  function alternatingCurves(horizontal: boolean) {
+    const s = stack;
+    for (let i = 0; i + 4 <= s.length; i += 4) {
+      const last = s.length - i === 5 ? s[i + 4] : 0;
+      if (horizontal)
+        curveTo(s[i], 0, s[i + 1], s[i + 2], last, s[i + 3]);
+      else
+        curveTo(0, s[i], s[i + 1], s[i + 2], s[i + 3], last);
+      horizontal = !horizontal;
+    }
+  }
+
+  function execute(code: DataView, depth: number) {
+    if (depth > MAX_SUBRS_DEPTH)
+      throw new Error(`Charstring subroutines nested too deeply`);
+    const r = new BinaryReader(code);
+    while (r.pos < code.byteLength && !done) {
+      const b0 = r.u8();
+      if (b0 >= 32 && b0 <= 246)
+        stack.push(b0 - 139);
+      else if (b0 >= 247 && b0 <= 250)
+        stack.push((b0 - 247) * 256 + r.u8() + 108);
+      else if (b0 >= 251 && b0 <= 254)
+        stack.push(-(b0 - 251) * 256 - r.u8() - 108);
+      else if (b0 === 28)
+        stack.push(r.i16());
+      else if (b0 === 255)
+        stack.push(r.i32() / 65536);
+      else {
+        const s = stack;
+        switch (b0) {
+          case 1: // hstem
+          case 3: // vstem
+          case 18: // hstemhm
+          case 23: // vstemhm
+            stems();
+            break;
+          case 19: // hintmask
+          case 20: // cntrmask
+            stems();
+            r.skip((numStems + 7) >> 3);
+            break;
+          case 21: // rmoveto
+            parseWidth(s.length > 2);
+            moveTo(stack[0], stack[1]);
+            stack = [];
+            break;
+          case 22: // hmoveto
+            parseWidth(s.length > 1);
+            moveTo(stack[0], 0);
+            stack = [];
+            break;
+          case 4: // vmoveto
+            parseWidth(s.length > 1);
+            moveTo(0, stack[0]);
+            stack = [];
+            break;
+          case 5: // rlineto
+            for (let i = 0; i + 2 <= s.length; i += 2)
+              lineTo(s[i], s[i + 1]);
+            stack = [];
+            break;
+          case 6: // hlineto
+          case 7: // vlineto
+            for (let i = 0; i < s.length; i++)
+              if ((i % 2 === 0) === (b0 === 6))
+                lineTo(s[i], 0);
+              else
+                lineTo(0, s[i]);
+            stack = [];
+            break;
+          case 8: // rrcurveto
+            for (let i = 0; i + 6 <= s.length; i += 6)
+              curveTo(s[i], s[i + 1], s[i + 2], s[i + 3], s[i + 4], s[i + 5]);
+            stack = [];
+            break;
+          case 24: { // rcurveline
+            let i = 0;
+            for (; i + 6 <= s.length - 2; i += 6)
+              curveTo(s[i], s[i + 1], s[i + 2], s[i + 3], s[i + 4], s[i + 5]);
+            lineTo(s[i], s[i + 1]);
+            stack = [];
+            break;
+          }
+          case 25: { // rlinecurve
+            let i = 0;
+            for (; i + 2 <= s.length - 6; i += 2)
+              lineTo(s[i], s[i + 1]);
+            curveTo(s[i], s[i + 1], s[i + 2], s[i + 3], s[i + 4], s[i + 5]);
+            stack = [];
+            break;
+          }
+          case 26: { // vvcurveto
+            let i = s.length % 2;
+            let dx1 = i ? s[0] : 0;
+            for (; i + 4 <= s.length; i += 4) {
+              curveTo(dx1, s[i], s[i + 1], s[i + 2], 0, s[i + 3]);
+              dx1 = 0;
+            }
+            stack = [];
+            break;
+          }
+          case 27: { // hhcurveto
+            let i = s.length % 2;
+            let dy1 = i ? s[0] : 0;
+            for (; i + 4 <= s.length; i += 4) {
+              curveTo(s[i], dy1, s[i + 1], s[i + 2], s[i + 3], 0);
+              dy1 = 0;
+            }
+            stack = [];
+            break;
+          }
+          case 30: // vhcurveto
+          case 31: // hvcurveto
+            alternatingCurves(b0 === 31);
+            stack = [];
+            break;
+          case 10: { // callsubr
+            const subr = localSubrs[(stack.pop() ?? NaN) + subrsBias(localSubrs)];
+            if (!subr)
+              throw new Error(`Missing local charstring subroutine`);
+            execute(subr, depth + 1);
+            break;
+          }
+          case 29: { // callgsubr
+            const subr = globalSubrs[(stack.pop() ?? NaN) + subrsBias(globalSubrs)];
+            if (!subr)
+              throw new Error(`Missing global charstring subroutine`);
+            execute(subr, depth + 1);
+            break;
+          }
+          case 11: // return
+            return;
+          case 14: // endchar
+            parseWidth(s.length % 2 === 1);
+            closeContour();
+            done = true;
+            break;
+          case 12: {
+            const b1 = r.u8();
+            if (b1 === 35) { // flex
+              curveTo(s[0], s[1], s[2], s[3], s[4], s[5]);
+              curveTo(s[6], s[7], s[8], s[9], s[10], s[11]);
+            } else if (b1 === 34) { // hflex
+              curveTo(s[0], 0, s[1], s[2], s[3], 0);
+              curveTo(s[4], 0, s[5], -s[2], s[6], 0);
+            } else if (b1 === 36) { // hflex1
+              curveTo(s[0], s[1], s[2], s[3], s[4], 0);
+              curveTo(s[5], 0, s[6], s[7], s[8], -(s[1] + s[3] + s[7]));
+            } else if (b1 === 37) { // flex1
+              const dx = s[0] + s[2] + s[4] + s[6] + s[8];
+              const dy = s[1] + s[3] + s[5] + s[7] + s[9];
+              curveTo(s[0], s[1], s[2], s[3], s[4], s[5]);
+              if (Math.abs(dx) > Math.abs(dy))
+                curveTo(s[6], s[7], s[8], s[9], s[10], -dy);
+              else
+                curveTo(s[6], s[7], s[8], s[9], -dx, s[10]);
+            }
+            // The arithmetic operators are deprecated and not supported.
+            stack = [];
+            break;
+          }
+          default:
+            stack = [];
+        }
+      }
+    }
+  }
+
+  execute(charString, 0);
+  closeContour();
+  return subpaths;
+}
+
+/** Returns the function computing the outlines of the glyphs from the CFF table, in font units. */
+export function cffGlyphSubpaths(cff: DataView) {
+  const r = new BinaryReader(cff, cff.getUint8(2));
+  readCFFIndex(r);
+  const [topDictData] = readCFFIndex(r);
+  if (!topDictData)
+    throw new Error(`Missing CFF top DICT`);
+  const topDict = readCFFDict(topDictData);
+  readCFFIndex(r);
+  const globalSubrs = readCFFIndex(r);
+  const charStringsOffset = topDict.get(17)?.[0];
+  if (charStringsOffset === undefined)
+    throw new Error(`Missing CFF CharStrings`);
+  const charStrings = readCFFIndex(r.at(charStringsOffset));
+
+  function privateSubrs(dict: Map<number, number[]>) {
+    const [size, offset] = dict.get(18) || [];
+    if (offset === undefined)
+      return [];
+    const subrsOffset = readCFFDict(subView(cff, offset, size)).get(19)?.[0];
+    return subrsOffset === undefined ? [] : readCFFIndex(r.at(offset + subrsOffset));
+  }
+
+  let subrsForGlyph: (glyphIndex: number) => readonly DataView[];
+  const fdArrayOffset = topDict.get(1236)?.[0];
+  const fdSelectOffset = topDict.get(1237)?.[0];
+  if (fdArrayOffset !== undefined && fdSelectOffset !== undefined) {
+    // A CID-keyed font, where each glyph has its own font DICT.
+    const fdSubrs = readCFFIndex(r.at(fdArrayOffset)).map(fd => privateSubrs(readCFFDict(fd)));
+    const fds = new Uint8Array(charStrings.length);
+    const fr = r.at(fdSelectOffset);
+    const format = fr.u8();
+    if (format === 0)
+      fds.forEach((_fd, i) => fds[i] = fr.u8());
+    else if (format === 3) {
+      const numRanges = fr.u16();
+      let first = fr.u16();
+      for (let i = 0; i < numRanges; i++) {
+        const fd = fr.u8();
+        const next = fr.u16();
+        fds.fill(fd, first, next);
+        first = next;
+      }
+    } else
+      throw new Error(`Unsupported CFF FDSelect format: ${format}`);
+    subrsForGlyph = glyphIndex => fdSubrs[fds[glyphIndex]] || [];
+  } else {
+    const subrs = privateSubrs(topDict);
+    subrsForGlyph = () => subrs;
+  }
+
+  return (glyphIndex: number) => {
+    const charString = charStrings[glyphIndex];
+    return charString ? runCharString(charString, globalSubrs, subrsForGlyph(glyphIndex)) : [];
+  };
+}
+
+/** Returns the function mapping code points to glyph indices, with 0 for missing glyphs. */
+export function parseCmap(cmap: DataView): (codePoint: number) => number {
+  const r = new BinaryReader(cmap, 2);
+  const numTables = r.u16();
+  let best: {rank: number, offset: number} | undefined;
+  for (let i = 0; i < numTables; i++) {
+    const platformID = r.u16();
+    const encodingID = r.u16();
+    const offset = r.u32();
+    if (platformID !== 0 && !(platformID === 3 && [0, 1, 10].includes(encodingID)))
+      continue;
+    const rank = [12, 4, 6].indexOf(cmap.getUint16(offset));
+    if (rank >= 0 && (!best || rank < best.rank))
+      best = {rank, offset};
+  }
+  if (!best)
+    throw new Error(`No supported Unicode cmap subtable in the font`);
+  const s = new BinaryReader(cmap, best.offset);
+  const format = s.u16();
+  if (format === 12) {
+    s.skip(10);
+    const numGroups = s.u32();
+    const groupsStart = s.pos;
+    return codePoint => {
+      let [lo, hi] = [0, numGroups - 1];
+      while (lo <= hi) {
+        const mid = (lo + hi) >> 1;
+        const g = new BinaryReader(cmap, groupsStart + 12 * mid);
+        const [startCode, endCode, startGlyph] = [g.u32(), g.u32(), g.u32()];
+        if (codePoint < startCode)
+          hi = mid - 1;
+        else if (codePoint > endCode)
+          lo = mid + 1;
+        else
+          return startGlyph + codePoint - startCode;
+      }
+      return 0;
+    };
+  }
+  if (format === 4) {
+    s.skip(4);
+    const segCount = s.u16() / 2;
+    const endCodes = s.skip(6).pos;
+    const startCodes = endCodes + 2 * segCount + 2;
+    const idDeltas = startCodes + 2 * segCount;
+    const idRangeOffsets = idDeltas + 2 * segCount;
+    return codePoint => {
+      let [lo, hi] = [0, segCount - 1];
+      while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        if (cmap.getUint16(endCodes + 2 * mid) < codePoint)
+          lo = mid + 1;
+        else
+          hi = mid;
+      }
+      const startCode = cmap.getUint16(startCodes + 2 * lo);
+      if (codePoint < startCode || codePoint > cmap.getUint16(endCodes + 2 * lo))
+        return 0;
+      const idDelta = cmap.getUint16(idDeltas + 2 * lo);
+      const rangeOffsetPos = idRangeOffsets + 2 * lo;
+      const idRangeOffset = cmap.getUint16(rangeOffsetPos);
+      if (!idRangeOffset)
+        return (codePoint + idDelta) & 0xffff;
+      const glyph = cmap.getUint16(rangeOffsetPos + idRangeOffset + 2 * (codePoint - startCode));
+      return glyph ? (glyph + idDelta) & 0xffff : 0;
+    };
+  }
+  s.skip(4);
+  const firstCode = s.u16();
+  const entryCount = s.u16();
+  const glyphIds = s.pos;
+  return codePoint => codePoint >= firstCode && codePoint < firstCode + entryCount ?
+    cmap.getUint16(glyphIds + 2 * (codePoint - firstCode)) : 0;
+}
+
+/** Returns the function returning the advance widths of the glyphs. */
+export function parseAdvanceWidths(hmtx: DataView, numberOfHMetrics: number) {
+  return (glyphIndex: number) =>
+    hmtx.getUint16(4 * Math.min(glyphIndex, numberOfHMetrics - 1));
+}
+
+/** A function returning the kerning adjustment of the advance between the two glyphs. */
+export type Kerning = (left: number, right: number) => number;
+
+/** Parses the pairs of the horizontal kerning subtables (format 0) of the kern table. */
+export function parseKernTable(kern: DataView): Kerning {
+  const r = new BinaryReader(kern);
+  const pairs = new Map<number, number>();
+  // Only the Windows version of the table is supported.
+  if (r.u16() === 0) {
+    const numTables = r.u16();
+    for (let i = 0; i < numTables; i++) {
+      const start = r.pos;
+      r.skip(2);
+      const length = r.u16();
+      const coverage = r.u16();
+      if ((coverage & 0x7) === 0x1 && (coverage >> 8) === 0) {
+        const numPairs = r.u16();
+        r.skip(6);
+        for (let j = 0; j < numPairs; j++) {
+          const key = r.u32();
+          pairs.set(key, (pairs.get(key) || 0) + r.i16());
+        }
+      }
+      r.pos = start + length;
+    }
+  }
+  return (left, right) => pairs.get(left * 0x10000 + right) || 0;
+}
+
+function parseCoverage(view: DataView, offset: number) {
+  const r = new BinaryReader(view, offset);
+  const format = r.u16();
+  const coverage = new Map<number, number>();
+  if (format === 1) {
+    const count = r.u16();
+    for (let i = 0; i < count; i++)
+      coverage.set(r.u16(), i);
+  } else if (format === 2) {
+    const count = r.u16();
+    for (let i = 0; i < count; i++) {
+      const [start, end, startIndex] = [r.u16(), r.u16(), r.u16()];
+      for (let glyph = start; glyph <= end; glyph++)
+        coverage.set(glyph, startIndex + glyph - start);
+    }
+  }
+  return coverage;
+}
+
+function parseClassDef(view: DataView, offset: number) {
+  const r = new BinaryReader(view, offset);
+  const format = r.u16();
+  const classes = new Map<number, number>();
+  if (format === 1) {
+    const startGlyph = r.u16();
+    const count = r.u16();
+    for (let i = 0; i < count; i++)
+      classes.set(startGlyph + i, r.u16());
+  } else if (format === 2) {
+    const count = r.u16();
+    for (let i = 0; i < count; i++) {
+      const [start, end, glyphClass] = [r.u16(), r.u16(), r.u16()];
+      for (let glyph = start; glyph <= end; glyph++)
+        classes.set(glyph, glyphClass);
+    }
+  }
+  return classes;
+}
+
+function valueRecordSize(valueFormat: number) {
+  let size = 0;
+  for (let bits = valueFormat & 0xff; bits; bits >>= 1)
+    size += 2 * (bits & 1);
+  return size;
+}
+
+/** Returns the X advance adjustment from the value record, which is the kerning. */
+function valueRecordXAdvance(view: DataView, offset: number, valueFormat: number) {
+  if (!(valueFormat & 0x4))
+    return 0;
+  return view.getInt16(offset + valueRecordSize(valueFormat & 0x3));
+}
+
+/**
+ * Returns the function adjusting the pair of glyphs according to a pair adjustment positioning
+ * subtable, or returning undefined if the subtable does not apply to the pair.
+ */
+function parsePairPos(view: DataView): (left: number, right: number) => number | undefined {
+  const r = new BinaryReader(view);
+  const format = r.u16();
+  const coverage = parseCoverage(view, r.u16());
+  const valueFormat1 = r.u16();
+  const valueFormat2 = r.u16();
+  const recordSize = valueRecordSize(valueFormat1) + valueRecordSize(valueFormat2);
+  if (format === 1) {
+    r.skip(2);
+    const pairSets = r.pos;
+    return (left, right) => {
+      const index = coverage.get(left);
+      if (index === undefined)
+        return undefined;
+      const pairSet = view.getUint16(pairSets + 2 * index);
+      const count = view.getUint16(pairSet);
+      let [lo, hi] = [0, count - 1];
+      while (lo <= hi) {
+        const mid = (lo + hi) >> 1;
+        const record = pairSet + 2 + mid * (2 + recordSize);
+        const second = view.getUint16(record);
+        if (second < right)
+          lo = mid + 1;
+        else if (second > right)
+          hi = mid - 1;
+        else
+          return valueRecordXAdvance(view, record + 2, valueFormat1);
+      }
+      return undefined;
+    };
+  }
+  if (format === 2) {
+    const classDef1 = parseClassDef(view, r.u16());
+    const classDef2 = parseClassDef(view, r.u16());
+    r.skip(2);
+    const class2Count = r.u16();
+    const records = r.pos;
+    return (left, right) => {
+      if (!coverage.has(left))
+        return undefined;
+      const class1 = classDef1.get(left) || 0;
+      const class2 = classDef2.get(right) || 0;
+      return valueRecordXAdvance(view, records + (class1 * class2Count + class2) * recordSize,
+        valueFormat1);
+    };
+  }
+  return () => undefined;
+}
+
+const GPOS_PAIR_ADJUSTMENT = 2;
+const GPOS_EXTENSION = 9;
+
+/**
+ * Returns the kerning defined by the lookups of the `kern` features of the GPOS table,
+ * or undefined if there are no such features. The scripts and languages are not distinguished.
+ */
+export function parseGPOSKerning(gpos: DataView): Kerning | undefined {
+  const r = new BinaryReader(gpos, 6);
+  const featureList = r.u16();
+  const lookupList = r.u16();
+  const lookupIndices = new Set<number>();
+  const fr = r.at(featureList);
+  const numFeatures = fr.u16();
+  for (let i = 0; i < numFeatures; i++) {
+    const tag = fr.tag();
+    const feature = featureList + fr.u16();
+    if (tag !== "kern")
+      continue;
+    const lr = r.at(feature + 2);
+    const count = lr.u16();
+    for (let j = 0; j < count; j++)
+      lookupIndices.add(lr.u16());
+  }
+  if (!lookupIndices.size)
+    return undefined;
+  const lookups = [...lookupIndices].sort((a, b) => a - b).map(index => {
+    const lookup = lookupList + gpos.getUint16(lookupList + 2 + 2 * index);
+    const lr = r.at(lookup);
+    const lookupType = lr.u16();
+    lr.skip(2);
+    const count = lr.u16();
+    return Array.from({length: count}, () => lookup + lr.u16()).flatMap(subtable => {
+      let type = lookupType;
+      if (type === GPOS_EXTENSION) {
+        type = gpos.getUint16(subtable + 2);
+        subtable += gpos.getUint32(subtable + 4);
+      }
+      return type === GPOS_PAIR_ADJUSTMENT ? [parsePairPos(subView(gpos, subtable))] : [];
+    });
+  });
+  return (left, right) => {
+    let kerning = 0;
+    for (const subtables of lookups)
+      for (const subtable of subtables) {
+        const value = subtable(left, right);
+        if (value !== undefined) {
+          kerning += value;
+          break;
+        }
+      }
+    return kerning;
+  };
+}
@@ -2,6 +2,7 @@ import * as assets from './assets.ts';
 import * as dataURIConv from './data_uri_conv.ts';
 import {AttributesDefTool} from './def_tool.ts';
 import {Attributes, createElement} from './elements.ts';
+import {FontOutlines} from './font_outlines.ts';
 import {getGlobalOptions} from './global_options.ts';
 import {Defs, Piece} from './pieces.ts';
 import {OrArrayRest, assert, assertNumber, flatten} from './util.ts';
@@ -64,6 +65,8 @@ export class Font implements AttributesDefTool {
     protected readonly defs: Defs,
     protected readonly fallback: Font | undefined,
     private readonly finalFallback: Font | undefined,
+    /** The URL of the font file, if known. */
+    private readonly fontURL: string | undefined,
   ) {}
 
   static async fromBlob({name, blob, fontAttributes, finalFallback}: {
@@ -98,6 +101,7 @@ export class Font implements AttributesDefTool {
 }`,
       fontAttributes,
       finalFallback,
+      fontURL: url,
     });
   }
 
@@ -132,11 +136,13 @@ export class Font implements AttributesDefTool {
     styleContent,
     fontAttributes,
     finalFallback = getGlobalOptions().fontFallbackToNotDef ? Font.notDef() : undefined,
+    fontURL,
   }: {
     name: string,
     styleContent: string,
     fontAttributes?: FontAttributes,
     finalFallback?: Font | Promise<Font> | false,
+    fontURL?: string,
   }) {
     return new Font(
       name,
@@ -144,6 +150,7 @@ export class Font implements AttributesDefTool {
       Piece.createDefs(await loadStyle(styleContent)),
       undefined,
       finalFallback ? await finalFallback : undefined,
+      fontURL,
     );
   }
 
@@ -151,7 +158,7 @@ export class Font implements AttributesDefTool {
   static system(name: string, {fontAttributes}: {
     fontAttributes?: FontAttributes,
   } = {}) {
-    return new Font(name, fontAttributes, Piece.EMPTY, undefined, undefined);
+    return new Font(name, fontAttributes, Piece.EMPTY, undefined, undefined, undefined);
   }
 
   /**
@@ -200,6 +207,18 @@ export class Font implements AttributesDefTool {
     };
   }
 
+  /**
+   * Returns the outlines of the glyphs of the font, which allow converting text to a Path.
+   * Only fonts loaded from a file (by URL, blob or asset) have the outlines available.
+   * @see {@link FontOutlines.getTextPath}
+   */
+  async getOutlines() {
+    if (!this.fontURL)
+      throw new Error(`Font ${JSON.stringify(this.name)} was not loaded from a font file, ` +
+        `so its outlines are not available`);
+    return await FontOutlines.fromURL(this.fontURL);
+  }
+
   getStack() {
     const stack = [];
     let font: Font | undefined = this;
@@ -219,6 +238,7 @@ export class Font implements AttributesDefTool {
       this.defs,
       fallback,
       this.finalFallback,
+      this.fontURL,
     );
   }
 
@@ -241,6 +261,7 @@ export class Font implements AttributesDefTool {
       this.defs,
       this.fallback,
       finalFallback,
+      this.fontURL,
     );
   }
 
@@ -255,6 +276,7 @@ export class Font implements AttributesDefTool {
       this.defs,
       this.fallback,
       this.finalFallback,
+      this.fontURL,
     );
   }
 
@@ -0,0 +1,295 @@
+import {PartialCutOptions, PartialPrintOptions, runIdFromPartial, RunOptions, Side} from './options.ts';
+import {getElementOutlines} from './outlines.ts';
+import {flattenSubpath} from './path_segments.ts';
+import {Point} from './point.ts';
+import {BasicSheetParams, Sheet} from './sheet.ts';
+import {getImageData} from './svg_converter.ts';
+import {flatten, OrArray} from './util.ts';
+
+export interface PartialGCodeCutOptions extends PartialCutOptions {
+  gcHint?: PartialGCodeHint;
+}
+
+export interface PartialGCodePrintOptions extends PartialPrintOptions {
+  gcHint?: PartialGCodeHint;
+}
+
+export type PartialGCodeRunOptions = PartialGCodeCutOptions | PartialGCodePrintOptions;
+
+/**
+ * The laser parameters of a run. For a print run, the power is the power used for black,
+ * lighter pixels are engraved with proportionally lower power.
+ */
+type PartialGCodeHint = {
+  powerPercent: number,
+  /** The number of times the run is executed. Default: 1. */
+  passes?: number,
+} & ({speedMmPerSec: number} | {speedMmPerMin: number});
+
+/** Parameters of the GRBL machine. */
+export interface PartialGCodeMachineOptions {
+  /** The spindle speed corresponding to the full laser power (GRBL setting `$30`). Default: 1000. */
+  maxSpindleSpeed?: number;
+  /** The maximum error of the approximation of curves with lines, in millimeters. */
+  toleranceMm?: number;
+  /**
+   * The command turning on the laser. Use M4 (dynamic power) if the laser mode (`$32=1`)
+   * is enabled, otherwise M3 (constant power).
+   */
+  laserOnCommand?: "M3" | "M4";
+}
+interface GCodeMachineOptions {
+  readonly maxSpindleSpeed: number;
+  readonly toleranceMm: number;
+  readonly laserOnCommand: "M3" | "M4";
+}
+function gCodeMachineOptionsFromPartial({
+  maxSpindleSpeed = 1000,
+  toleranceMm = 0.01,
+  laserOnCommand = "M4",
+}: PartialGCodeMachineOptions): GCodeMachineOptions {
+  return {
+    maxSpindleSpeed,
+    toleranceMm,
+    laserOnCommand,
+  };
+}
+
+/**
+ * Returns sheet params which include a G-code artifact for GRBL-based diode lasers.
+ * The runs with a G-code hint are included in the file, in the order in which they are
+ * specified. Cut runs become vector moves, print runs become raster scan lines (which requires
+ * the browser, the PNG conversion is not supported in the headless mode).
+ *
+ * The coordinates are in millimeters, with the origin in the bottom left corner of the sheet
+ * and the Y axis pointing up.
+ */
+export function gCodeRuns(gcRuns: OrArray<PartialGCodeRunOptions>,
+  machineOptions: PartialGCodeMachineOptions = {}) {
+  const hints: GCodeHintImpl[] = [];
+  const runs: PartialGCodeRunOptions[] = [];
+  for (const {gcHint, ...run} of flatten(gcRuns)) {
+    if (gcHint) {
+      const {powerPercent, passes = 1} = gcHint;
+      const hint = GCodeHintImpl.create({
+        run: {type: run.type, id: runIdFromPartial(run), side: run.side || "front"},
+        powerPercent,
+        speedMmPerMin: "speedMmPerMin" in gcHint ? gcHint.speedMmPerMin : gcHint.speedMmPerSec * 60,
+        passes,
+      });
+      hints.push(hint);
+      runs.push({...run, hint});
+    } else
+      runs.push(run);
+  }
+  return {
+    runs,
+    preserveRunsOrder: true,
+    artifacts: (sheet) => {
+      const nonEmptyRunIds = new Set(sheet.getNonEmptyRunIds());
+      const matchingHints = hints.filter(hint => nonEmptyRunIds.has(hint.run.id));
+      if (!matchingHints.length)
+        return [];
+      return [{
+        name: `G-code`,
+        desc: `G-code for a GRBL-based laser.\n` +
+          `Runs: ${matchingHints.map(h => `${h.run.id} ${h}`).join(", ")}`,
+        fileName: `${sheet.getFileName()}.gcode`,
+        data: () => createGCode({
+          sheet,
+          hints: matchingHints,
+          machineOptions: gCodeMachineOptionsFromPartial(machineOptions),
+        }),
+      }];
+    },
+  } satisfies BasicSheetParams;
+}
+
+class GCodeHintImpl {
+
+  protected constructor(
+    readonly run: Pick<RunOptions, "type" | "id" | "side">,
+    readonly powerPercent: number,
+    readonly speedMmPerMin: number,
+    readonly passes: number,
+  ) {}
+
+  static create({run, powerPercent, speedMmPerMin, passes}: {
+    run: Pick<RunOptions, "type" | "id" | "side">,
+    powerPercent: number,
+    speedMmPerMin: number,
+    passes: number,
+  }) {
+    if (!(powerPercent >= 0 && powerPercent <= 100))
+      throw new Error(`Expected power between 0 and 100%, got: ${powerPercent}`);
+    if (!(speedMmPerMin > 0))
+      throw new Error(`Expected positive speed, got: ${speedMmPerMin}`);
+    if (!(Number.isInteger(passes) && passes >= 1))
+      throw new Error(`Expected a positive integer number of passes, got: ${passes}`);
+    return new GCodeHintImpl(run, powerPercent, speedMmPerMin, passes);
+  }
+
+  toString() {
+    return `[${this.powerPercent}% ${gcNum(this.speedMmPerMin)}mm/min` +
+      `${this.passes > 1 ? ` ×${this.passes}` : ""}]`;
+  }
+
+}
+
+function gcNum(value: number) {
+  return String(Number(value.toFixed(3)));
+}
+
+class GCodeWriter {
+
+  private readonly lines: string[] = [];
+
+  command(command: string, comment?: string) {
+    this.lines.push(comment ? `${command} ; ${comment}` : command);
+  }
+
+  comment(comment: string) {
+    this.lines.push(`; ${comment}`);
+  }
+
+  /**
+   * Travels to the point with zero power, so that the laser is off also with the constant power
+   * mode (M3). The next `lineTo` must set the spindle speed again.
+   */
+  moveTo([x, y]: Point) {
+    this.command(`G0 X${gcNum(x)} Y${gcNum(y)} S0`);
+  }
+
+  lineTo([x, y]: Point, {spindleSpeed, speedMmPerMin}: {
+    spindleSpeed?: number,
+    speedMmPerMin?: number,
+  } = {}) {
+    this.command(`G1 X${gcNum(x)} Y${gcNum(y)}` +
+      (spindleSpeed === undefined ? "" : ` S${Math.round(spindleSpeed)}`) +
+      (speedMmPerMin === undefined ? "" : ` F${gcNum(speedMmPerMin)}`));
+  }
+
+  toString() {
+    return this.lines.join("\n") + "\n";
+  }
+
+}
+
+async function createGCode({sheet, hints, machineOptions}: {
+  sheet: Sheet,
+  hints: readonly GCodeHintImpl[],
+  machineOptions: GCodeMachineOptions,
+}) {
+  const {minX, minY, height} = sheet.viewBox;
+  const millimetersPerUnit = sheet.options.millimetersPerUnit ?? 1;
+  const toMm = ([x, y]: Point): Point =>
+    [(x - minX) * millimetersPerUnit, (minY + height - y) * millimetersPerUnit];
+  const writer = new GCodeWriter();
+  writer.comment(`${sheet.getFileName()}`);
+  writer.command("G21", "Millimeters");
+  writer.command("G90", "Absolute positioning");
+  writer.command("M5");
+  let side: Side = "front";
+  for (const hint of hints) {
+    const {run} = hint;
+    if (run.side !== side) {
+      writer.command("M0", `Pause: turn the material to the ${run.side} side`);
+      side = run.side;
+    }
+    writer.comment(`Run: ${run.id} ${hint}`);
+    const svg = await sheet.getLaserSVG({
+      runsSelector: {runs: [run.id], cornersMarker: false, reversingFrame: false},
+    });
+    svg.querySelector(`[id="${run.id}-handle"]`)?.remove();
+    const spindleSpeed = machineOptions.maxSpindleSpeed * hint.powerPercent / 100;
+    if (run.type === "cut") {
+      const polylines = getElementOutlines(svg).map(subpath =>
+        flattenSubpath(subpath, machineOptions.toleranceMm / millimetersPerUnit).map(toMm));
+      for (let pass = 0; pass < hint.passes; pass++) {
+        if (hint.passes > 1)
+          writer.comment(`Pass ${pass + 1}`);
+        writer.command(`${machineOptions.laserOnCommand} S0`);
+        for (const [start, ...points] of polylines) {
+          writer.moveTo(start);
+          points.forEach((point, i) => writer.lineTo(point,
+            i ? {} : {spindleSpeed, speedMmPerMin: hint.speedMmPerMin}));
+        }
+        writer.command("M5");
+      }
+    } else if (run.type === "print")
+      writeRaster({
+        writer,
+        image: await getImageData(svg, sheet.options.resolution),
+        millimetersPerPixel: millimetersPerUnit / sheet.options.resolution.pixelsPerUnit,
+        topLeft: toMm([minX, minY]),
+        hint,
+        spindleSpeed,
+        laserOnCommand: machineOptions.laserOnCommand,
+      });
+    else
+      run.type satisfies never;
+  }
+  writer.moveTo([0, 0]);
+  writer.command("M2", "End of program");
+  return writer.toString();
+}
+
+/**
+ * Writes the image as bidirectional raster scan lines, with the power proportional to
+ * the darkness of the pixels. The transparent pixels are treated as white.
+ */
+function writeRaster({
+  writer,
+  image: {width, height, data},
+  millimetersPerPixel,
+  topLeft: [left, top],
+  hint,
+  spindleSpeed,
+  laserOnCommand,
+}: {
+  writer: GCodeWriter,
+  image: ImageData,
+  millimetersPerPixel: number,
+  topLeft: Point,
+  hint: GCodeHintImpl,
+  spindleSpeed: number,
+  laserOnCommand: string,
+}) {
+  function pixelSpindleSpeed(x: number, y: number) {
+    const i = (y * width + x) * 4;
+    const alpha = data[i + 3] / 0xFF;
+    const luminance = (0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]) / 0xFF;
+    return Math.round(spindleSpeed * alpha * (1 - luminance));
+  }
+  for (let pass = 0; pass < hint.passes; pass++) {
+    if (hint.passes > 1)
+      writer.comment(`Pass ${pass + 1}`);
+    writer.command(`${laserOnCommand} S0`);
+    let leftToRight = true;
+    let speedSet = false;
+    for (let y = 0; y < height; y++) {
+      const row = Array.from({length: width}, (_, x) => pixelSpindleSpeed(x, y));
+      const first = row.findIndex(s => s > 0);
+      if (first < 0)
+        continue;
+      const last = row.findLastIndex(s => s > 0);
+      const rowY = top - (y + 0.5) * millimetersPerPixel;
+      const edgeX = (x: number) => left + x * millimetersPerPixel;
+      const [from, to, step] = leftToRight ? [first, last + 1, 1] : [last, first - 1, -1];
+      writer.moveTo([edgeX(leftToRight ? from : from + 1), rowY]);
+      let x = from;
+      while (x !== to) {
+        const s = row[x];
+        while (x !== to && row[x] === s)
+          x += step;
+        writer.lineTo([edgeX(leftToRight ? x : x + 1), rowY], {
+          spindleSpeed: s,
+          speedMmPerMin: speedSet ? undefined : hint.speedMmPerMin,
+        });
+        speedSet = true;
+      }
+      leftToRight = !leftToRight;
+    }
+    writer.command("M5");
+  }
+}
@@ -0,0 +1,457 @@
+import {NO_LAYER} from './layers.ts';
+import {getPiecePolygons} from './outlines.ts';
+import {Path} from './path.ts';
+import {Subpath, subpathsToPathD} from './path_segments.ts';
+import {Piece, gather} from './pieces.ts';
+import {Point, pointsDist, pointsMid} from './point.ts';
+import {Polygon, distanceToSegment, polygonNestingDepth, polygonSignedArea, segmentsIntersection} from './polygons.ts';
+
+/**
+ * The method of filling the shapes:
+ *  - `"hatch"` - parallel lines (possibly crossed with perpendicular lines),
+ *  - `"contours"` - contours following the outline, each offset inwards by the spacing from
+ *    the previous one.
+ */
+export type HatchFillMode = "hatch" | "contours";
+
+export interface HatchFillOptions {
+  /** The distance between the lines. */
+  readonly spacing: number;
+  /** Default: `"hatch"`. */
+  readonly mode?: HatchFillMode;
+  /** The angle of the hatch lines, clockwise from the X axis (as displayed). Default: 0. */
+  readonly angleDeg?: number;
+  /** Whether to add the hatch lines perpendicular to the main ones. Default: false. */
+  readonly crosshatch?: boolean;
+  /**
+   * Whether every other hatch line should be reversed, so that the laser head moves back and
+   * forth, instead of returning to the same side for each line. Default: true.
+   */
+  readonly alternate?: boolean;
+  /** The maximum number of contours in the `"contours"` mode. Default: no limit. */
+  readonly maxContours?: number;
+  /** Whether to include also the outline of the shapes. Default: false. */
+  readonly outline?: boolean;
+  /** The precision of the contours. Default: a tenth of the spacing. */
+  readonly tolerance?: number;
+}
+
+function rotatePoint([x, y]: Point, [cos, sin]: Point): Point {
+  return [x * cos - y * sin, x * sin + y * cos];
+}
+
+function openSubpath(points: readonly Point[], closed = false): Subpath {
+  return {
+    start: points[0],
+    segments: points.slice(1).map((to, i) => ({type: "line", from: points[i], to})),
+    closed,
+  };
+}
+
+/**
+ * Returns the hatch lines filling the polygons (using the even-odd rule), at the specified angle.
+ * The lines are placed at the multiples of the spacing, so that the hatching of the adjacent
+ * shapes is aligned.
+ */
+function hatchLines(polygons: readonly Polygon[], {spacing, angleDeg, alternate}: {
+  spacing: number,
+  angleDeg: number,
+  alternate: boolean,
+}): Subpath[] {
+  const angle = angleDeg * Math.PI / 180;
+  const [cos, sin] = [Math.cos(angle), Math.sin(angle)];
+  // Rotate the polygons so that the hatch lines are horizontal.
+  const rotated = polygons.map(polygon => polygon.map(point => rotatePoint(point, [cos, -sin])));
+  const ys = rotated.flat().map(([, y]) => y);
+  if (!ys.length)
+    return [];
+  const result: Subpath[] = [];
+  let reverse = false;
+  for (let k = Math.ceil(Math.min(...ys) / spacing); k * spacing <= Math.max(...ys); k++) {
+    const y = k * spacing;
+    const xs: number[] = [];
+    for (const polygon of rotated)
+      for (let i = 0; i < polygon.length; i++) {
+        const [x1, y1] = polygon[i];
+        const [x2, y2] = polygon[(i + 1) % polygon.length];
+        if ((y1 > y) !== (y2 > y))
+          xs.push(x1 + (x2 - x1) * (y - y1) / (y2 - y1));
+      }
+    if (!xs.length)
+      continue;
+    xs.sort((a, b) => reverse ? b - a : a - b);
+    for (let i = 0; i + 1 < xs.length; i += 2)
+      if (xs[i] !== xs[i + 1])
+        result.push(openSubpath([
+          rotatePoint([xs[i], y], [cos, sin]),
+          rotatePoint([xs[i + 1], y], [cos, sin]),
+        ]));
+    if (alternate)
+      reverse = !reverse;
+  }
+  return result;
+}
+
+type Edge = readonly [Point, Point];
+
+function polylineEdges(points: readonly Point[], closed = true): Edge[] {
+  const edges = points.slice(1).map((point, i): Edge => [points[i], point]);
+  return closed ? [...edges, [points.at(-1)!, points[0]]] : edges;
+}
+
+/** A uniform grid of segments, for quickly finding the segments near a point. */
+class SegmentsGrid {
+
+  /** The number of the last query, for marking the segments already visited by the query. */
+  private query = 0;
+
+  protected constructor(
+    readonly segments: readonly Edge[],
+    private readonly cellSize: number,
+    private readonly cells: ReadonlyMap<number, readonly number[]>,
+    private readonly visited: Uint32Array,
+  ) {}
+
+  static create(segments: readonly Edge[]) {
+    let [minX, minY, maxX, maxY] = [Infinity, Infinity, -Infinity, -Infinity];
+    for (const [x, y] of segments.flat()) {
+      [minX, minY] = [Math.min(minX, x), Math.min(minY, y)];
+      [maxX, maxY] = [Math.max(maxX, x), Math.max(maxY, y)];
+    }
+    const [width, height] = [maxX - minX, maxY - minY];
+    // About one segment per cell, also for shapes that are thin or degenerate.
+    const cellSize = Math.max(Math.sqrt(width * height / segments.length),
+      (width + height) / segments.length) || 1;
+    const cells = new Map<number, number[]>();
+    segments.forEach((segment, index) => SegmentsGrid.someCell(cellSize, segmentBox(segment),
+      key => {
+        let cell = cells.get(key);
+        if (!cell) {
+          cell = [];
+          cells.set(key, cell);
+        }
+        cell.push(index);
+        return false;
+      }));
+    return new SegmentsGrid(segments, cellSize, cells, new Uint32Array(segments.length));
+  }
+
+  private static someCell(cellSize: number, [[minX, minY], [maxX, maxY]]: Edge,
+    func: (key: number) => boolean) {
+    for (let i = Math.floor(minX / cellSize); i <= Math.floor(maxX / cellSize); i++)
+      for (let j = Math.floor(minY / cellSize); j <= Math.floor(maxY / cellSize); j++)
+        if (func(i * 2 ** 26 + j))
+          return true;
+    return false;
+  }
+
+  /**
+   * Calls the function for the indices of the segments that might intersect the box, until
+   * it returns true. Returns whether it did.
+   */
+  someNear(box: Edge, func: (index: number) => boolean) {
+    const [[minX, minY], [maxX, maxY]] = box;
+    const numCells = (Math.floor(maxX / this.cellSize) - Math.floor(minX / this.cellSize) + 1) *
+      (Math.floor(maxY / this.cellSize) - Math.floor(minY / this.cellSize) + 1);
+    if (numCells > this.segments.length) {
+      for (let index = 0; index < this.segments.length; index++)
+        if (func(index))
+          return true;
+      return false;
+    }
+    const query = ++this.query;
+    return SegmentsGrid.someCell(this.cellSize, box, key => {
+      for (const index of this.cells.get(key) || [])
+        if (this.visited[index] !== query) {
+          this.visited[index] = query;
+          if (func(index))
+            return true;
+        }
+      return false;
+    });
+  }
+
+  /** Checks whether any of the segments is closer to the point than the distance. */
+  isAnyCloser(point: Point, distance: number) {
+    const [x, y] = point;
+    return this.someNear([[x - distance, y - distance], [x + distance, y + distance]], index => {
+      const [a, b] = this.segments[index];
+      return distanceToSegment(point, a, b) < distance;
+    });
+  }
+
+}
+
+function segmentBox([[ax, ay], [bx, by]]: Edge): Edge {
+  return [[Math.min(ax, bx), Math.min(ay, by)], [Math.max(ax, bx), Math.max(ay, by)]];
+}
+
+/**
+ * Returns the closed polyline of the raw inward offset of the polygon: the edges offset
+ * by the distance, joined with arcs around the vertices where they diverge, and cut off
+ * at the point where they cross. The result contains also the parts that are closer to
+ * the outline than the distance, which need to be clipped.
+ *
+ * The polyline is oriented so that the inner side is on the left (in Y-up coordinates).
+ *
+ * The arcs are drawn outside their circles, with the segments touching the circles, so that
+ * the middles of the segments are exactly at the distance from the vertex.
+ */
+function rawInwardOffset(polygon: Polygon, inwardSign: number, distance: number,
+  tolerance: number): Point[] {
+  const n = polygon.length;
+  const normals = polygon.map((point, i) => {
+    const next = polygon[(i + 1) % n];
+    const length = pointsDist(point, next) || 1;
+    // The normal to the left of the edge (in Y-up coordinates), multiplied by the sign.
+    return [
+      -(next[1] - point[1]) / length * inwardSign,
+      (next[0] - point[0]) / length * inwardSign,
+    ] as Point;
+  });
+  // The maximum angle of an arc segment for which the arc is within the tolerance.
+  const maxStep = 2 * Math.acos(Math.max(1 - tolerance / distance, 0));
+  const points: Point[] = [];
+  for (let i = 0; i < n; i++) {
+    const [vx, vy] = polygon[i];
+    const offsetPoint = ([nx, ny]: Point, radius = distance): Point =>
+      [vx + radius * nx, vy + radius * ny];
+    const [nx0, ny0] = normals[(i + n - 1) % n];
+    const [nx1, ny1] = normals[i];
+    const end = offsetPoint([nx0, ny0]);
+    const start = offsetPoint([nx1, ny1]);
+    const sweep = Math.atan2(nx0 * ny1 - ny0 * nx1, nx0 * nx1 + ny0 * ny1);
+    if (sweep * inwardSign < 0) {
+      points.push(end);
+      const count = Math.ceil(Math.abs(sweep) / maxStep);
+      const step = sweep / count;
+      const startAngle = Math.atan2(ny0, nx0);
+      for (let j = 0; j < count; j++) {
+        const angle = startAngle + step * (j + 0.5);
+        points.push(offsetPoint([Math.cos(angle), Math.sin(angle)], distance / Math.cos(step / 2)));
+      }
+      points.push(start);
+    } else {
+      // The parts of the offset edges beyond their crossing are closer to the other edge than
+      // the distance, so they are cut off right away.
+      const [px, py] = polygon[(i + n - 1) % n];
+      const [qx, qy] = polygon[(i + 1) % n];
+      const previousStart: Point = [px + distance * nx0, py + distance * ny0];
+      const crossing = segmentsIntersection(previousStart, end, start,
+        [qx + distance * nx1, qy + distance * ny1]);
+      if (crossing)
+        points.push(pointsMid(previousStart, end, 1 - crossing[0]));
+      else
+        points.push(end, start);
+    }
+  }
+  return inwardSign > 0 ? points : points.reverse();
+}
+
+/**
+ * Splits the segments at all the points where they cross one another. The pieces meeting
+ * at a crossing share the same point. A piece is marked as outer if it lies to the right
+ * of a segment crossing it at one of its ends.
+ */
+function splitAtCrossings(grid: SegmentsGrid): {edge: Edge, outer: boolean}[] {
+  const {segments} = grid;
+  const splits: {t: number, point: Point, rightBefore: boolean}[][] = segments.map(() => []);
+  segments.forEach(([a, b], i) => grid.someNear(segmentBox([a, b]), j => {
+    if (j <= i)
+      return false;
+    const [c, d] = segments[j];
+    const intersection = segmentsIntersection(a, b, c, d);
+    // Skip the common ends of the consecutive segments.
+    if (intersection && ((intersection[0] > 0 && intersection[0] < 1) ||
+      (intersection[1] > 0 && intersection[1] < 1))) {
+      const [u, v] = intersection;
+      const point: Point = [a[0] + u * (b[0] - a[0]), a[1] + u * (b[1] - a[1])];
+      // Positive if the segment cd goes to the left of the segment ab.
+      const cross = (b[0] - a[0]) * (d[1] - c[1]) - (b[1] - a[1]) * (d[0] - c[0]);
+      splits[i].push({t: u, point, rightBefore: cross < 0});
+      splits[j].push({t: v, point, rightBefore: cross > 0});
+    }
+    return false;
+  }));
+  return segments.flatMap(([a, b], i) => {
+    const ends = [
+      {point: a, rightBefore: true},
+      ...splits[i].sort((x, y) => x.t - y.t),
+      {point: b, rightBefore: false},
+    ];
+    return ends.slice(1).map((end, j) => ({
+      edge: [ends[j].point, end.point] as const,
+      outer: !ends[j].rightBefore || end.rightBefore,
+    }));
+  });
+}
+
+/** Joins the pieces meeting at their ends into polylines, closed where possible. */
+function joinPieces(pieces: readonly Edge[]) {
+  const pointKey = ([x, y]: Point) => `${x},${y}`;
+  const byStart = new Map<string, Edge[]>();
+  const byEnd = new Map<string, Edge[]>();
+  for (const piece of pieces)
+    for (const [map, point] of [[byStart, piece[0]], [byEnd, piece[1]]] as const) {
+      const key = pointKey(point);
+      let list = map.get(key);
+      if (!list) {
+        list = [];
+        map.set(key, list);
+      }
+      list.push(piece);
+    }
+  const used = new Set<Edge>();
+  const take = (map: Map<string, Edge[]>, point: Point) => {
+    const piece = map.get(pointKey(point))?.find(piece => !used.has(piece));
+    if (piece)
+      used.add(piece);
+    return piece;
+  };
+  const result: {points: Point[], closed: boolean}[] = [];
+  for (const first of pieces) {
+    if (used.has(first))
+      continue;
+    used.add(first);
+    const points = [...first];
+    const isClosed = () => pointKey(points[0]) === pointKey(points.at(-1)!);
+    for (let next; !isClosed() && (next = take(byStart, points.at(-1)!));)
+      points.push(next[1]);
+    for (let previous; !isClosed() && (previous = take(byEnd, points[0]));)
+      points.unshift(previous[0]);
+    const closed = isClosed();
+    result.push({points: closed ? points.slice(0, -1) : points, closed});
+  }
+  return result;
+}
+
+function polylineLength(points: readonly Point[], closed: boolean) {
+  return polylineEdges(points, closed).reduce((sum, [a, b]) => sum + pointsDist(a, b), 0);
+}
+
+/**
+ * Returns the polylines of the contours offset inwards from the polygons (using the even-odd
+ * rule) by the multiples of the spacing, until they vanish.
+ *
+ * Each contour is computed from the raw offset of the outline, split at its self-crossings.
+ * The pieces of the raw offset closer to the outline than the offset distance, or lying
+ * on the outer side of another part of the raw offset, are removed, and the remaining ones
+ * are joined into polylines.
+ */
+function offsetContours(polygons: readonly Polygon[], {spacing, maxContours, tolerance}: {
+  spacing: number,
+  maxContours: number,
+  tolerance: number,
+}): Subpath[] {
+  polygons = polygons.filter(polygon => polygonSignedArea(polygon));
+  if (!polygons.length)
+    return [];
+  const outline = SegmentsGrid.create(polygons.flatMap(polygon => polylineEdges(polygon)));
+  // The sign for which the left normal of the edges of the polygon points inside the region.
+  const inwardSigns = polygons.map((polygon, i) =>
+    Math.sign(polygonSignedArea(polygon)) * (polygonNestingDepth(polygons, i) % 2 ? -1 : 1));
+  // The margin for the rounding errors.
+  const epsilon = tolerance / 1000;
+  const roundedKey = ([x, y]: Point) => `${Math.round(x / epsilon)},${Math.round(y / epsilon)}`;
+  const toPolylines = (pieces: readonly Edge[]) => {
+    // Skip the duplicates, e.g. where the contour collapses to a line, and is reached
+    // from both sides.
+    const piecesKeys = new Set<string>();
+    return joinPieces(pieces.filter(piece => {
+      const key = piece.map(roundedKey).sort().join(" ");
+      if (piecesKeys.has(key))
+        return false;
+      piecesKeys.add(key);
+      return true;
+    }))
+      .filter(({points, closed}) => polylineLength(points, closed) > tolerance)
+      .sort((a, b) => polylineLength(b.points, b.closed) - polylineLength(a.points, a.closed));
+  };
+  // The number of the polylines that are open, or so thin that they run along themselves.
+  const numCollapsed = (polylines: readonly {points: Point[], closed: boolean}[]) =>
+    polylines.filter(({points, closed}) => !closed ||
+      Math.abs(polygonSignedArea(points)) < polylineLength(points, closed) * tolerance / 4).length;
+  const result: Subpath[] = [];
+  for (let k = 1; k <= maxContours; k++) {
+    const distance = k * spacing;
+    const raw = SegmentsGrid.create(polygons.flatMap((polygon, i) =>
+      polylineEdges(rawInwardOffset(polygon, inwardSigns[i], distance, tolerance))));
+    // The offset distances from the opposite sides of the outline differ by the errors of
+    // the approximation of the outline with the polygons, so where the contour collapses,
+    // only some dashes or thin loops are exactly at the distance from both sides. In that case,
+    // the pieces slightly closer than the distance are accepted, forming contours on both
+    // sides, and one of them is then dropped as a duplicate.
+    const pieces = splitAtCrossings(raw).filter(({edge: [a, b]}) =>
+      pointsDist(a, b) && !outline.isAnyCloser(pointsMid(a, b), distance - tolerance / 2));
+    if (!pieces.length)
+      break;
+    // The pieces on the outer side of a crossing are skipped also if they are not closer
+    // than the distance, which happens next to the arcs, as they are drawn outside their circles.
+    let polylines = toPolylines(pieces.filter(({edge: [a, b], outer}) =>
+      !outer && !outline.isAnyCloser(pointsMid(a, b), distance - epsilon)).map(({edge}) => edge));
+    if (!polylines.length || numCollapsed(polylines)) {
+      const approximate = toPolylines(pieces.map(({edge}) => edge));
+      if (!polylines.length || numCollapsed(approximate) < numCollapsed(polylines))
+        polylines = approximate;
+    }
+    // The index of the polyline of each segment.
+    const indices = polylines.flatMap(({points, closed}, i) =>
+      polylineEdges(points, closed).map(() => i));
+    const segments = SegmentsGrid.create(polylines.flatMap(({points, closed}) =>
+      polylineEdges(points, closed)));
+    polylines.forEach(({points, closed}, i) => {
+      // Skip the polyline if it runs along a longer one.
+      const isDuplicate = points.every(([x, y]) => segments.someNear(
+        [[x - tolerance, y - tolerance], [x + tolerance, y + tolerance]],
+        index => {
+          if (indices[index] >= i)
+            return false;
+          const [a, b] = segments.segments[index];
+          return distanceToSegment([x, y], a, b) <= tolerance;
+        }));
+      if (!isDuplicate)
+        result.push(openSubpath(points, closed));
+    });
+  }
+  return result;
+}
+
+/**
+ * Returns a function filling the closed outlines of a Piece with lines, suitable for engraving
+ * in the line mode (i.e. in a cut run with low power), which is much faster than rasterizing
+ * large sparse shapes. The result is a Path for each layer of the Piece, containing only
+ * the fill lines (and optionally the outlines). Texts and images are skipped.
+ *
+ * Example:
+ *
+ *     figures.circle({radius: 10}).andThen(hatchFill({spacing: 0.2, crosshatch: true}))
+ */
+export function hatchFill({
+  spacing,
+  mode = "hatch",
+  angleDeg = 0,
+  crosshatch = false,
+  alternate = true,
+  maxContours = Number.POSITIVE_INFINITY,
+  outline = false,
+  tolerance = spacing / 10,
+}: HatchFillOptions) {
+  if (!(spacing > 0))
+    throw new Error(`Expected positive spacing, got: ${spacing}`);
+  return (piece: Piece) => gather([...piece.getLayers()].map(layer => {
+    // For the contours, the outline needs to be more precise than the contours themselves.
+    const polygons = getPiecePolygons(piece.selectLayers(layer),
+      mode === "contours" ? {tolerance: tolerance / 2} : {});
+    const subpaths = [
+      ...outline ? polygons.map(polygon => openSubpath([...polygon], true)) : [],
+      ...mode === "hatch" ? [
+        ...hatchLines(polygons, {spacing, angleDeg, alternate}),
+        ...crosshatch ? hatchLines(polygons, {spacing, angleDeg: angleDeg + 90, alternate}) : [],
+      ] :
+        mode === "contours" ? offsetContours(polygons, {spacing, maxContours, tolerance}) :
+          mode satisfies never,
+    ];
+    const path = Path.fromD(subpathsToPathD(subpaths));
+    return layer === NO_LAYER ? path : path.setLayer(layer);
+  }));
+}
@@ -0,0 +1,813 @@
+import {IDENTITY_MATRIX, Matrix, applyMatrix, matrixFromSVGTransform, multiplyMatrices} from './matrix.ts';
+import {elementMatrix, findReferencedElement, getElementOutlines, getHref, isRenderedElement, numAttribute, shapeElementToPathD, useElementTarget} from './outlines.ts';
+import {BoundsBuilder, parsePathD, subpathsBoundingBox, transformSubpaths} from './path_segments.ts';
+import {ViewBox} from './view_box.ts';
+
+/*
+ * A minimal implementation of the DOM, sufficient for generating the SVG files outside of
+ * the browser, e.g. in a CLI tool running in Deno or Node.
+ *
+ * The bounding boxes are calculated analytically from the geometry of the elements. The sizes
+ * of texts cannot be measured without the font data, so they are only approximated.
+ * Rendering to PNG is not supported.
+ */
+
+const XHTML_NAMESPACE_URI = "http://www.w3.org/1999/xhtml";
+const SVG_NAMESPACE_URI = "http://www.w3.org/2000/svg";
+
+const NAMESPACE_PREFIXES = new Map([
+  ["http://www.w3.org/1999/xlink", "xlink"],
+  ["http://www.w3.org/XML/1998/namespace", "xml"],
+  ["http://www.w3.org/2000/xmlns/", "xmlns"],
+]);
+
+function escapeText(text: string) {
+  return text.replaceAll("&", "&amp;").replaceAll("<", "&lt;").replaceAll(">", "&gt;");
+}
+
+function escapeAttribute(value: string) {
+  return escapeText(value).replaceAll("\"", "&quot;")
+    .replaceAll("\n", "&#10;").replaceAll("\r", "&#13;").replaceAll("\t", "&#9;");
+}
+
+abstract class HeadlessNode extends EventTarget {
+
+  parentNode: HeadlessElement | null = null;
+
+  abstract readonly nodeType: number;
+  abstract cloneNode(deep?: boolean): HeadlessNode;
+  abstract serialize(): string;
+  abstract get textContent(): string;
+
+  get ownerDocument() {
+    return headlessDocument;
+  }
+
+  get parentElement() {
+    return this.parentNode;
+  }
+
+  get nextSibling(): HeadlessNode | null {
+    const siblings = this.parentNode?.childNodes;
+    return siblings?.[siblings.indexOf(this) + 1] || null;
+  }
+
+  get previousSibling(): HeadlessNode | null {
+    const siblings = this.parentNode?.childNodes;
+    return siblings?.[siblings.indexOf(this) - 1] || null;
+  }
+
+  getRootNode(): HeadlessNode {
+    return this.parentNode ? this.parentNode.getRootNode() : this;
+  }
+
+  remove() {
+    if (this.parentNode) {
+      const siblings = this.parentNode.childNodes;
+      siblings.splice(siblings.indexOf(this), 1);
+      this.parentNode = null;
+    }
+  }
+
+}
+
+class HeadlessText extends HeadlessNode {
+
+  readonly nodeType = 3;
+
+  constructor(public data: string) {
+    super();
+  }
+
+  get textContent() {
+    return this.data;
+  }
+
+  set textContent(text: string) {
+    this.data = text;
+  }
+
+  get nodeValue() {
+    return this.data;
+  }
+
+  cloneNode() {
+    return new HeadlessText(this.data);
+  }
+
+  serialize() {
+    return escapeText(this.data);
+  }
+
+}
+
+interface HeadlessAttr {
+  readonly namespaceURI: string | null;
+  readonly name: string;
+  readonly localName: string;
+  value: string;
+}
+
+function toKebabCase(name: string) {
+  return name.replace(/[A-Z]/g, c => `-${c.toLowerCase()}`);
+}
+
+/** Creates an object mimicking CSSStyleDeclaration, backed by the `style` attribute. */
+function createStyle(element: HeadlessElement) {
+  function read() {
+    const result = new Map<string, string>();
+    for (const decl of (element.getAttribute("style") || "").split(";")) {
+      const colonPos = decl.indexOf(":");
+      if (colonPos > 0)
+        result.set(decl.slice(0, colonPos).trim(), decl.slice(colonPos + 1).trim());
+    }
+    return result;
+  }
+  function write(style: ReadonlyMap<string, string>) {
+    if (style.size)
+      element.setAttribute("style",
+        [...style].map(([name, value]) => `${name}: ${value};`).join(" "));
+    else
+      element.removeAttribute("style");
+  }
+  return new Proxy({}, {
+    get: (_target, key) => {
+      if (typeof key !== "string")
+        return undefined;
+      if (key === "setProperty")
+        return (name: string, value: string) => {
+          const style = read();
+          style.set(name, value);
+          write(style);
+        };
+      if (key === "getPropertyValue")
+        return (name: string) => read().get(name) || "";
+      if (key === "removeProperty")
+        return (name: string) => {
+          const style = read();
+          style.delete(name);
+          write(style);
+        };
+      if (key === "cssText")
+        return element.getAttribute("style") || "";
+      return read().get(toKebabCase(key)) || "";
+    },
+    set: (_target, key, value) => {
+      if (typeof key !== "string")
+        return false;
+      if (key === "cssText") {
+        element.setAttribute("style", String(value));
+        return true;
+      }
+      const style = read();
+      if (value === "" || value === null || value === undefined)
+        style.delete(toKebabCase(key));
+      else
+        style.set(toKebabCase(key), String(value));
+      write(style);
+      return true;
+    },
+  });
+}
+
+type InsertPosition = "beforebegin" | "afterbegin" | "beforeend" | "afterend";
+
+class HeadlessElement extends HeadlessNode {
+
+  readonly nodeType = 1;
+  readonly childNodes: HeadlessNode[] = [];
+  private readonly attrs: HeadlessAttr[] = [];
+  private styleProxy: unknown;
+
+  constructor(
+    readonly namespaceURI: string | null,
+    readonly localName: string,
+  ) {
+    super();
+  }
+
+  get tagName() {
+    return this.namespaceURI === XHTML_NAMESPACE_URI ?
+      this.localName.toUpperCase() : this.localName;
+  }
+
+  get nodeName() {
+    return this.tagName;
+  }
+
+  get id() {
+    return this.getAttribute("id") || "";
+  }
+
+  set id(id: string) {
+    this.setAttribute("id", id);
+  }
+
+  get style() {
+    if (!this.styleProxy)
+      this.styleProxy = createStyle(this);
+    return this.styleProxy;
+  }
+
+  get attributes() {
+    return [...this.attrs];
+  }
+
+  getAttributeNames() {
+    return this.attrs.map(({name}) => name);
+  }
+
+  getAttribute(name: string) {
+    return this.attrs.find(a => a.name === name)?.value ?? null;
+  }
+
+  hasAttribute(name: string) {
+    return this.getAttribute(name) !== null;
+  }
+
+  getAttributeNS(namespaceURI: string | null, localName: string) {
+    return this.attrs.find(a =>
+      a.namespaceURI === namespaceURI && a.localName === localName)?.value ?? null;
+  }
+
+  setAttribute(name: string, value: unknown) {
+    const attr = this.attrs.find(a => a.name === name);
+    if (attr)
+      attr.value = String(value);
+    else
+      this.attrs.push({namespaceURI: null, name, localName: name, value: String(value)});
+    this.attributeChanged(name);
+  }
+
+  setAttributeNS(namespaceURI: string | null, qualifiedName: string, value: unknown) {
+    const localName = qualifiedName.slice(qualifiedName.indexOf(":") + 1);
+    const attr = this.attrs.find(a =>
+      a.namespaceURI === namespaceURI && a.localName === localName);
+    if (attr)
+      attr.value = String(value);
+    else
+      this.attrs.push({namespaceURI, name: qualifiedName, localName, value: String(value)});
+    this.attributeChanged(qualifiedName);
+  }
+
+  removeAttribute(name: string) {
+    const index = this.attrs.findIndex(a => a.name === name);
+    if (index >= 0)
+      this.attrs.splice(index, 1);
+  }
+
+  removeAttributeNS(namespaceURI: string | null, localName: string) {
+    const index = this.attrs.findIndex(a =>
+      a.namespaceURI === namespaceURI && a.localName === localName);
+    if (index >= 0)
+      this.attrs.splice(index, 1);
+  }
+
+  protected attributeChanged(_name: string) {}
+
+  get children(): HeadlessElement[] {
+    return this.childNodes.filter(n => n instanceof HeadlessElement);
+  }
+
+  get childElementCount() {
+    return this.children.length;
+  }
+
+  get firstChild() {
+    return this.childNodes[0] || null;
+  }
+
+  get lastChild() {
+    return this.childNodes.at(-1) || null;
+  }
+
+  get firstElementChild() {
+    return this.children[0] || null;
+  }
+
+  get lastElementChild() {
+    return this.children.at(-1) || null;
+  }
+
+  private toNodes(nodes: readonly (HeadlessNode | string)[]) {
+    return nodes.map(node => {
+      if (typeof node === "string")
+        return new HeadlessText(node);
+      node.remove();
+      return node;
+    });
+  }
+
+  /** Inserts the nodes, which must be already detached from their parents. */
+  private insertAt(index: number, nodes: readonly HeadlessNode[]) {
+    for (const node of nodes)
+      node.parentNode = this;
+    this.childNodes.splice(index, 0, ...nodes);
+  }
+
+  append(...nodes: (HeadlessNode | string)[]) {
+    // Detach the nodes first, in case they are already children of this element.
+    const newNodes = this.toNodes(nodes);
+    this.insertAt(this.childNodes.length, newNodes);
+  }
+
+  prepend(...nodes: (HeadlessNode | string)[]) {
+    const newNodes = this.toNodes(nodes);
+    this.insertAt(0, newNodes);
+  }
+
+  appendChild<N extends HeadlessNode>(node: N) {
+    this.append(node);
+    return node;
+  }
+
+  insertBefore<N extends HeadlessNode>(node: N, ref: HeadlessNode | null) {
+    node.remove();
+    const index = ref ? this.childNodes.indexOf(ref) : -1;
+    this.insertAt(index >= 0 ? index : this.childNodes.length, [node]);
+    return node;
+  }
+
+  removeChild<N extends HeadlessNode>(node: N) {
+    if (node.parentNode !== this)
+      throw new Error(`The node is not a child of this element`);
+    node.remove();
+    return node;
+  }
+
+  replaceChildren(...nodes: (HeadlessNode | string)[]) {
+    while (this.childNodes.length)
+      this.childNodes[0].remove();
+    this.append(...nodes);
+  }
+
+  before(...nodes: (HeadlessNode | string)[]) {
+    const parent = this.parentNode;
+    if (parent) {
+      const newNodes = this.toNodes(nodes);
+      parent.insertAt(parent.childNodes.indexOf(this), newNodes);
+    }
+  }
+
+  after(...nodes: (HeadlessNode | string)[]) {
+    const parent = this.parentNode;
+    if (parent) {
+      const newNodes = this.toNodes(nodes);
+      parent.insertAt(parent.childNodes.indexOf(this) + 1, newNodes);
+    }
+  }
+
+  insertAdjacentElement(where: InsertPosition, element: HeadlessElement) {
+    if (where === "beforebegin")
+      this.before(element);
+    else if (where === "afterbegin")
+      this.prepend(element);
+    else if (where === "beforeend")
+      this.append(element);
+    else if (where === "afterend")
+      this.after(element);
+    else
+      return where satisfies never;
+    return element;
+  }
+
+  get textContent() {
+    return this.childNodes.map(n => n.textContent).join("");
+  }
+
+  set textContent(text: string) {
+    this.replaceChildren(...text ? [text] : []);
+  }
+
+  cloneNode(deep = false): HeadlessElement {
+    const clone = headlessDocument.createElementNS(this.namespaceURI, this.localName);
+    for (const {namespaceURI, name, value} of this.attrs)
+      clone.setAttributeNS(namespaceURI, name, value);
+    if (deep)
+      clone.append(...this.childNodes.map(n => n.cloneNode(true)));
+    return clone;
+  }
+
+  /** Iterates over all the descendant elements, in document order. */
+  *descendants(): Generator<HeadlessElement> {
+    for (const child of this.children) {
+      yield child;
+      yield* child.descendants();
+    }
+  }
+
+  /**
+   * Returns the elements matching the selector. Only simple selectors are supported:
+   * a tag name, `#id`, `.class`, `[attr]`, `[attr=value]`, `*`, and lists of these
+   * separated by commas.
+   */
+  querySelectorAll(selectors: string): HeadlessElement[] {
+    const matchers = selectors.split(",").map(s => simpleSelectorMatcher(s.trim()));
+    return [...this.descendants()].filter(e => matchers.some(m => m(e)));
+  }
+
+  querySelector(selectors: string) {
+    return this.querySelectorAll(selectors)[0] || null;
+  }
+
+  matches(selectors: string) {
+    return selectors.split(",").some(s => simpleSelectorMatcher(s.trim())(this));
+  }
+
+  getElementsByTagName(tagName: string) {
+    return this.querySelectorAll(tagName);
+  }
+
+  serialize(): string {
+    const attributes = this.attrs.map(({name, namespaceURI, localName, value}) => {
+      const prefix = namespaceURI && NAMESPACE_PREFIXES.get(namespaceURI);
+      return ` ${prefix ? `${prefix}:${localName}` : name}="${escapeAttribute(value)}"`;
+    }).join("");
+    const tag = this.localName;
+    if (!this.childNodes.length)
+      return `<${tag}${attributes}/>`;
+    return `<${tag}${attributes}>${this.innerHTML}</${tag}>`;
+  }
+
+  get outerHTML() {
+    return this.serialize();
+  }
+
+  get innerHTML() {
+    return this.childNodes.map(n => n.serialize()).join("");
+  }
+
+}
+
+function simpleSelectorMatcher(selector: string): (element: HeadlessElement) => boolean {
+  if (selector === "*")
+    return () => true;
+  if (selector.startsWith("#"))
+    return e => e.id === selector.slice(1);
+  if (selector.startsWith("."))
+    return e => (e.getAttribute("class") || "").split(/\s+/).includes(selector.slice(1));
+  const attrMatch = /^\[([\w:-]+)(?:="?([^"\]]*)"?)?\]$/.exec(selector);
+  if (attrMatch) {
+    const [, name, value] = attrMatch;
+    return e => value === undefined ? e.hasAttribute(name) : e.getAttribute(name) === value;
+  }
+  if (/^[\w-]+$/.test(selector))
+    return e => e.localName.toLowerCase() === selector.toLowerCase();
+  throw new Error(`Unsupported selector in headless mode: ${JSON.stringify(selector)}`);
+}
+
+class HeadlessSVGElement extends HeadlessElement {}
+
+/** Mimics SVGAnimatedTransformList, backed by the specified attribute. */
+function animatedTransformList(element: HeadlessElement, attribute: string) {
+  const value = () => element.getAttribute(attribute) || "";
+  return {
+    baseVal: {
+      get length() {
+        return [...value().matchAll(/[a-zA-Z]+\s*\(/g)].length;
+      },
+      consolidate() {
+        if (!value().trim())
+          return null;
+        const [a, b, c, d, e, f] = matrixFromSVGTransform(value());
+        return {matrix: {a, b, c, d, e, f}};
+      },
+    },
+  };
+}
+
+class HeadlessSVGGraphicsElement extends HeadlessSVGElement {
+
+  get transform() {
+    return animatedTransformList(this, "transform");
+  }
+
+  /**
+   * Returns the bounding box of the contents of the element, in its own coordinates,
+   * calculated analytically.
+   */
+  getBBox() {
+    const {minX: x, minY: y, width, height} =
+      contentsBoundingBox(this as unknown as Element, IDENTITY_MATRIX) || {minX: 0, minY: 0, width: 0, height: 0};
+    return {x, y, width, height};
+  }
+
+}
+
+class HeadlessSVGGeometryElement extends HeadlessSVGGraphicsElement {}
+
+class HeadlessSVGGElement extends HeadlessSVGGraphicsElement {}
+
+class HeadlessSVGSVGElement extends HeadlessSVGGraphicsElement {
+
+  get viewBox() {
+    const element = this;
+    return {
+      get baseVal() {
+        const [x = 0, y = 0, width = 0, height = 0] =
+          (element.getAttribute("viewBox") || "").split(/[\s,]+/).filter(Boolean).map(Number);
+        return {x, y, width, height};
+      },
+    };
+  }
+
+}
+
+class HeadlessSVGImageElement extends HeadlessSVGGraphicsElement {
+
+  /** The intrinsic size of the image, known after the load event. */
+  intrinsicSize: {width: number, height: number} | undefined;
+
+  protected attributeChanged(name: string) {
+    if (name === "href" || name === "xlink:href") {
+      const href = getHref(this as unknown as Element) || "";
+      setTimeout(() => {
+        this.intrinsicSize = getIntrinsicImageSize(href);
+        this.dispatchEvent(new Event("load"));
+      });
+    }
+  }
+
+}
+
+class HeadlessSVGGradientElement extends HeadlessSVGElement {
+
+  get gradientTransform() {
+    return animatedTransformList(this, "gradientTransform");
+  }
+
+}
+
+const SVG_ELEMENT_CLASSES: ReadonlyMap<string, new(namespaceURI: string, localName: string) =>
+  HeadlessElement> = new Map<string, typeof HeadlessSVGElement>([
+    ...["a", "defs", "foreignObject", "switch", "text", "textPath", "tspan", "use"]
+      .map(t => [t, HeadlessSVGGraphicsElement] as const),
+    ...["circle", "ellipse", "line", "path", "polygon", "polyline", "rect"]
+      .map(t => [t, HeadlessSVGGeometryElement] as const),
+    ["g", HeadlessSVGGElement],
+    ["svg", HeadlessSVGSVGElement],
+    ["image", HeadlessSVGImageElement],
+    ["linearGradient", HeadlessSVGGradientElement],
+    ["radialGradient", HeadlessSVGGradientElement],
+  ]);
+
+class HeadlessDocument {
+
+  readonly documentElement;
+  readonly head;
+  readonly body;
+
+  constructor() {
+    this.documentElement = new HeadlessElement(XHTML_NAMESPACE_URI, "html");
+    this.head = new HeadlessElement(XHTML_NAMESPACE_URI, "head");
+    this.body = new HeadlessElement(XHTML_NAMESPACE_URI, "body");
+    this.documentElement.append(this.head, this.body);
+  }
+
+  createElementNS(namespaceURI: string | null, qualifiedName: string): HeadlessElement {
+    if (namespaceURI === SVG_NAMESPACE_URI)
+      return new (SVG_ELEMENT_CLASSES.get(qualifiedName) || HeadlessSVGElement)(
+        namespaceURI, qualifiedName);
+    return new HeadlessElement(namespaceURI, qualifiedName);
+  }
+
+  createElement(tagName: string) {
+    return this.createElementNS(XHTML_NAMESPACE_URI, tagName.toLowerCase());
+  }
+
+  createTextNode(data: string) {
+    return new HeadlessText(data);
+  }
+
+  getElementById(id: string) {
+    return this.documentElement.querySelector(`#${id}`);
+  }
+
+  querySelectorAll(selectors: string) {
+    return this.documentElement.querySelectorAll(selectors);
+  }
+
+  querySelector(selectors: string) {
+    return this.documentElement.querySelector(selectors);
+  }
+
+}
+
+class HeadlessXMLSerializer {
+
+  serializeToString(node: HeadlessNode) {
+    return node.serialize();
+  }
+
+}
+
+const headlessDocument = new HeadlessDocument();
+
+function transformedBox(box: ViewBox, matrix: Matrix) {
+  const bounds = new BoundsBuilder();
+  for (const [x, y] of [[0, 0], [1, 0], [0, 1], [1, 1]])
+    bounds.addPoint(applyMatrix(matrix, [box.minX + x * box.width, box.minY + y * box.height]));
+  return bounds.getBox();
+}
+
+function getInheritedAttribute(element: Element, name: string) {
+  for (let e: Element | null = element; e; e = e.parentElement) {
+    const value = e.getAttribute(name);
+    if (value !== null)
+      return value;
+  }
+  return undefined;
+}
+
+/** Estimated width of a character, relative to the font size. */
+const APPROX_CHAR_WIDTH = 0.55;
+const APPROX_ASCENT = 0.8;
+const APPROX_DESCENT = 0.2;
+
+/**
+ * Returns the approximate bounding box of a `<text>` element. The result is only an estimate,
+ * because the fonts are not available in the headless mode.
+ */
+function approximateTextBox(element: Element, matrix: Matrix) {
+  const fontSize = Number.parseFloat(getInheritedAttribute(element, "font-size") || "16") || 16;
+  const textPath = element.querySelector("textPath");
+  if (textPath) {
+    const path = findReferencedElement(textPath, getHref(textPath));
+    const pathBox = path && subpathsBoundingBox(getElementOutlines(path, matrix));
+    if (!pathBox)
+      return undefined;
+    const margin = fontSize * Math.hypot(matrix[0], matrix[1]);
+    return {
+      minX: pathBox.minX - margin,
+      minY: pathBox.minY - margin,
+      width: pathBox.width + 2 * margin,
+      height: pathBox.height + 2 * margin,
+    };
+  }
+  const text = element.textContent || "";
+  if (!text.length)
+    return undefined;
+  const width = text.length * fontSize * APPROX_CHAR_WIDTH;
+  const anchor = getInheritedAttribute(element, "text-anchor");
+  const x = numAttribute(element, "x") -
+    (anchor === "middle" ? width / 2 : anchor === "end" ? width : 0);
+  const baseline = getInheritedAttribute(element, "dominant-baseline");
+  const y = numAttribute(element, "y") - fontSize * (
+    baseline === "middle" || baseline === "central" ? 0.5 :
+      baseline === "hanging" || baseline === "text-before-edge" ? 0 :
+        APPROX_ASCENT);
+  return transformedBox({
+    minX: x,
+    minY: y,
+    width,
+    height: fontSize * (APPROX_ASCENT + APPROX_DESCENT),
+  }, matrix);
+}
+
+function imageBox(element: Element, matrix: Matrix) {
+  const intrinsicSize = element instanceof HeadlessSVGImageElement ?
+    element.intrinsicSize : undefined;
+  let width = numAttribute(element, "width", NaN);
+  let height = numAttribute(element, "height", NaN);
+  if (Number.isNaN(width) && Number.isNaN(height)) {
+    width = intrinsicSize?.width || 0;
+    height = intrinsicSize?.height || 0;
+  } else if (Number.isNaN(width))
+    width = intrinsicSize?.height ? height * intrinsicSize.width / intrinsicSize.height : 0;
+  else if (Number.isNaN(height))
+    height = intrinsicSize?.width ? width * intrinsicSize.height / intrinsicSize.width : 0;
+  return transformedBox({
+    minX: numAttribute(element, "x"),
+    minY: numAttribute(element, "y"),
+    width,
+    height,
+  }, matrix);
+}
+
+/**
+ * Returns the bounding box of the contents of the element (not including its own transform),
+ * transformed by the matrix.
+ */
+function contentsBoundingBox(element: Element, matrix: Matrix): ViewBox | undefined {
+  const d = shapeElementToPathD(element);
+  if (d !== undefined)
+    return subpathsBoundingBox(transformSubpaths(parsePathD(d), matrix));
+  switch (element.localName) {
+    case "text":
+      return approximateTextBox(element, matrix);
+    case "image":
+      return imageBox(element, matrix);
+    case "use": {
+      const use = useElementTarget(element);
+      return use && elementBoundingBox(use.target, multiplyMatrices(use.matrix, matrix));
+    }
+  }
+  const bounds = new BoundsBuilder();
+  for (const child of element.children)
+    bounds.addBox(elementBoundingBox(child, matrix));
+  return bounds.getBox();
+}
+
+/**
+ * Returns the bounding box of the element, including its own transform, transformed
+ * by the matrix.
+ */
+function elementBoundingBox(element: Element, matrix: Matrix) {
+  if (!isRenderedElement(element))
+    return undefined;
+  return contentsBoundingBox(element, multiplyMatrices(elementMatrix(element), matrix));
+}
+
+function decodeDataURI(url: string) {
+  const match = /^data:([^,;]*)((?:;[^,;]*)*),(.*)$/s.exec(url);
+  if (!match)
+    return undefined;
+  const [, mimeType, params, data] = match;
+  let bytes;
+  if (params.split(";").includes("base64")) {
+    const binary = atob(data);
+    bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++)
+      bytes[i] = binary.charCodeAt(i);
+  } else
+    bytes = new TextEncoder().encode(decodeURIComponent(data));
+  return {mimeType, bytes};
+}
+
+/**
+ * Reads the intrinsic size of an image from the headers of the image data, if the URL is a data
+ * URI with a PNG, GIF, JPEG or SVG image.
+ */
+function getIntrinsicImageSize(url: string): {width: number, height: number} | undefined {
+  const decoded = decodeDataURI(url);
+  if (!decoded)
+    return undefined;
+  const {bytes} = decoded;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const matches = (offset: number, signature: readonly number[]) =>
+    signature.every((b, i) => bytes[offset + i] === b);
+  if (matches(0, [0x89, 0x50, 0x4E, 0x47]) && bytes.length >= 24)
+    return {width: view.getUint32(16), height: view.getUint32(20)};
+  if (matches(0, [0x47, 0x49, 0x46]) && bytes.length >= 10)
+    return {width: view.getUint16(6, true), height: view.getUint16(8, true)};
+  if (matches(0, [0xFF, 0xD8])) {
+    let pos = 2;
+    while (pos + 9 < bytes.length) {
+      if (bytes[pos] !== 0xFF)
+        return undefined;
+      const marker = bytes[pos + 1];
+      if (marker >= 0xC0 && marker <= 0xCF && marker !== 0xC4 && marker !== 0xC8 &&
+        marker !== 0xCC)
+        return {width: view.getUint16(pos + 7), height: view.getUint16(pos + 5)};
+      pos += 2 + view.getUint16(pos + 2);
+    }
+    return undefined;
+  }
+  const text = new TextDecoder().decode(bytes.subarray(0, 4096));
+  const svgTag = /<svg\b[^>]*>/.exec(text)?.[0];
+  if (svgTag) {
+    const attr = (name: string) =>
+      new RegExp(`\\s${name}\\s*=\\s*["']([^"']*)["']`).exec(svgTag)?.[1];
+    const width = Number.parseFloat(attr("width") || "");
+    const height = Number.parseFloat(attr("height") || "");
+    if (width && height)
+      return {width, height};
+    const [, , vbWidth, vbHeight] = (attr("viewBox") || "").split(/[\s,]+/).map(Number);
+    if (vbWidth && vbHeight)
+      return {width: vbWidth, height: vbHeight};
+  }
+  return undefined;
+}
+
+/** Returns whether the headless DOM implementation is installed. */
+export function isHeadlessDOM() {
+  return (globalThis as {document?: unknown}).document === headlessDocument;
+}
+
+/**
+ * Installs the headless DOM implementation in the global scope, unless a DOM is already present
+ * (e.g. in the browser). Returns whether the headless DOM is now in use.
+ *
+ * This needs to be called before any elements are created. In a CLI script, the simplest way
+ * to ensure this is to import _headless_init.ts_ as the first module.
+ */
+export function installHeadlessDOM() {
+  const global = globalThis as Record<string, unknown>;
+  if (global.document !== undefined)
+    return isHeadlessDOM();
+  Object.assign(global, {
+    document: headlessDocument,
+    XMLSerializer: HeadlessXMLSerializer,
+    Node: HeadlessNode,
+    Text: HeadlessText,
+    Element: HeadlessElement,
+    SVGElement: HeadlessSVGElement,
+    SVGGraphicsElement: HeadlessSVGGraphicsElement,
+    SVGGeometryElement: HeadlessSVGGeometryElement,
+    SVGGElement: HeadlessSVGGElement,
+    SVGSVGElement: HeadlessSVGSVGElement,
+    SVGImageElement: HeadlessSVGImageElement,
+    SVGGradientElement: HeadlessSVGGradientElement,
+  });
+  return true;
+}
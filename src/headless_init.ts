@@ -0,0 +1,10 @@
+/**
+ * Importing this module installs the headless DOM implementation, if there is no DOM available.
+ * It should be imported first in a script that runs outside of the browser, before any other
+ * TPVector modules.
+ * @see {@link installHeadlessDOM}
+ */
+
+import {installHeadlessDOM} from './headless.ts';
+
+installHeadlessDOM();
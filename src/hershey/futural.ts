@@ -0,0 +1,110 @@
+// The Hershey Fonts were originally created by Dr. A. V. Hershey while working at the U. S.
+// National Bureau of Standards.
+// The format of the Font data in this distribution was originally created by
+//   James Hurt
+//   Cognition, Inc.
+//   900 Technology Park Drive
+//   Billerica, MA 01821
+//   (mit-eddie!ci-dandelion!hurt)
+
+/**
+ * The Roman simplex Hershey font, in the JHF format, with the glyphs of the ASCII characters
+ * from space to tilde.
+ */
+export const jhf = [
+  "  699  1JZ",
+  "  714  9MWRFRT RRYQZR[SZRY",
+  "  717  6JZNFNM RVFVM",
+  "  733 12H]SBLb RYBRb RLOZO RKUYU",
+  "  719 27H\\PBP_ RTBT_ RYIWGTFPFMGKIKKLMMNOOUQWRXSYUYXWZT[P[MZKX",
+  " 2271 32F^[FI[ RNFPHPJOLMMKMIKIIJGLFNFPGSHVHYG[F RWTUUTWTYV[X[ZZ[X[VYTWT",
+  "  734 35E_\\O\\N[MZMYNXPVUTXRZP[L[JZIYHWHUISJRQNRMSKSIRGPFNGMIMKNNPQUXWZY[[[\\Z\\Y",
+  "  731  8MWRHQGRFSGSIRKQL",
+  "  721 11KYVBTDRGPKOPOTPYR]T`Vb",
+  "  722 11KYNBPDRGTKUPUTTYR]P`Nb",
+  " 2219  9JZRFRR RMIWO RWIMO",
+  "  725  6E_RIR[ RIR[R",
+  "  711  9MWSZR[QZRYSZS\\R^Q_",
+  "  724  3E_IR[R",
+  "  710  6MWRYQZR[SZRY",
+  "  720  3G][BIb",
+  "  700 18H\\QFNGLJKOKRLWNZQ[S[VZXWYRYOXJVGSFQF",
+  "  701  5H\\NJPISFS[",
+  "  702 15H\\LKLJMHNGPFTFVGWHXJXLWNUQK[Y[",
+  "  703 16H\\MFXFRNUNWOXPYSYUXXVZS[P[MZLYKW",
+  "  704  7H\\UFKTZT RUFU[",
+  "  705 18H\\WFMFLOMNPMSMVNXPYSYUXXVZS[P[MZLYKW",
+  "  706 24H\\XIWGTFRFOGMJLOLTMXOZR[S[VZXXYUYTXQVOSNRNOOMQLT",
+  "  707  6H\\YFO[ RKFYF",
+  "  708 30H\\PFMGLILKMMONSOVPXRYTYWXYWZT[P[MZLYKWKTLRNPQOUNWMXKXIWGTFPF",
+  "  709 24H\\XMWPURRSQSNRLPKMKLLINGQFRFUGWIXMXRWWUZR[P[MZLX",
+  "  712 12MWRMQNROSNRM RRYQZR[SZRY",
+  "  713 15MWRMQNROSNRM RSZR[QZRYSZS\\R^Q_",
+  " 2241  4F^ZIJRZ[",
+  "  726  6E_IO[O RIU[U",
+  " 2242  4F^JIZRJ[",
+  "  715 21I[LKLJMHNGPFTFVGWHXJXLWNVORQRT RRYQZR[SZRY",
+  " 2273 56E`WNVLTKQKOLNMMPMSNUPVSVUUVS RQKOMNPNSOUPV RWKVSVUXVZV\\T]Q]O\\L[JYHWGTFQFNGLHJJILHOHRIUJWLYNZQ[T[WZYYZX RXKWSWUXV",
+  "  501  9I[RFJ[ RRFZ[ RMTWT",
+  "  502 24G\\KFK[ RKFTFWGXHYJYLXNWOTP RKPTPWQXRYTYWXYWZT[K[",
+  "  503 19H]ZKYIWGUFQFOGMILKKNKSLVMXOZQ[U[WZYXZV",
+  "  504 16G\\KFK[ RKFRFUGWIXKYNYSXVWXUZR[K[",
+  "  505 12H[LFL[ RLFYF RLPTP RL[Y[",
+  "  506  9HZLFL[ RLFYF RLPTP",
+  "  507 23H]ZKYIWGUFQFOGMILKKNKSLVMXOZQ[U[WZYXZVZS RUSZS",
+  "  508  9G]KFK[ RYFY[ RKPYP",
+  "  509  3NVRFR[",
+  "  510 11JZVFVVUYTZR[P[NZMYLVLT",
+  "  511  9G\\KFK[ RYFKT RPOY[",
+  "  512  6HYLFL[ RL[X[",
+  "  513 12F^JFJ[ RJFR[ RZFR[ RZFZ[",
+  "  514  9G]KFK[ RKFY[ RYFY[",
+  "  515 22G]PFNGLIKKJNJSKVLXNZP[T[VZXXYVZSZNYKXIVGTFPF",
+  "  516 14G\\KFK[ RKFTFWGXHYJYMXOWPTQKQ",
+  "  517 25G]PFNGLIKKJNJSKVLXNZP[T[VZXXYVZSZNYKXIVGTFPF RSWY]",
+  "  518 17G\\KFK[ RKFTFWGXHYJYLXNWOTPKP RRPY[",
+  "  519 21H\\YIWGTFPFMGKIKKLMMNOOUQWRXSYUYXWZT[P[MZKX",
+  "  520  6JZRFR[ RKFYF",
+  "  521 11G]KFKULXNZQ[S[VZXXYUYF",
+  "  522  6I[JFR[ RZFR[",
+  "  523 12F^HFM[ RRFM[ RRFW[ R\\FW[",
+  "  524  6H\\KFY[ RYFK[",
+  "  525  7I[JFRPR[ RZFRP",
+  "  526  9H\\YFK[ RKFYF RK[Y[",
+  " 2223 12KYOBOb RPBPb ROBVB RObVb",
+  "  804  3KYKFY^",
+  " 2224 12KYTBTb RUBUb RNBUB RNbUb",
+  " 2262 11JZPLRITL RMORJWO RRJR[",
+  "  999  3JZJ]Z]",
+  "  730  8MWSFRGQIQKRLSKRJ",
+  "  601 18I\\XMX[ RXPVNTMQMONMPLSLUMXOZQ[T[VZXX",
+  "  602 18H[LFL[ RLPNNPMSMUNWPXSXUWXUZS[P[NZLX",
+  "  603 15I[XPVNTMQMONMPLSLUMXOZQ[T[VZXX",
+  "  604 18I\\XFX[ RXPVNTMQMONMPLSLUMXOZQ[T[VZXX",
+  "  605 18I[LSXSXQWOVNTMQMONMPLSLUMXOZQ[T[VZXX",
+  "  606  9MYWFUFSGRJR[ ROMVM",
+  "  607 23I\\XMX]W`VaTbQbOa RXPVNTMQMONMPLSLUMXOZQ[T[VZXX",
+  "  608 11I\\MFM[ RMQPNRMUMWNXQX[",
+  "  609  9NVQFRGSFREQF RRMR[",
+  "  610 12MWRFSGTFSERF RSMS^RaPbNb",
+  "  611  9IZMFM[ RWMMW RQSX[",
+  "  612  3NVRFR[",
+  "  613 19CaGMG[ RGQJNLMOMQNRQR[ RRQUNWMZM\\N]Q][",
+  "  614 11I\\MMM[ RMQPNRMUMWNXQX[",
+  "  615 18I\\QMONMPLSLUMXOZQ[T[VZXXYUYSXPVNTMQM",
+  "  616 18H[LMLb RLPNNPMSMUNWPXSXUWXUZS[P[NZLX",
+  "  617 18I\\XMXb RXPVNTMQMONMPLSLUMXOZQ[T[VZXX",
+  "  618  9KXOMO[ ROSPPRNTMWM",
+  "  619 18J[XPWNTMQMNNMPNRPSUTWUXWXXWZT[Q[NZMX",
+  "  620  9MYRFRWSZU[W[ ROMVM",
+  "  621 11I\\MMMWNZP[S[UZXW RXMX[",
+  "  622  6JZLMR[ RXMR[",
+  "  623 12G]JMN[ RRMN[ RRMV[ RZMV[",
+  "  624  6J[MMX[ RXMM[",
+  "  625 10JZLMR[ RXMR[P_NaLbKb",
+  "  626  9J[XMM[ RMMXM RM[X[",
+  " 2225 40KYTBRCQDPFPHQJRKSMSOQQ RRCQEQGRISJTLTNSPORSTTVTXSZR[Q]Q_Ra RQSSUSWRYQZP\\P^Q`RaTb",
+  "  723  3NVRBRb",
+  " 2226 40KYPBRCSDTFTHSJRKQMQOSQ RRCSESGRIQJPLPNQPURQTPVPXQZR[S]S_Ra RSSQUQWRYSZT\\T^S`RaPb",
+  " 2246 24F^IUISJPLONOPPTSVTXTZS[Q RISJQLPNPPQTTVUXUZT[Q[O",
+].join("\n");
@@ -0,0 +1,112 @@
+// The Hershey Fonts were originally created by Dr. A. V. Hershey while working at the U. S.
+// National Bureau of Standards.
+// The format of the Font data in this distribution was originally created by
+//   James Hurt
+//   Cognition, Inc.
+//   900 Technology Park Drive
+//   Billerica, MA 01821
+//   (mit-eddie!ci-dandelion!hurt)
+
+/**
+ * The Roman duplex Hershey font, in the JHF format, with the glyphs of the ASCII characters
+ * from space to tilde.
+ *
+ * The left and right bounds of the glyphs are reconstructed as symmetric.
+ */
+export const jhf = [
+  "   32  1JZ",
+  "   33 24LXQFQTRT RQFRFRT RQXPYPZQ[R[SZSYRXQX RQYQZRZRYQY",
+  "   34 22I[NFMGMM RNGMM RNFOGMM RWFVGVM RWGVM RWFXGVM",
+  "   35 12G]RBKb RXBQb RKOYO RJUXU",
+  "   36 51H\\QBQ_R_ RQBRBR_ RVIXIVGSFPFMGKIKKLMMNURVSWUWWVYSZPZNYMX RVIUHSGPGMHLILKMMUQWSXUXWWYVZS[P[MZKXMX RWXTZ",
+  "   37 32F^[FI[ RNFPHPJOLMMKMIKIIJGLFNFPGSHVHYG[F RWTUUTWTYV[X[ZZ[X[VYTWT",
+  "   38 49E_ZNYOZP[O[NZMYMXNWPUUSXQZO[L[IZHXHUISOOQMRKRIQGOFMGLILKMNOQTXVZY[Z[[Z[Y RL[JZIXIUJSLQ RLKMMUXWZY[",
+  "   39 11MWRFQGQM RRGQM RRFSGQM",
+  "   40 20KYVBTDRGPKOPOTPYR]T`Vb RTDRHQKPPPTQYR\\T`",
+  "   41 20KYNBPDRGTKUPUTTYR]P`Nb RPDRHSKTPTTSYR\\P`",
+  "   42 39JZRFQGSQRR RRFRR RRFSGQQRR RMINIVOWO RMIWO RMIMJWNWO RWIVINOMO RWIMO RWIWJMNMO",
+  "   43 16E_QIQZRZ RQIRIRZ RIQZQZR RIQIRZR",
+  "   44 24LXSZR[Q[PZPYQXRXSYS\\R^P_ RQYQZRZRYQY RR[S\\ RSZR^",
+  "   45  3E_IR[R",
+  "   46 16LXQXPYPZQ[R[SZSYRXQX RQYQZRZRYQY",
+  "   47  8F^ZBHbIb RZB[BIb",
+  "   48 42H\\QFNGLJKOKRLWNZQ[S[VZXWYRYOXJVGSFQF ROGMJLOLRMWOZ RNYQZSZVY RUZWWXRXOWJUG RVHSGQGNH",
+  "   49 12H\\NJPISFS[ RNJNKPJRHR[S[",
+  "   50 34H\\LKLJMHNGPFTFVGWHXJXLWNUQL[ RLKMKMJNHPGTGVHWJWLVNTQK[ RLZYZY[ RK[Y[",
+  "   51 48H\\MFXFQO RMFMGWG RWFPO RQNSNVOXQYTYUXXVZS[P[MZLYKWLW RPOSOVPXS RTOWQXTXUWXTZ RXVVYSZPZMYLW ROZLX",
+  "   52 18H\\UIU[V[ RVFV[ RVFKVZV RUILV RLUZUZV",
+  "   53 53H\\MFLO RNGMN RMFWFWG RNGWG RMNPMSMVNXPYSYUXXVZS[P[MZLYKWLW RLOMOONSNVOXR RTNWPXSXUWXTZ RXVVYSZPZMYLW ROZLX",
+  "   54 62H\\VGWIXIWGTFRFOGMJLOLTMXOZR[S[VZXXYUYTXQVOSNRNOOMQ RWHTGRGOH RPGNJMOMTNXQZ RMVOYRZSZVYXV RTZWXXUXTWQTO RXSVPSOROOPMS RQONQMT",
+  "   55 12H\\KFYFO[ RKFKGXG RXFN[O[",
+  "   56 68H\\PFMGLILKMMNNPOTPVQWRXTXWWYTZPZMYLWLTMRNQPPTOVNWMXKXIWGTFPF RNGMIMKNMPNTOVPXRYTYWXYWZT[P[MZLYKWKTLRNPPOTNVMWKWIVG RWHTGPGMH RLXOZ RUZXX",
+  "   57 62H\\WPURRSQSNRLPKMKLLINGQFRFUGWIXMXRWWUZR[P[MZLXMXNZ RWMVPSR RWNUQRRQRNQLN RPRMPLMLLMIPG RLKNHQGRGUHWK RSGVIWMWRVWTZ RUYRZPZMY",
+  "   58 32LXQMPNPOQPRPSOSNRMQM RQNQORORNQN RQXPYPZQ[R[SZSYRXQX RQYQZRZRYQY",
+  "   59 40LXQMPNPOQPRPSOSNRMQM RQNQORORNQN RSZR[Q[PZPYQXRXSYS\\R^P_ RQYQZRZRYQY RR[S\\ RSZR^",
+  "   60  4F^ZIJRZ[",
+  "   61 16E_IMZMZN RIMINZN RIUZUZV RIUIVZV",
+  "   62  4F^JIZRJ[",
+  "   63 58H\\KKKJLHMGPFSFVGWHXJXLWNVOTPQQ RKKLKLJMHPGSGVHWJWLVNTOQP RLIOG RTGWI RWMSP RQPQTRTRP RQXPYPZQ[R[SZSYRXQX RQYQZRZRYQY",
+  "   64 56D`VNULSKPKNLMMLPLSMUOVRVTUUS RPKNMMPMSNUOV RVKUSUUWVYV[T\\Q\\O[LZJXHVGSFPFMGKHIJHLGOGRHUIWKYMZP[S[VZXYYX RWKVSVUWV",
+  "   65 20H\\RFJ[ RRIK[J[ RRIY[Z[ RRFZ[ RMUWU RLVXV",
+  "   66 44H\\LFL[ RMGMZ RLFTFWGXHYJYMXOWPTQ RMGTGWHXJXMWOTP RMPTPWQXRYTYWXYWZT[L[ RMQTQWRXTXWWYTZMZ",
+  "   67 38G]YKXIVGTFPFNGLIKKJNJSKVLXNZP[T[VZXXYV RYKXKWIVHTGPGNHLKKNKSLVNYPZTZVYWXXVYV",
+  "   68 32G]KFK[ RLGLZ RKFRFUGWIXKYNYSXVWXUZR[K[ RLGRGUHVIWKXNXSWVVXUYRZLZ",
+  "   69 27H\\LFL[ RMGMZ RLFXF RMGXGXF RMPSPSQ RMQSQ RMZXZX[ RL[X[",
+  "   70 21I[MFM[ RNGN[M[ RMFYF RNGYGYF RNPTPTQ RNQTQ",
+  "   71 44G]YKXIVGTFPFNGLIKKJNJSKVLXNZP[T[VZXXYVYRTR RYKXKWIVHTGPGNHMILKKNKSLVMXNYPZTZVYWXXVXSTSTR",
+  "   72 22G]KFK[ RKFLFL[K[ RYFXFX[Y[ RYFY[ RLPXP RLQXQ",
+  "   73  8MWQFQ[R[ RQFRFR[",
+  "   74 20I[UFUVTYRZPZNYMVLV RUFVFVVUYTZR[P[NZMYLV",
+  "   75 22G]KFK[L[ RKFLFL[ RYFXFLR RYFLS ROOX[Y[ RPOY[",
+  "   76 14JZNFN[ RNFOFOZ ROZZZZ[ RN[Z[",
+  "   77 26F^JFJ[ RKKK[J[ RKKR[ RJFRX RZFRX RYKR[ RYKY[Z[ RZFZ[",
+  "   78 20G]KFK[ RLIL[K[ RLIY[ RKFXX RXFXX RXFYFY[",
+  "   79 40G]PFNGLIKKJNJSKVLXNZP[T[VZXXYVZSZNYKXIVGTFPF RQGNHLKKNKSLVNYQZSZVYXVYSYNXKVHSGQG",
+  "   80 27H\\LFL[ RMGM[L[ RLFUFWGXHYJYMXOWPUQMQ RMGUGWHXJXMWOUPMP",
+  "   81 48G]PFNGLIKKJNJSKVLXNZP[T[VZXXYVZSZNYKXIVGTFPF RQGNHLKKNKSLVNYQZSZVYXVYSYNXKVHSGQG RSXX]Y] RSXTXY]",
+  "   82 34H\\LFL[ RMGM[L[ RLFTFWGXHYJYMXOWPTQMQ RMGTGWHXJXMWOTPMP RRQX[Y[ RSQY[",
+  "   83 43H\\YIWGTFPFMGKIKKLMMNOOTQVRWSXUXXWYTZPZNYMXKX RYIWIVHTGPGMHLILKMMONTPVQXSYUYXWZT[P[MZKX",
+  "   84 15I[QGQ[ RRGR[Q[ RKFXFXG RKFKGXG",
+  "   85 24G]KFKULXNZQ[S[VZXXYUYF RKFLFLUMXNYQZSZVYWXXUXFYF",
+  "   86 14H\\JFR[ RJFKFRX RZFYFRX RZFR[",
+  "   87 26E_GFM[ RGFHFMX RRFMX RRIM[ RRIW[ RRFWX R]F\\FWX R]FW[",
+  "   88 16H\\KFX[Y[ RKFLFY[ RYFXFK[ RYFL[K[",
+  "   89 17H\\JFQPQ[R[ RJFKFRP RYFXFQP RYFRPR[",
+  "   90 20H\\XFK[ RYFL[ RKFYF RKFKGXG RLZYZY[ RK[Y[",
+  "   91 12KYOBOb RPBPb ROBVB RObVb",
+  "   92  3KYKFY^",
+  "   93 12KYTBTb RUBUb RNBUB RNbUb",
+  "   94  8G]JTROZT RJTRPZT",
+  "   95  3H\\Hb\\b",
+  "   96  7LXPFUL RPFOGUL",
+  "   97 36H\\WMW[X[ RWMXMX[ RWPUNSMPMNNLPKSKULXNZP[S[UZWX RWPSNPNNOMPLSLUMXNYPZSZWX",
+  "   98 36H\\LFL[M[ RLFMFM[ RMPONQMTMVNXPYSYUXXVZT[Q[OZMX RMPQNTNVOWPXSXUWXVYTZQZMX",
+  "   99 32I[XPVNTMQMONMPLSLUMXOZQ[T[VZXX RXPWQVOTNQNOONPMSMUNXOYQZTZVYWWXX",
+  "  100 36H\\WFW[X[ RWFXFX[ RWPUNSMPMNNLPKSKULXNZP[S[UZWX RWPSNPNNOMPLSLUMXNYPZSZWX",
+  "  101 36I[MTXTXQWOVNTMQMONMPLSLUMXOZQ[T[VZXX RMSWSWQVOTNQNOONPMSMUNXOYQZTZVYWWXX",
+  "  102 24JZUFSFQGPJP[Q[ RUFUGSGQH RRGQJQ[ RMMTMTN RMMMNTN",
+  "  103 48H\\XMWMW\\V_U`SaQaO`N_L_ RXMX\\W_UaSbPbNaL_ RWPUNSMPMNNLPKSKULXNZP[S[UZWX RWPSNPNNOMPLSLUMXNYPZSZWX",
+  "  104 25H\\LFL[M[ RLFMFM[ RMQPNRMUMWNXQX[ RMQPORNTNVOWQW[X[",
+  "  105 24MWQFPGPHQIRISHSGRFQF RQGQHRHRGQG RQMQ[R[ RQMRMR[",
+  "  106 24MWQFPGPHQIRISHSGRFQF RQGQHRHRGQG RQMQbRb RQMRMRb",
+  "  107 22I[MFM[N[ RMFNFN[ RYMXMNW RYMNX RQTW[Y[ RRSY[",
+  "  108  8MWQFQ[R[ RQFRFR[",
+  "  109 42BbFMF[G[ RFMGMG[ RGQJNLMOMQNRQR[ RGQJOLNNNPOQQQ[R[ RRQUNWMZM\\N]Q][ RRQUOWNYN[O\\Q\\[][",
+  "  110 25H\\LML[M[ RLMMMM[ RMQPNRMUMWNXQX[ RMQPORNTNVOWQW[X[",
+  "  111 36H\\PMNNLPKSKULXNZP[S[UZWXXUXSWPUNSMPM RPNNOMPLSLUMXNYPZSZUYVXWUWSVPUOSNPN",
+  "  112 36H\\LMLbMb RLMMMMb RMPONQMTMVNXPYSYUXXVZT[Q[OZMX RMPQNTNVOWPXSXUWXVYTZQZMX",
+  "  113 36H\\WMWbXb RWMXMXb RWPUNSMPMNNLPKSKULXNZP[S[UZWX RWPSNPNNOMPLSLUMXNYPZSZWX",
+  "  114 21KYOMO[P[ ROMPMP[ RPSQPSNUMXM RPSQQSOUNXNXM",
+  "  115 50I[WPVNSMPMMNLPMROSTUVV RUUVWVXUZ RVYSZPZMY RNZMXLX RWPVPUN RVOSNPNMO RNNMPNR RMQORTTVUWWWXVZS[P[MZLX",
+  "  116 16LXQFQ[R[ RQFRFR[ RNMUMUN RNMNNUN",
+  "  117 25H\\LMLWMZO[R[TZWW RLMMMMWNYPZRZTYWW RWMW[X[ RWMXMX[",
+  "  118 14JZLMR[ RLMMMRY RXMWMRY RXMR[",
+  "  119 26F^IMN[ RIMJMNX RRMNX RRPN[ RRPV[ RRMVX R[MZMVX R[MV[",
+  "  120 16I[LMW[X[ RLMMMX[ RXMWML[ RXMM[L[",
+  "  121 17JZLMR[ RLMMMRY RXMWMRYNb RXMR[ObNb",
+  "  122 20I[VNL[ RXMNZ RLMXM RLMLNVN RNZXZX[ RL[X[",
+  "  123  4KYUBNRUb",
+  "  124  3NVRBRb",
+  "  125  4KYOBVROb",
+  "  126 24F^IUISJPLONOPPTSVTXTZS[Q RISJQLPNPPQTTVUXUZT[Q[O",
+].join("\n");
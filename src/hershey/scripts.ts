@@ -0,0 +1,112 @@
+// The Hershey Fonts were originally created by Dr. A. V. Hershey while working at the U. S.
+// National Bureau of Standards.
+// The format of the Font data in this distribution was originally created by
+//   James Hurt
+//   Cognition, Inc.
+//   900 Technology Park Drive
+//   Billerica, MA 01821
+//   (mit-eddie!ci-dandelion!hurt)
+
+/**
+ * The Script simplex Hershey font, in the JHF format, with the glyphs of the ASCII characters
+ * from space to tilde.
+ *
+ * The left and right bounds of the glyphs are reconstructed as symmetric.
+ */
+export const jhf = [
+  "   32  1JZ",
+  "   33 17LXTFSGQS RTGQS RTFUGQS ROYNZO[PZOY",
+  "   34 12I[PFNM RQFNM RYFWM RZFWM",
+  "   35 12G]RBKb RXBQb RKOYO RJUXU",
+  "   36 41G]SBK_ RXBP_ RYJXKYLZKZJYHXGUFQFNGLILKMMNNURWT RLKNMUQVRWTWWVYUZR[N[KZJYIWIVJUKVJW",
+  "   37 32F^[FI[ RNFPHPJOLMMKMIKIIJGLFNFPGSHVHYG[F RWTUUTWTYV[X[ZZ[X[VYTWT",
+  "   38 55E_\\N[O\\P]O]N\\M[MYNWPRXPZN[K[HZGXGVHTISKRPPROTMUKUITGRFPGOIOLPRQUSXUZW[Y[ZYZX RK[IZHXHVITJSPP ROLPQQTSWUYWZYZZY",
+  "   39  8LXTHSGTFUGUHTJRL",
+  "   40 20JZYBUERHPKNOMTMXN]O`Pb RUERIPMOPNUNZO_Pb",
+  "   41 20KYTBUDVGWLWPVUTYR\\O_Kb RTBUEVJVOUTTWR[O_",
+  "   42  9I[SFSR RNIXO RXINO",
+  "   43  6E_RIR[ RIR[R",
+  "   44  8LXO[NZOYPZP[O]M_",
+  "   45  3E_IR[R",
+  "   46  6MWRYQZR[SZRY",
+  "   47  3G]_BEb",
+  "   48 42G]SFPGNILLKOJSJVKYLZN[P[SZUXWUXRYNYKXHWGUFSF RSFQGOIMLLOKSKVLYN[ RP[RZTXVUWRXNXKWHUF",
+  "   49 15G]SJN[ RUFO[ RUFRIOKML RTIPKML",
+  "   50 42G]NJOKNLMKMJNHOGRFUFXGYIYKXMVOSQOSLUJWH[ RUFWGXIXKWMUOOS RIYJXLXQZTZVYWW RLXQ[T[VZWW",
+  "   51 50G]NJOKNLMKMJNHOGRFUFXGYIYKXMUORP RUFWGXIXKWMUO RPPRPUQVRWTWWVYUZR[N[KZJYIWIVJUKVJW RRPTQURVTVWUYTZR[",
+  "   52 10G]WGQ[ RXFR[ RXFIUYU",
+  "   53 39G]PFKP RPFZF RPGUGZF RKPLOONRNUOVPWRWUVXTZQ[N[KZJYIWIVJUKVJW RRNTOUPVRVUUXSZQ[",
+  "   54 46G]XIWJXKYJYIXGVFSFPGNILLKOJSJWKYLZN[Q[TZVXWVWSVQUPSOPONPLRKT RSFQGOIMLLOKSKXLZ RQ[SZUXVVVRUP",
+  "   55 30G]MFKL RZFYIWLRRPUOWN[ RWLQROUNWM[ RLIOFQFVI RMHOGQGVIXIYHZF",
+  "   56 63G]RFOGNHMJMMNOPPSPWOXNYLYIXGUFRF RRFPGOHNJNMOOPP RSPVOWNXLXIWGUF RPPLQJSIUIXJZM[Q[UZVYWWWTVRUQSP RPPMQKSJUJXKZM[ RQ[TZUYVWVSUQ",
+  "   57 46G]XMWOUQSRPRNQMPLNLKMIOGRFUFWGXHYJYNXRWUUXSZP[M[KZJXJWKVLWKX RNQMOMKNIPGRF RWGXIXNWRVUTXRZP[",
+  "   58 11LXRMQNROSNRM ROYNZO[PZ",
+  "   59 14LXRMQNROSNRM RO[NZOYPZP[O]M_",
+  "   60  4F^ZIJRZ[",
+  "   61  6E_IO[O RIU[U",
+  "   62  4F^JIZRJ[",
+  "   63 34G]NJOKNLMKMJNHOGRFVFYGZIZKYMXNRPPQPSQTST RVFXGYIYKXMWNUO ROYNZO[PZOY",
+  "   64 56D`VNULSKPKNLMMLPLSMUOVRVTUUS RPKNMMPMSNUOV RVKUSUUWVYV[T\\Q\\O[LZJXHVGSFPFMGKHIJHLGOGRHUIWKYMZP[S[VZXYYX RWKVSVUWV",
+  "   65 20I[I[KZNWQSULXFX[WXUUSSPQNQMRMTNVPXSZV[[[",
+  "   66 41G]THUIULTPSSRUPXNZL[K[JZJWKRLOMMOJQHSGVFYF[G\\I\\K[MZNXOUP RTPUPXQYRZTZWYYXZV[S[QZPX",
+  "   67 24H\\TLTMUNWNYMZKZIYGWFTFQGOIMLLNKRKVLYMZO[Q[TZVXWV",
+  "   68 35F^SFQGPIOMNSMVLXJZH[F[EZEXFWHWJXLZO[R[UZWXYTZOZKYHXGVFSFQHQJRMTPVRYT[U",
+  "   69 28H\\VJVKWLYLZKZIYGVFRFOGNINLONPOSPPPMQLRKTKWLYMZP[S[VZXXYV",
+  "   70 28H\\RLPLNKMINGQFTFXG[G]F RXGVNTTRXPZN[L[JZIXIVJULUNV RQPZP",
+  "   71 29F^F[HZLVOQPNQJQGPFOFNGMIMLNNPOTOWNXMYKYQXVWXUZR[N[KZIXHVHT",
+  "   72 38F^MMKLJJJIKGMFNFPGQIQKPONULYJ[H[GZGX RMRVOXN[L]J^H^G]F\\FZHXLVRUWUZV[W[YZZY\\V",
+  "   73 25JZXVVTTQSORLRISGTFVFWGXIXLWQUVTXRZP[N[LZKXKVLUNUPV",
+  "   74 25KYU^S[QVPPPJQGSFUFVGWJWMVRS[QaPdOfMgLfLdMaO^Q\\TZXX",
+  "   75 39F^MMKLJJJIKGMFNFPGQIQKPONULYJ[H[GZGX R^I^G]F\\FZGXIVLTNROPO RROSQSXTZU[V[XZYY[V",
+  "   76 29H\\LRNRRQUOWMXKXHWFUFTGSIRNQSPVOXMZK[I[HZHXIWKWMXPZS[U[XZZX",
+  "   77 45CaHMFLEJEIFGHFIFKGLILKKPJTH[ RJTMLOHPGRFSFUGVIVKUPTTR[ RTTWLYHZG\\F]F_G`I`K_P]W]Z^[_[aZbYdV",
+  "   78 32G]LMJLIJIIJGLFMFOGPIPKOPNTL[ RNTQLSHTGVFXFZG[I[KZPXWXZY[Z[\\Z]Y_V",
+  "   79 29G]SFPGNILLKNJRJVKYLZN[P[SZUXWUXSYOYKXHWGUFSFQHQKRNTQVSYU[V",
+  "   80 31E_RHSISLRPQSPUNXLZJ[I[HZHWIRJOKMMJOHQGTFYF[G\\H]J]M\\O[PYQVQTPSO",
+  "   81 32F^SLRNQOOPMPLNLLMIOGRFUFWGXIXMWPUSQWNYLZI[G[FZFXGWIWKXNZQ[T[WZYX",
+  "   82 38E_RHSISLRPQSPUNXLZJ[I[HZHWIRJOKMMJOHQGTFXFZG[H\\J\\M[OZPXQUQRPSQTSTXUZW[YZZY\\V",
+  "   83 28H\\H[JZLXOTQQSMTJTGSFRFQGPIPKQMSOVQXSYUYWXYWZT[P[MZKXJVJT",
+  "   84 25I[SLQLOKNIOGRFUFYG\\G^F RYGWNUTSXQZO[M[KZJXJVKUMUOV",
+  "   85 33G]LMJLIJIIJGLFMFOGPIPKOONRMVMXNZP[R[TZUYWUZM\\F RZMYQXWXZY[Z[\\Z]Y_V",
+  "   86 32G]LMJLIJIIJGLFMFOGPIPKOONRMVMYN[P[RZUWWTYPZM[I[GZFYFXGWIWKXNZP\\Q",
+  "   87 25E_JMHLGJGIHGJFKFMGNINLM[ RWFM[ RWFU[ RcFaG^J[NXTU[",
+  "   88 36F^NLLLKKKILGNFPFRGSISLQUQXRZT[V[XZYXYVXUVU R]I]G\\FZFXGVITLPUNXLZJ[H[GZGX",
+  "   89 38G]LMJLIJIIJGLFMFOGPIPKOONRMVMXNZO[Q[SZUXWUXSZM R\\FZMWWU]SbQfOgNfNdOaQ^T[WY\\V",
+  "   90 40G]TLSNROPPNPMNMLNIPGSFVFXGYIYMXPVTSWOZM[J[IZIXJWMWOXPYQ[Q^PaOcMfKgJfJdKaM^P[SYYV",
+  "   91 12KYOBOb RPBPb ROBVB RObVb",
+  "   92  3KYKFY^",
+  "   93 12KYTBTb RUBUb RNBUB RNbUb",
+  "   94 11JZPLRITL RMORJWO RRJR[",
+  "   95  3JZJ]Z]",
+  "   96  8LXUFSHRJRKSLTKSJ",
+  "   97 22H\\QUPSNRLRJSITHVHXIZK[M[OZPXRRQWQZR[S[UZVYXV",
+  "   98 23I[IVKSNNOLPIPGOFMGLIKMJTJZK[L[NZPXQUQRRVSWUWWV",
+  "   99 14LXSTSSRRPRNSMTLVLXMZO[R[UYWV",
+  "  100 24H\\QUPSNRLRJSITHVHXIZK[M[OZPXVF RRRQWQZR[S[UZVYXV",
+  "  101 17LXMYOXPWQUQSPRORMSLULXMZO[Q[SZTYVV",
+  "  102 24MWMVQQSNTLUIUGTFRGQIOQLZIaHdHfIgKfLcMZN[P[RZSYUV",
+  "  103 28I[RUQSORMRKSJTIVIXJZL[N[PZQY RSRQYMdLfJgIfIdJaM^P\\R[UYXV",
+  "  104 29H\\HVJSMNNLOIOGNFLGKIJMISH[ RH[IXJVLSNRPRQSQUPXPZQ[R[TZUYWV",
+  "  105 16MWPMPNQNQMPM RMVORMXMZN[O[QZRYTV",
+  "  106 20MWPMPNQNQMPM RMVORIdHfFgEfEdFaI^L\\N[QYTV",
+  "  107 33I[IVKSNNOLPIPGOFMGLIKMJSI[ RI[JXKVMSORQRRSRUPVMV RMVOWPZQ[R[TZUYWV",
+  "  108 18MWMVOSRNSLTITGSFQGPIOMNTNZO[P[RZSYUV",
+  "  109 33F^FVHSJRKSKTJXI[ RJXKVMSORQRRSRTQXP[ RQXRVTSVRXRYSYUXXXZY[Z[\\Z]Y_V",
+  "  110 23H\\HVJSLRMSMTLXK[ RLXMVOSQRSRTSTUSXSZT[U[WZXYZV",
+  "  111 23JZPRNRLSKTJVJXKZM[O[QZRYSWSURSPROSOUPWRXUXWWXV",
+  "  112 24JZJVLSMQLUFg RLUMSORQRSSTUTWSYRZP[ RLZN[Q[TZVYYV",
+  "  113 27I[RUQSORMRKSJTIVIXJZL[N[PZ RSRRUPZMaLdLfMgOfPcP\\R[UYXV",
+  "  114 15JZJVLSMQMSPSQTQVPYPZQ[R[TZUYWV",
+  "  115 16KYKVMSNQNSPVQXQZO[ RKZM[Q[SZTYVV",
+  "  116 16LXLVNSPO RSFMXMZN[P[RZSYUV RMNTN",
+  "  117 19I[IVKRIXIZJ[L[NZPXRU RSRQXQZR[S[UZVYXV",
+  "  118 17I[IVKRJWJZK[L[OZQXRURR RRRSVTWVWXV",
+  "  119 25F^IRGTFWFYG[I[KZMX RORMXMZN[P[RZTXUUUR RURVVWWYW[V",
+  "  120 20JZJVLSNRPRQSQZR[U[XYZV RWSVRTRSSOZN[L[KZ",
+  "  121 23I[IVKRIXIZJ[L[NZPXRU RSRMdLfJgIfIdJaM^P\\R[UYXV",
+  "  122 23JZJVLSNRPRRTRVQXOZL[N\\O^OaNdMfKgJfJdKaN^Q\\UYXV",
+  "  123 40KYTBRCQDPFPHQJRKSMSOQQ RRCQEQGRISJTLTNSPORSTTVTXSZR[Q]Q_Ra RQSSUSWRYQZP\\P^Q`RaTb",
+  "  124  3NVRBRb",
+  "  125 40KYPBRCSDTFTHSJRKQMQOSQ RRCSESGRIQJPLPNQPURQTPVPXQZR[S]S_Ra RSSQUQWRYSZT\\T^S`RaPb",
+  "  126 24F^IUISJPLONOPPTSVTXTZS[Q RISJQLPNPPQTTVUXUZT[Q[O",
+].join("\n");
@@ -0,0 +1,112 @@
+// The Hershey Fonts were originally created by Dr. A. V. Hershey while working at the U. S.
+// National Bureau of Standards.
+// The format of the Font data in this distribution was originally created by
+//   James Hurt
+//   Cognition, Inc.
+//   900 Technology Park Drive
+//   Billerica, MA 01821
+//   (mit-eddie!ci-dandelion!hurt)
+
+/**
+ * The Roman complex Hershey font, in the JHF format, with the glyphs of the ASCII characters
+ * from space to tilde.
+ *
+ * The left and right bounds of the glyphs are reconstructed as symmetric.
+ */
+export const jhf = [
+  "   32  1JZ",
+  "   33 15MWRFQHRTSHRF RRHRN RRYQZR[SZRY",
+  "   34 22I[NFMGMM RNGMM RNFOGMM RWFVGVM RWGVM RWFXGVM",
+  "   35 12G]RBKb RXBQb RKOYO RJUXU",
+  "   36 42H\\PBP_ RTBT_ RXIWJXKYJYIWGTFPFMGKIKKLMMNOOUQWRYT RKKMMONUPWQXRYTYXWZT[P[MZKXKWLVMWLX",
+  "   37 32F^[FI[ RNFPHPJOLMMKMIKIIJGLFNFPGSHVHYG[F RWTUUTWTYV[X[ZZ[X[VYTWT",
+  "   38 49E_ZNYOZP[O[NZMYMXNWPUUSXQZO[L[IZHXHUISOOQMRKRIQGOFMGLILKMNOQTXVZY[Z[[Z[Y RL[JZIXIUJSLQ RLKMMUXWZY[",
+  "   39  6NVRFQM RSFQM",
+  "   40 20KYVBTDRGPKOPOTPYR]T`Vb RTDRHQKPPPTQYR\\T`",
+  "   41 20KYNBPDRGTKUPUTTYR]P`Nb RPDRHSKTPTTSYR\\P`",
+  "   42  9JZRLRX RMOWU RWOMU",
+  "   43  6E_RIR[ RIR[R",
+  "   44  8NVSWRXQWRVSWSYQ[",
+  "   45  3E_IR[R",
+  "   46  6NVRVQWRXSWRV",
+  "   47  3G][BIb",
+  "   48 40H\\QFNGLJKOKRLWNZQ[S[VZXWYRYOXJVGSFQF RQFOGNHMJLOLRMWNYOZQ[ RS[UZVYWWXRXOWJVHUGSF",
+  "   49 11H\\NJPISFS[ RRGR[ RN[W[",
+  "   50 45H\\LJMKLLKKKJLHMGPFTFWGXHYJYLXNUPPRNSLUKXK[ RTFVGWHXJXLWNTPPR RKYLXNXSZVZXYYX RNXS[W[XZYXYV",
+  "   51 47H\\LJMKLLKKKJLHMGPFTFWGXIXLWNTOQO RTFVGWIWLVNTO RTOVPXRYTYWXYWZT[P[MZLYKWKVLUMVLW RWQXTXWWYVZT[",
+  "   52 13H\\THT[ RUFU[ RUFJUZU RQ[X[",
+  "   53 39H\\MFKP RKPMNPMSMVNXPYSYUXXVZS[P[MZLYKWKVLUMVLW RSMUNWPXSXUWXUZS[ RMFWF RMGRGWF",
+  "   54 48H\\WIVJWKXJXIWGUFRFOGMILKKOKULXNZQ[S[VZXXYUYTXQVOSNRNOOMQLT RRFPGNIMKLOLUMXOZQ[ RS[UZWXXUXTWQUOSN",
+  "   55 31H\\KFKL RKJLHNFPFUIWIXHYF RLHNGPGUI RYFYIXLTQSSRVR[ RXLSQRSQVQ[",
+  "   56 63H\\PFMGLILLMNPOTOWNXLXIWGTFPF RPFNGMIMLNNPO RTOVNWLWIVGTF RPOMPLQKSKWLYMZP[T[WZXYYWYSXQWPTO RPONPMQLSLWMYNZP[ RT[VZWYXWXSWQVPTO",
+  "   57 48H\\XMWPURRSQSNRLPKMKLLINGQFSFVGXIYLYRXVWXUZR[O[MZLXLWMVNWMX RQSORMPLMLLMIOGQF RSFUGWIXLXRWVVXTZR[",
+  "   58 12NVROQPRQSPRO RRVQWRXSWRV",
+  "   59 14NVROQPRQSPRO RSWRXQWRVSWSYQ[",
+  "   60  4F^ZIJRZ[",
+  "   61  6E_IO[O RIU[U",
+  "   62  4F^JIZRJ[",
+  "   63 32I[MJNKMLLKLJMHNGPFSFVGWHXJXLWNVORQRT RSFUGVHWJWLVNTP RRYQZR[SZRY",
+  "   64 56D`VNULSKPKNLMMLPLSMUOVRVTUUS RPKNMMPMSNUOV RVKUSUUWVYV[T\\Q\\O[LZJXHVGSFPFMGKHIJHLGOGRHUIWKYMZP[S[VZXYYX RWKVSVUWV",
+  "   65 18H\\RFK[ RRFY[ RRIX[ RMUVU RI[O[ RU[[[",
+  "   66 45G]LFL[ RMFM[ RIFUFXGYHZJZLYNXOUP RUFWGXHYJYLXNWOUP RMPUPXQYRZTZWYYXZU[I[ RUPWQXRYTYWXYWZU[",
+  "   67 32H\\YIZLZFYIWGTFRFOGMILKKNKSLVMXOZR[T[WZYXZV RRFPGNIMKLNLSMVNXPZR[",
+  "   68 30G]LFL[ RMFM[ RIFSFVGXIYKZNZSYVXXVZS[I[ RSFUGWIXKYNYSXVWXUZS[",
+  "   69 22H\\MFM[ RNFN[ RTLTT RJFZFZLYF RNPTP RJ[Z[ZUY[",
+  "   70 20I[NFN[ ROFO[ RULUT RKF[F[LZF ROPUP RK[R[",
+  "   71 40F^WIXLXFWIUGRFPFMGKIJKINISJVKXMZP[R[UZWX RPFNGLIKKJNJSKVLXNZP[ RWSW[ RXSX[ RTS[S",
+  "   72 27F^KFK[ RLFL[ RXFX[ RYFY[ RHFOF RUF\\F RLPXP RH[O[ RU[\\[",
+  "   73 12LXQFQ[ RRFR[ RNFUF RN[U[",
+  "   74 20JZTFTWSZQ[O[MZLXLVMUNVMW RSFSWRZQ[ RPFWF",
+  "   75 27H\\MFM[ RNFN[ R[FNS RSO[[ RROZ[ RJFQF RWF]F RJ[Q[ RW[][",
+  "   76 14I[NFN[ ROFO[ RKFRF RK[Z[ZUY[",
+  "   77 30E_JFJ[ RKFQX RJFQ[ RXFQ[ RXFX[ RYFY[ RGFKF RXF\\F RG[M[ RU[\\[",
+  "   78 21F^KFK[ RLFXY RLHX[ RXFX[ RHFLF RUF[F RH[N[",
+  "   79 44G]QFNGLIKKJOJRKVLXNZQ[S[VZXXYVZRZOYKXIVGSFQF RQFOGMILKKOKRLVMXOZQ[ RS[UZWXXVYRYOXKWIUGSF",
+  "   80 29G]LFL[ RMFM[ RIFUFXGYHZJZMYOXPUQMQ RUFWGXHYJYMXOWPUQ RI[P[",
+  "   81 64G]QFNGLIKKJOJRKVLXNZQ[S[VZXXYVZRZOYKXIVGSFQF RQFOGMILKKOKRLVMXOZQ[ RS[UZWXXVYRYOXKWIUGSF RNYNXOVQURUTVUXV_W`Y`Z^Z] RUXV\\W^X_Y_Z^",
+  "   82 45G]LFL[ RMFM[ RIFUFXGYHZJZLYNXOUPMP RUFWGXHYJYLXNWOUP RI[P[ RRPTQURXYYZZZ[Y RTQUSWZX[Z[[Y[X",
+  "   83 34H\\XIYFYLXIVGSFPFMGKIKKLMMNOOUQWRYT RKKMMONUPWQXRYTYXWZT[Q[NZLXKUK[LX",
+  "   84 16H\\QFQ[ RRFR[ RKFJLJFYFYLXF RN[U[",
+  "   85 23F^KFKULXNZQ[S[VZXXYUYF RLFLUMXOZQ[ RHFOF RVF\\F",
+  "   86 15H\\KFR[ RLFRX RYFR[ RIFOF RUF[F",
+  "   87 24F^JFN[ RKFNV RRFN[ RRFV[ RSFVV RZFV[ RGFNF RWF]F",
+  "   88 21H\\KFX[ RLFY[ RYFK[ RIFOF RUF[F RI[O[ RU[[[",
+  "   89 20G]JFQQQ[ RKFRQR[ RYFRQ RHFNF RUF[F RN[U[",
+  "   90 16H\\XFK[ RYFL[ RLFKLKFYF RK[Y[YUX[",
+  "   91 12KYOBOb RPBPb ROBVB RObVb",
+  "   92  3KYKFY^",
+  "   93 12KYTBTb RUBUb RNBUB RNbUb",
+  "   94  8G]JTROZT RJTRPZT",
+  "   95  3H\\Hb\\b",
+  "   96  7LXPFUL RPFOGUL",
+  "   97 39G]LOLPKPKOLNNMRMTNUOVQVXWZX[ RUOUXVZX[Y[ RUQTRNSKTJVJXKZN[Q[SZUX RNSLTKVKXLZN[",
+  "   98 33H\\MFM[ RNFN[ RNPPNRMTMWNYPZSZUYXWZT[R[PZNX RTMVNXPYSYUXXVZT[ RJFNF",
+  "   99 28I[XPWQXRYQYPWNUMRMONMPLSLUMXOZR[T[WZYX RRMPNNPMSMUNXPZR[",
+  "  100 36G]VFV[ RWFW[ RVPTNRMPMMNKPJSJUKXMZP[R[TZVX RPMNNLPKSKULXNZP[ RSFWF RV[Z[",
+  "  101 31I[MSYSYQXOWNUMRMONMPLSLUMXOZR[T[WZYX RXSXPWN RRMPNNPMSMUNXPZR[",
+  "  102 22LXVGUHVIWHWGVFTFRGQIQ[ RTFSGRIR[ RNMVM RN[U[",
+  "  103 60H\\PMNNMOLQLSMUNVPWRWTVUUVSVQUOTNRMPM RNNMPMTNV RTVUTUPTN RUOVNXMXNVN RMULVKXKYL[O\\T\\W]X^ RKYLZO[T[W\\X^X_WaTbNbKaJ_J^K\\N[",
+  "  104 28G]LFL[ RMFM[ RMPONRMTMWNXPX[ RTMVNWPW[ RIFMF RI[P[ RT[[[",
+  "  105 18LXQFPGQHRGQF RQMQ[ RRMR[ RNMRM RN[U[",
+  "  106 25LXRFQGRHSGRF RSMS_RaPbNbMaM`N_O`Na RRMR_QaPb ROMSM",
+  "  107 27H\\MFM[ RNFN[ RXMNW RSSY[ RRSX[ RJFNF RUM[M RJ[Q[ RU[[[",
+  "  108 12LXQFQ[ RRFR[ RNFRF RN[U[",
+  "  109 44AcFMF[ RGMG[ RGPINLMNMQNRPR[ RNMPNQPQ[ RRPTNWMYM\\N]P][ RYM[N\\P\\[ RCMGM RC[J[ RN[U[ RY[`[",
+  "  110 28G]LML[ RMMM[ RMPONRMTMWNXPX[ RTMVNWPW[ RIMMM RI[P[ RT[[[",
+  "  111 36H\\QMNNLPKSKULXNZQ[S[VZXXYUYSXPVNSMQM RQMONMPLSLUMXOZQ[ RS[UZWXXUXSWPUNSM",
+  "  112 36H\\MMMb RNMNb RNPPNRMTMWNYPZSZUYXWZT[R[PZNX RTMVNXPYSYUXXVZT[ RJMNM RJbQb",
+  "  113 33H\\WMWb RXMXb RWPUNSMQMNNLPKSKULXNZQ[S[UZWX RQMONMPLSLUMXOZQ[ RTb[b",
+  "  114 23JZOMO[ RPMP[ RPSQPSNUMXMYNYOXPWOXN RLMPM RL[S[",
+  "  115 32I[VOWMWQVOUNSMOMMNLOLQMROSTUVVWW RLPMQORTTVUWVWYVZT[P[NZMYLWL[MY",
+  "  116 16JZOFOWPZR[T[VZWX RPFPWQZR[ RLMTM",
+  "  117 28G]LMLXMZP[R[UZWX RMMMXNZP[ RWMW[ RXMX[ RIMMM RTMXM RW[[[",
+  "  118 15I[LMR[ RMMRY RXMR[ RJMPM RTMZM",
+  "  119 24F^JMN[ RKMNX RRMN[ RRMV[ RSMVX RZMV[ RGMNM RWM]M",
+  "  120 21H\\LMW[ RMMX[ RXML[ RJMPM RTMZM RJ[P[ RT[Z[",
+  "  121 22I[MMS[ RNMSY RYMS[Q_OaMbLbKaL`Ma RKMQM RUM[M",
+  "  122 16I[WML[ RXMM[ RMMLQLMXM RL[X[XWW[",
+  "  123 40KYTBRCQDPFPHQJRKSMSOQQ RRCQEQGRISJTLTNSPORSTTVTXSZR[Q]Q_Ra RQSSUSWRYQZP\\P^Q`RaTb",
+  "  124  3NVRBRb",
+  "  125 40KYPBRCSDTFTHSJRKQMQOSQ RRCSESGRIQJPLPNQPURQTPVPXQZR[S]S_Ra RSSQUQWRYSZT\\T^S`RaPb",
+  "  126 24F^IUISJPLONOPPTSVTXTZS[Q RISJQLPNPPQTTVUXUZT[Q[O",
+].join("\n");
@@ -0,0 +1,273 @@
+import {getImageLightness} from './dithering.ts';
+import {createSVG} from './elements.ts';
+import {Image} from './images.ts';
+import {PartialSheetResolution, sheetResolutionFromPartial} from './options.ts';
+import {Path} from './path.ts';
+import {Segment, Subpath, subpathsToPathD, transformSubpaths} from './path_segments.ts';
+import {Point} from './point.ts';
+import {distanceToSegment, polygonSignedArea} from './polygons.ts';
+import {getImageData} from './svg_converter.ts';
+
+export interface PartialTracingOptions {
+  /**
+   * The lightness (from 0 to 255) below which the pixels are traced, with the transparent parts
+   * treated as white. Ignored when tracing multiple levels. Default: 128.
+   */
+  threshold?: number;
+  /** The area in pixels below which the traced specks and holes are removed. Default: 4. */
+  minArea?: number;
+  /** The maximum distance in pixels between the traced outline and the pixels. Default: 1. */
+  tolerance?: number;
+  /**
+   * How much the outline is rounded between the corners: 0 produces a polygon, 1 produces
+   * parabolic arcs through the midpoints of the polygon edges. Default: 1.
+   */
+  smoothing?: number;
+  /**
+   * The minimum angle by which the outline must turn at a vertex to form a sharp corner,
+   * instead of being smoothed. Default: 60.
+   */
+  cornerThresholdDeg?: number;
+  /**
+   * The resolution at which an Image is rendered for tracing.
+   * Default: the natural resolution of the image.
+   */
+  resolution?: PartialSheetResolution;
+}
+interface TracingOptions extends Required<Readonly<Omit<PartialTracingOptions, "resolution">>> {}
+function tracingOptionsFromPartial({
+  threshold = 128,
+  minArea = 4,
+  tolerance = 1,
+  smoothing = 1,
+  cornerThresholdDeg = 60,
+}: PartialTracingOptions): TracingOptions {
+  return {threshold, minArea, tolerance, smoothing, cornerThresholdDeg};
+}
+
+const DIRECTIONS: readonly Point[] = [[1, 0], [0, 1], [-1, 0], [0, -1]];
+
+/**
+ * Returns the closed loops of the pixel edges separating the dark pixels from the light pixels,
+ * as the lists of the points where the direction changes. The loops have the dark pixels
+ * on the right, so the outer loops are clockwise (as displayed) and the holes are
+ * counterclockwise.
+ * Diagonally adjacent dark pixels are treated as connected.
+ */
+function traceLoops(dark: Uint8Array, width: number, height: number) {
+  const isDark = (x: number, y: number) =>
+    x >= 0 && y >= 0 && x < width && y < height && dark[y * width + x] === 1;
+  const vertex = (x: number, y: number) => y * (width + 1) + x;
+  // The edges, encoded as 4 * vertex + direction, grouped by the starting vertex.
+  const outgoing = new Map<number, number[]>();
+  const addEdge = (x: number, y: number, direction: number) => {
+    const from = vertex(x, y);
+    let edges = outgoing.get(from);
+    if (!edges) {
+      edges = [];
+      outgoing.set(from, edges);
+    }
+    edges.push(4 * from + direction);
+  };
+  for (let y = 0; y < height; y++)
+    for (let x = 0; x < width; x++)
+      if (isDark(x, y)) {
+        if (!isDark(x, y - 1))
+          addEdge(x, y, 0);
+        if (!isDark(x + 1, y))
+          addEdge(x + 1, y, 1);
+        if (!isDark(x, y + 1))
+          addEdge(x + 1, y + 1, 2);
+        if (!isDark(x - 1, y))
+          addEdge(x, y + 1, 3);
+      }
+  const visited = new Set<number>();
+  const loops: Point[][] = [];
+  for (const edges of outgoing.values())
+    for (const startEdge of edges) {
+      if (visited.has(startEdge))
+        continue;
+      const loop: Point[] = [];
+      let edge = startEdge;
+      do {
+        visited.add(edge);
+        const from = edge >> 2;
+        const direction = edge & 3;
+        const [x, y] = [from % (width + 1), Math.floor(from / (width + 1))];
+        const [dx, dy] = DIRECTIONS[direction];
+        const next = outgoing.get(vertex(x + dx, y + dy))!;
+        // At a vertex shared by two diagonally adjacent dark pixels, turn left to stay
+        // on the boundary of the connected dark area.
+        const nextEdge = next.length === 1 ? next[0] :
+          next.find(e => (e & 3) === (direction + 3) % 4)!;
+        if ((nextEdge & 3) !== direction)
+          loop.push([x + dx, y + dy]);
+        edge = nextEdge;
+      } while (edge !== startEdge);
+      loops.push(loop);
+    }
+  return loops;
+}
+
+/**
+ * Simplifies the polyline using the Ramer-Douglas-Peucker algorithm. The last point is omitted
+ * from the result.
+ */
+function simplifyPolyline(points: readonly Point[], tolerance: number): Point[] {
+  let [maxDistance, maxIndex] = [0, 0];
+  for (let i = 1; i < points.length - 1; i++) {
+    const distance = distanceToSegment(points[i], points[0], points.at(-1)!);
+    if (distance > maxDistance)
+      [maxDistance, maxIndex] = [distance, i];
+  }
+  if (maxDistance <= tolerance)
+    return [points[0]];
+  return [
+    ...simplifyPolyline(points.slice(0, maxIndex + 1), tolerance),
+    ...simplifyPolyline(points.slice(maxIndex), tolerance),
+  ];
+}
+
+function simplifyPolygon(points: readonly Point[], tolerance: number) {
+  const [x0, y0] = points[0];
+  let farthest = 0;
+  for (let i = 1; i < points.length; i++)
+    if (Math.hypot(points[i][0] - x0, points[i][1] - y0) >
+      Math.hypot(points[farthest][0] - x0, points[farthest][1] - y0))
+      farthest = i;
+  return [
+    ...simplifyPolyline(points.slice(0, farthest + 1), tolerance),
+    ...simplifyPolyline([...points.slice(farthest), points[0]], tolerance),
+  ];
+}
+
+function midpoint([ax, ay]: Point, [bx, by]: Point): Point {
+  return [(ax + bx) / 2, (ay + by) / 2];
+}
+
+/**
+ * Returns a closed subpath going through the midpoints of the polygon edges, with the sharp
+ * corners preserved, and the other vertices smoothed out.
+ */
+function smoothPolygon(polygon: readonly Point[], {
+  smoothing,
+  cornerThresholdDeg,
+}: TracingOptions): Subpath {
+  const n = polygon.length;
+  const isCorner = polygon.map((point, i) => {
+    const [px, py] = polygon[(i + n - 1) % n];
+    const [nx, ny] = polygon[(i + 1) % n];
+    const turn =
+      Math.atan2(ny - point[1], nx - point[0]) - Math.atan2(point[1] - py, point[0] - px);
+    const turnDeg = Math.abs((turn * 180 / Math.PI + 540) % 360 - 180);
+    return !smoothing || turnDeg >= cornerThresholdDeg;
+  });
+  const segments: Segment[] = [];
+  const addLine = (from: Point, to: Point) => {
+    const last = segments.at(-1);
+    if (last?.type === "line" && polygonSignedArea([last.from, from, to]) === 0)
+      segments[segments.length - 1] = {type: "line", from: last.from, to};
+    else
+      segments.push({type: "line", from, to});
+  };
+  for (let i = 0; i < n; i++) {
+    const point = polygon[i];
+    const from = midpoint(polygon[(i + n - 1) % n], point);
+    const to = midpoint(point, polygon[(i + 1) % n]);
+    if (isCorner[i]) {
+      addLine(from, point);
+      addLine(point, to);
+    } else {
+      const toward = ([x, y]: Point): Point =>
+        [x + smoothing * 2 / 3 * (point[0] - x), y + smoothing * 2 / 3 * (point[1] - y)];
+      segments.push({type: "cubic", from, control1: toward(from), control2: toward(to), to});
+    }
+  }
+  return {start: segments[0].from, segments, closed: true};
+}
+
+/** Traces the dark areas of the lightness map, returning subpaths in pixel coordinates. */
+function traceLightness(lightness: Float32Array, {width, height}: ImageData,
+  threshold: number, options: TracingOptions) {
+  const dark = new Uint8Array(lightness.length);
+  for (let i = 0; i < lightness.length; i++)
+    dark[i] = Number(lightness[i] < threshold);
+  return traceLoops(dark, width, height)
+    .filter(loop => Math.abs(polygonSignedArea(loop)) >= options.minArea)
+    .map(loop => simplifyPolygon(loop, options.tolerance))
+    .filter(polygon => polygon.length >= 3)
+    .map(polygon => smoothPolygon(polygon, options));
+}
+
+/**
+ * Returns the pixels of the source, and the matrix transforming the pixel coordinates to
+ * the coordinates of the source. An Image is rendered in the browser, at the specified
+ * resolution, or at its natural resolution.
+ */
+async function sourceImageData(source: Image | ImageData, resolution?: PartialSheetResolution) {
+  if (!(source instanceof Image))
+    return {imageData: source, matrix: undefined};
+  const box = source.getBoundingBox();
+  let pixelsPerUnit;
+  if (resolution)
+    ({pixelsPerUnit} = sheetResolutionFromPartial(resolution));
+  else {
+    const img = document.createElement("img");
+    img.src = source.getURL();
+    await img.decode();
+    pixelsPerUnit = Math.max(img.naturalWidth / box.width, img.naturalHeight / box.height);
+  }
+  const imageData = await getImageData(createSVG({
+    viewBox: box,
+    children: [source.getDefsElement(), source.asG()],
+  }), {pixelsPerUnit, allowTransparency: true});
+  return {
+    imageData,
+    matrix: [
+      box.width / imageData.width, 0,
+      0, box.height / imageData.height,
+      box.minX, box.minY,
+    ] as const,
+  };
+}
+
+async function traceLevels(source: Image | ImageData, thresholds: readonly number[],
+  partialOptions: PartialTracingOptions) {
+  const options = tracingOptionsFromPartial(partialOptions);
+  const {imageData, matrix} = await sourceImageData(source, partialOptions.resolution);
+  const lightness = getImageLightness(imageData);
+  return thresholds.map(threshold => {
+    const subpaths = traceLightness(lightness, imageData, threshold, options);
+    return Path.fromD(subpathsToPathD(matrix ? transformSubpaths(subpaths, matrix) : subpaths));
+  });
+}
+
+/**
+ * Traces the dark areas of the image into a Path consisting of closed outlines, which can be
+ * cut or scored. The holes have the opposite direction to the outer outlines.
+ *
+ * The source can be an Image, which is rendered in the browser and traced in its coordinates,
+ * or the raw ImageData, which is traced in the pixel coordinates (also in the headless mode).
+ */
+export async function traceImage(source: Image | ImageData,
+  options: PartialTracingOptions = {}): Promise<Path> {
+  const {threshold} = tracingOptionsFromPartial(options);
+  const [path] = await traceLevels(source, [threshold], options);
+  return path;
+}
+
+/**
+ * Traces the image at multiple lightness levels, returning the Path for each threshold,
+ * starting from the darkest one. The areas traced at each threshold contain the areas traced
+ * at the darker thresholds.
+ *
+ * The levels can be specified as the list of thresholds (from 0 to 255), or the number
+ * of equally spaced thresholds.
+ */
+export async function traceImageLevels(source: Image | ImageData,
+  levels: number | readonly number[], options: PartialTracingOptions = {}): Promise<Path[]> {
+  const thresholds = typeof levels === "number" ?
+    Array.from({length: levels}, (_, i) => 256 * (i + 1) / (levels + 1)) :
+    [...levels].sort((a, b) => a - b);
+  return await traceLevels(source, thresholds, options);
+}
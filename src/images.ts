@@ -90,6 +90,11 @@ export class Image extends DefaultPiece {
     return Image.fromImage(this.image, {scaling});
   }
 
+  /** Returns the URL of the image, usually a data URI. */
+  getURL() {
+    return this.image.getAttribute("href") || "";
+  }
+
 }
 
 function applyImageScalingAttributes(image: SVGImageElement, scaling: ImageScaling) {
@@ -1,7 +1,73 @@
 import {InterlockPattern, SlotsPattern, TabsPattern} from './interlock_patterns.ts';
 import * as kerfUtil from './kerf_util.ts';
 import {Kerf} from './kerf_util.ts';
+import {Point} from './point.ts';
 import {Turtle, TurtleFunc} from './turtle.ts';
+import {sinCos} from './util.ts';
+
+/**
+ * The shape of the tabs:
+ * - `"rectangle"` - regular rectangular tabs,
+ * - dovetail - trapezoidal tabs, wider at their ends, locking the joined pieces in the plane
+ *   of the material,
+ * - snap-fit - cantilever clips, each made of two prongs separated by a relief cut, with hooks
+ *   that catch behind the slot in the other piece.
+ *
+ * The shapes other than rectangle are applied only to the tabs between two inner edges
+ * of the pattern, and not to the tabs cut by the start or the end of the edge. The corner radii
+ * are not applied to them.
+ * @see {@link matchingTabShape}
+ */
+export type TabShape = "rectangle" | DovetailTabShape | SnapFitTabShape;
+
+export interface DovetailTabShape {
+  readonly kind: "dovetail";
+  /**
+   * The angle between the sides of the tabs and the perpendicular to the edge. The matching tabs
+   * of the other piece have the same angle.
+   */
+  readonly angleDeg: number;
+}
+
+export interface SnapFitTabShape {
+  readonly kind: "snapFit";
+  /** How much the hooks protrude to the sides of the tab. */
+  readonly hookDepth: number;
+  /**
+   * The length of the sloped part of the hooks, which protrudes beyond the tab width.
+   * Default: the tab width.
+   */
+  readonly hookLength?: number;
+  /** The width of the relief cut between the prongs. Default: twice the hook depth. */
+  readonly reliefWidth?: number;
+  /** How far below the base line the relief cut goes. Default: the tab width. */
+  readonly reliefDepth?: number;
+}
+
+/** Returns the shape of the tabs that fit the tabs of the specified shape. */
+export function matchingTabShape(tabShape: TabShape): TabShape {
+  if (tabShape === "rectangle")
+    return tabShape;
+  switch (tabShape.kind) {
+    case "dovetail":
+      return tabShape;
+    case "snapFit":
+      return "rectangle";
+    default:
+      return tabShape satisfies never;
+  }
+}
+
+/** The dimensions of a bolt and its nut, used in the t-slot joints. */
+export interface BoltSpec {
+  /** The diameter of the shaft. */
+  readonly diameter: number;
+  /** The length of the shaft, not including the head. */
+  readonly length: number;
+  /** The width of the nut, across the flats. */
+  readonly nutWidth: number;
+  readonly nutThickness: number;
+}
 
 export interface PartialTabsOptions {
   /** Kerf correction, affecting connection tightness. */
@@ -19,6 +85,16 @@ export interface PartialTabsOptions {
    * due to tension, like acrylic.
    */
   innerCornersRadius?: number;
+  /** Default: `"rectangle"`. */
+  tabShape?: TabShape;
+  /**
+   * The bolt of the t-slot joints. If specified, a t-shaped cut-out for the bolt and its captive
+   * nut is made in the middle of each base segment between two tabs, going into the material.
+   * The nut is placed so that the bolt passes through it by half of its thickness, assuming
+   * that the thickness of the other piece is equal to the tab width.
+   * The matching holes are made by the slots with the same bolt specified.
+   */
+  bolt?: BoltSpec | false;
 }
 export interface TabsOptions extends Readonly<Required<PartialTabsOptions>> {}
 export function tabsOptionsFromPartial({
@@ -27,6 +103,8 @@ export function tabsOptionsFromPartial({
   tabsDir,
   outerCornersRadius = 0,
   innerCornersRadius = 0,
+  tabShape = "rectangle",
+  bolt = false,
 }: PartialTabsOptions): TabsOptions {
   return {
     kerf,
@@ -34,6 +112,8 @@ export function tabsOptionsFromPartial({
     tabsDir,
     outerCornersRadius,
     innerCornersRadius,
+    tabShape,
+    bolt,
   };
 }
 
@@ -52,18 +132,25 @@ export interface PartialSlotsOptions {
    * due to tension, like acrylic.
    */
   innerCornersRadius?: number;
+  /**
+   * The bolt of the t-slot joints. If specified, a hole for the bolt is made in the middle of each
+   * gap between two slots.
+   */
+  bolt?: BoltSpec | false;
 }
 export interface SlotsOptions extends Readonly<Required<PartialSlotsOptions>> {
   readonly kerf: Kerf;
   readonly slotWidth: number;
   readonly slotWidthKerf: Kerf;
   readonly innerCornersRadius: number;
+  readonly bolt: BoltSpec | false;
 }
 export function slotsOptionsFromPartial({
   kerf,
   slotWidth,
   slotWidthKerf: wKerfInput = true,
   innerCornersRadius = 0,
+  bolt = false,
 }: PartialSlotsOptions): SlotsOptions {
   const slotWidthKerf = wKerfInput === true ? kerf : wKerfInput || kerfUtil.ZERO;
   return {
@@ -71,6 +158,7 @@ export function slotsOptionsFromPartial({
     slotWidth,
     slotWidthKerf,
     innerCornersRadius,
+    bolt,
   };
 }
 
@@ -236,6 +324,56 @@ function arcTurn(t: Turtle, rSign: number, rVal: number, d: number) {
     return t.left(90 * d).arcRight(270 * d, rVal * d).left(90 * d);
 }
 
+/** Returns the point at the specified distances forward and to the right of the Turtle. */
+function relativePoint(t: Turtle, forward: number, right: number): Point {
+  const [sin, cos] = sinCos(t.angleDeg);
+  return [t.pos[0] + forward * sin + right * cos, t.pos[1] - forward * cos + right * sin];
+}
+
+/** Draws lines to the points specified as `[forward, right]` relative to the Turtle. */
+function linesRelative(t: Turtle, points: readonly Point[]) {
+  const origin = t;
+  for (const [forward, right] of points)
+    t = t.goTo(relativePoint(origin, forward, right));
+  return t;
+}
+
+function isInnerActiveEdge(item: ProgressionItem | undefined) {
+  return item?.kind === "activeEdge" && item.useKerf;
+}
+
+function getShaftWidth(bolt: BoltSpec, kerf: Kerf) {
+  return Math.max(0, bolt.diameter - 2 * kerf.oneSideInUnits);
+}
+
+/**
+ * Draws the t-shaped cut-out for the bolt and its nut, going to the specified side, with
+ * the shaft starting at the Turtle and extending forward.
+ */
+function turtleTSlot(t: Turtle, {bolt, tabWidth, kerf, side}: {
+  bolt: BoltSpec,
+  tabWidth: number,
+  kerf: Kerf,
+  side: number,
+}) {
+  const shaft = getShaftWidth(bolt, kerf);
+  const nutWidth = Math.max(0, bolt.nutWidth - 2 * kerf.oneSideInUnits);
+  const nutThickness = Math.max(0, bolt.nutThickness - 2 * kerf.oneSideInUnits);
+  const depth = bolt.length - tabWidth;
+  const nutFrom = depth - 1.5 * bolt.nutThickness + kerf.oneSideInUnits;
+  if (nutFrom < 0)
+    throw new Error(`The bolt is too short for the t-slot: ${JSON.stringify(bolt)}`);
+  const wing = (nutWidth - shaft) / 2;
+  const rest = depth - nutFrom - nutThickness;
+  const r = 90 * side;
+  return t
+    .right(r).forward(nutFrom)
+    .right(r).forward(wing).left(r).forward(nutThickness).left(r).forward(wing)
+    .right(r).forward(rest).left(r).forward(shaft).left(r).forward(rest)
+    .right(r).forward(wing).left(r).forward(nutThickness).left(r).forward(wing)
+    .right(r).forward(nutFrom).right(r);
+}
+
 const TURTLE_TABS_BASE_FUNC: TurtleFunc<[TabsArgs]> = (t, {
   pattern,
   onTabLevel = false,
@@ -243,7 +381,7 @@ const TURTLE_TABS_BASE_FUNC: TurtleFunc<[TabsArgs]> = (t, {
   endOnTab = onTabLevel,
   options,
 }) => {
-  const {kerf, tabWidth, outerCornersRadius, innerCornersRadius} =
+  const {kerf, tabWidth, outerCornersRadius, innerCornersRadius, tabShape, bolt} =
     tabsOptionsFromPartial(options);
   const progression = patternProgression({
     pattern: pattern.pattern,
@@ -253,6 +391,8 @@ const TURTLE_TABS_BASE_FUNC: TurtleFunc<[TabsArgs]> = (t, {
   const dirNum = options.tabsDir === "right" ? 1 :
     options.tabsDir === "left" ? -1 :
       options.tabsDir satisfies never;
+  // The length of the next segment that was already drawn together with the previous one.
+  let drawnAhead = 0;
   for (let i = 0; i + 2 < progression.length; i++) {
     const [prev, curr, next] = progression.slice(i, i + 3);
     if (curr.kind === "forward") {
@@ -261,24 +401,90 @@ const TURTLE_TABS_BASE_FUNC: TurtleFunc<[TabsArgs]> = (t, {
       if (next.kind === "boundary")
         t = t.forward(curr.length / 2);
     } else if (curr.kind === "activeEdge") {
+      // A snap-fit tab must be drawn as a whole, so both its edges need to be inner.
+      const shape = !curr.useKerf ? "rectangle" :
+        tabShape !== "rectangle" && tabShape.kind === "snapFit" &&
+          !isInnerActiveEdge(progression[curr.newActive ? i + 3 : i - 1]) ? "rectangle" :
+          tabShape;
+      const dovetailRad =
+        shape !== "rectangle" && shape.kind === "dovetail" ? shape.angleDeg / 180 * Math.PI : 0;
       const kerfCorrection = curr.useKerf ?
-        kerf.oneSideInUnits * (curr.newActive ? -1 : 1) : 0;
-      const preLen = (prev.kind === "forward" ? prev.length / 2 : 0) + kerfCorrection;
-      const postLen = (next.kind === "forward" ? next.length / 2 : 0) - kerfCorrection;
+        kerf.oneSideInUnits / Math.cos(dovetailRad) * (curr.newActive ? -1 : 1) : 0;
+      let preLen = (prev.kind === "forward" ? prev.length / 2 : 0) + kerfCorrection;
+      let postLen = (next.kind === "forward" ? next.length / 2 : 0) - kerfCorrection;
       if (preLen < 0 || postLen < 0)
         throw new Error(`Kerf too big, negative edge`);
-      const radii = curr.useKerf ? [-innerCornersRadius, outerCornersRadius] : [0, 0];
-      if (!curr.newActive)
-        radii.reverse();
-      const neighs = [prev, next];
-      const [[r1Sign, r1Val], [r2Sign, r2Val]] = radii.map((r, ri) =>
-        signAbs(neighs[ri].kind === "boundary" ? 0 : r));
+      preLen -= drawnAhead;
+      drawnAhead = 0;
+      const tSlot =
+        bolt && !curr.newActive && curr.useKerf && isInnerActiveEdge(progression[i + 3]);
+      if (tSlot)
+        postLen -= getShaftWidth(bolt, kerf) / 2;
       const d = dirNum * (curr.newActive ? 1 : -1);
-      t = t.forward(preLen - r1Val)
-        .andThen(arcTurn, r1Sign, r1Val, d)
-        .forward(tabWidth - r1Val - r2Val)
-        .andThen(arcTurn, r2Sign, r2Val, -d)
-        .forward(postLen - r2Val);
+      if (shape === "rectangle") {
+        if (preLen < 0 || postLen < 0)
+          throw new Error(`The base segment is too short for the t-slot`);
+        const radii = curr.useKerf ? [-innerCornersRadius, outerCornersRadius] : [0, 0];
+        if (!curr.newActive)
+          radii.reverse();
+        const neighs = [prev, next];
+        const [[r1Sign, r1Val], [r2Sign, r2Val]] = radii.map((r, ri) =>
+          signAbs(neighs[ri].kind === "boundary" ? 0 : r));
+        t = t.forward(preLen - r1Val)
+          .andThen(arcTurn, r1Sign, r1Val, d)
+          .forward(tabWidth - r1Val - r2Val)
+          .andThen(arcTurn, r2Sign, r2Val, -d)
+          .forward(postLen - r2Val);
+      } else if (shape.kind === "dovetail") {
+        // The slanted side crosses the boundary of the pattern in the middle of the tab width,
+        // so that it fits the slanted side of the matching tabs.
+        const shift = tabWidth * Math.tan(dovetailRad) / 2;
+        preLen += shift;
+        postLen += shift;
+        if (preLen < 0 || postLen < 0)
+          throw new Error(`The segments are too short for the dovetail angle`);
+        const turn = d * (90 + shape.angleDeg);
+        t = t.forward(preLen)
+          .right(turn).forward(tabWidth / Math.cos(dovetailRad)).right(-turn)
+          .forward(postLen);
+      } else if (shape.kind === "snapFit") {
+        const {
+          hookDepth,
+          hookLength = tabWidth,
+          reliefWidth = 2 * hookDepth,
+          reliefDepth = tabWidth,
+        } = shape;
+        const top = tabWidth + hookLength;
+        if (curr.newActive) {
+          const tipLen = postLen - reliefWidth / 2;
+          if (preLen < 0 || tipLen < 0)
+            throw new Error(`The tabs are too short for the snap-fit relief`);
+          t = t.forward(preLen).andThen(linesRelative, ([
+            [0, tabWidth],
+            [-hookDepth, tabWidth],
+            [0, top],
+            [tipLen, top],
+            [tipLen, -reliefDepth],
+            [tipLen + reliefWidth, -reliefDepth],
+            [tipLen + reliefWidth, top],
+          ] as const).map(([f, r]) => [f, r * dirNum] as Point));
+          drawnAhead = reliefWidth / 2;
+        } else {
+          if (preLen < 0 || postLen < 0)
+            throw new Error(`The tabs are too short for the snap-fit relief`);
+          t = t.andThen(linesRelative, ([
+            [preLen, 0],
+            [preLen + hookDepth, -hookLength],
+            [preLen, -hookLength],
+            [preLen, -top],
+          ] as const).map(([f, r]) => [f, r * dirNum] as Point)).forward(postLen);
+        }
+      } else
+        return shape satisfies never;
+      if (tSlot) {
+        t = t.andThen(turtleTSlot, {bolt, tabWidth, kerf, side: -dirNum});
+        drawnAhead = getShaftWidth(bolt, kerf) / 2;
+      }
     }
   }
   return t;
@@ -303,7 +509,7 @@ const TURTLE_SLOTS_BASE_FUNC: TurtleFunc<[SlotsArgs]> = (t, {
   endOpen = open ?? pattern.endsWithOpenSlot(),
   options,
 }) => {
-  const {kerf, slotWidth, innerCornersRadius} = slotsOptionsFromPartial(options);
+  const {kerf, slotWidth, innerCornersRadius, bolt} = slotsOptionsFromPartial(options);
   const progression = patternProgression({
     pattern: pattern.pattern,
     startActive: startOpen,
@@ -350,6 +556,21 @@ const TURTLE_SLOTS_BASE_FUNC: TurtleFunc<[SlotsArgs]> = (t, {
         }
         return t;
       });
+    if (bolt) {
+      const radius = Math.max(0, bolt.diameter / 2 - kerf.oneSideInUnits);
+      let pos = 0;
+      for (let i = 0; i < progression.length; i++) {
+        const item = progression[i];
+        if (item.kind !== "forward")
+          continue;
+        if (!item.active && isInnerActiveEdge(progression[i - 1]) &&
+          isInnerActiveEdge(progression[i + 1])) {
+          const center = pos + item.length / 2;
+          t = t.branch(t => t.penUp().forward(center).penDown().circle(radius));
+        }
+        pos += item.length;
+      }
+    }
     return t;
   }).withPenUp(t =>
     t.forward(progression.reduce((s, i) => i.kind === "forward" ? s + i.length : s, 0)),
@@ -0,0 +1,103 @@
+import {Turtle, TurtleFuncArg} from './turtle.ts';
+
+/**
+ * The action executed for a symbol of an L-system. Values `"push"` and `"pop"` save and restore
+ * the state of the Turtle using its stack.
+ */
+export type LSystemAction = TurtleFuncArg | "push" | "pop";
+
+export interface LSystemArgs {
+  /** The initial word. Each character is a symbol. */
+  axiom: string;
+  /**
+   * The production rules. In each iteration, each symbol having a rule is replaced with
+   * the word specified by the rule, and the remaining symbols are left unchanged.
+   */
+  rules: Readonly<Record<string, string>>;
+  /** The number of iterations of the rules. */
+  depth: number;
+  /**
+   * The actions of the symbols, in addition to (or overriding) the default actions:
+   * - `F` - move forward by the step, drawing a line,
+   * - `f` - move forward by the step, without drawing,
+   * - `+` - turn left by the angle,
+   * - `-` - turn right by the angle,
+   * - `|` - turn back,
+   * - `[` - push the state,
+   * - `]` - pop the state.
+   *
+   * The symbols without an action are ignored when drawing.
+   */
+  actions?: Readonly<Record<string, LSystemAction>>;
+  /** The length of the default forward moves. Default: 1. */
+  step?: number;
+  /** The angle of the default turns. Default: 90. */
+  angleDeg?: number;
+  /** The key of the stack used by the push and pop actions. Default: the default stack. */
+  stackKey?: string | number;
+  /** The maximum length of the expanded word, protecting against runaway growth. Default: 1e6. */
+  maxLength?: number;
+}
+
+/** Returns the word of the L-system after the specified number of iterations of the rules. */
+export function lSystemWord({axiom, rules, depth, maxLength = 1e6}:
+  Pick<LSystemArgs, "axiom" | "rules" | "depth" | "maxLength">) {
+  let word = axiom;
+  for (let i = 0; i < depth; i++) {
+    const parts: string[] = [];
+    let length = 0;
+    for (const symbol of word) {
+      const part = Object.hasOwn(rules, symbol) ? rules[symbol] : symbol;
+      parts.push(part);
+      length += part.length;
+      if (length > maxLength)
+        throw new Error(`L-system word too long at iteration ${i + 1} (max ${maxLength})`);
+    }
+    word = parts.join("");
+  }
+  return word;
+}
+
+/**
+ * Draws the L-system with the Turtle. The word of the L-system is expanded to the specified
+ * depth, and then the action of each of its symbols is executed.
+ * @see https://en.wikipedia.org/wiki/L-system
+ *
+ * Example (Koch curve):
+ *
+ *     Turtle.create().setAngle(90).andThen(turtleLSystem, {
+ *       axiom: "F",
+ *       rules: {F: "F+F-F-F+F"},
+ *       depth: 3,
+ *     })
+ */
+export function turtleLSystem(t: Turtle, {
+  actions = {},
+  step = 1,
+  angleDeg = 90,
+  stackKey,
+  ...wordArgs
+}: LSystemArgs) {
+  const allActions: Readonly<Record<string, LSystemAction>> = {
+    "F": t => t.forward(step),
+    "f": t => t.withPenUp(t => t.forward(step)),
+    "+": t => t.left(angleDeg),
+    "-": t => t.right(angleDeg),
+    "|": t => t.turnBack(),
+    "[": "push",
+    "]": "pop",
+    ...actions,
+  };
+  for (const symbol of lSystemWord(wordArgs)) {
+    if (!Object.hasOwn(allActions, symbol))
+      continue;
+    const action = allActions[symbol];
+    if (action === "push")
+      t = t.push(stackKey);
+    else if (action === "pop")
+      t = t.pop(stackKey);
+    else
+      t = t.andThen(action);
+  }
+  return t;
+}
@@ -1,5 +1,11 @@
-import {PartialCutOptions, PartialPrintOptions, runIdFromPartial, RunOptions} from './options.ts';
-import {BasicSheetParams} from './sheet.ts';
+import {isHeadlessDOM} from './headless.ts';
+import {DitherOptions, ditherOptionsFromPartial, PartialCutOptions, PartialPrintOptions, runIdFromPartial, RunOptions} from './options.ts';
+import {getElementOutlines} from './outlines.ts';
+import {posterizeRun} from './posterize.ts';
+import {Subpath, toLinesAndCubics} from './path_segments.ts';
+import {Point} from './point.ts';
+import {BasicSheetParams, Sheet} from './sheet.ts';
+import {getPNGDataURI} from './svg_converter.ts';
 import {flatten, OrArray} from './util.ts';
 
 export interface PartialLightBurnCutOptions extends PartialCutOptions {
@@ -21,10 +27,30 @@ type PartialLightBurnHintPowerSpeed = {powerPercent?: number} &
 type PartialLightBurnCutHint = PartialLightBurnHintBase &
   (PartialLightBurnHintLink | PartialLightBurnHintPowerSpeed | {});
 
-type PartialLightBurnPrintHint = PartialLightBurnHintBase & {ditherMode?: string} &
-  (PartialLightBurnHintLink | PartialLightBurnHintPowerSpeed | {});
+type PartialLightBurnPrintHint = PartialLightBurnHintBase & {
+  ditherMode?: string,
+  /**
+   * The layers of the bands of a posterized run, starting from the darkest.
+   * Default: consecutive layers, starting from `layer`.
+   */
+  bandLayers?: readonly number[],
+} & (PartialLightBurnHintLink | PartialLightBurnHintPowerSpeed | {});
+
+/**
+ * How the print runs are included in the LightBurn project:
+ *  - `"bitmaps"` - each print run is rendered as a bitmap, placed on an Image layer
+ *    (requires the browser),
+ *  - `"shapes"` - the shapes from the print run are placed on a Fill layer (the texts and images
+ *    are skipped),
+ *  - `"auto"` - bitmaps if possible, shapes in the headless mode.
+ */
+export type LightBurnProjectPrints = "bitmaps" | "shapes" | "auto";
 
-export function lightBurnRuns(lbRuns: OrArray<PartialLightBurnRunOptions>) {
+export function lightBurnRuns(lbRuns: OrArray<PartialLightBurnRunOptions>, {
+  projectPrints = "auto",
+}: {
+  projectPrints?: LightBurnProjectPrints,
+} = {}) {
   function completeLink(type: RunOptions["type"], link: string) {
     const [a, b, c] = link.split("/");
     const bNum = Number(b);
@@ -33,14 +59,51 @@ export function lightBurnRuns(lbRuns: OrArray<PartialLightBurnRunOptions>) {
   }
   const hints: LightBurnHintImpl[] = [];
   const runs: PartialLightBurnRunOptions[] = [];
-  lbRuns = flatten(lbRuns);
+  lbRuns = flatten(lbRuns).flatMap(posterizeRun).map(run => {
+    if (run.type !== "print" || !run.grayBand || !run.lbHint)
+      return run;
+    // Each band is placed on its own layer, with the power scaled for the band.
+    const {bandLayers} = run.lbHint;
+    const {powerPercent} = run.lbHint as Partial<Record<string, unknown>>;
+    if (typeof powerPercent !== "number")
+      throw new Error(`Expected powerPercent in the LightBurn hint of the posterized run ` +
+        `${JSON.stringify(runIdFromPartial(run))}`);
+    let layer = run.lbHint.layer + run.grayBand.index;
+    if (bandLayers) {
+      if (bandLayers.length !== run.grayBand.count)
+        throw new Error(`Expected ${run.grayBand.count} bandLayers in the LightBurn hint ` +
+          `of the posterized run ${JSON.stringify(runIdFromPartial(run))}`);
+      layer = bandLayers[run.grayBand.index];
+    }
+    return {
+      ...run,
+      lbHint: {
+        ...run.lbHint,
+        layer,
+        powerPercent: powerPercent * run.grayBand.powerFactor,
+      },
+    };
+  });
+  // The layers of the bands have different settings, so they cannot be shared with other runs.
+  for (const run of lbRuns)
+    if (run.type === "print" && run.grayBand && run.lbHint) {
+      const {layer} = run.lbHint;
+      const other = lbRuns.find(other => other !== run && other.lbHint?.layer === layer);
+      if (other)
+        throw new Error(`The LightBurn layer ${layer} of the gray band run ` +
+          `${JSON.stringify(runIdFromPartial(run))} is also used by the run ` +
+          `${JSON.stringify(runIdFromPartial(other))}, specify bandLayers in the LightBurn hint`);
+    }
   for (let i = 0; i < lbRuns.length; i++) {
     const {lbHint, ...run} = lbRuns[i];
     if (lbHint) {
       const {link, powerPercent, speedMmPerSec, speedMmPerMin, ditherMode} =
         lbHint as Partial<Record<string, unknown>>;
+      const dither = run.type === "print" ? ditherOptionsFromPartial(run.dither) : undefined;
+      const isOneBit = dither?.enable || (run.type === "print" && run.grayBand !== undefined);
       const hint = LightBurnHintImpl.create({
         run: {type: run.type, id: runIdFromPartial(run)},
+        dither,
         lbLayer: lbHint.layer,
         priority: i,
         LinkPath: typeof link === "string" ? completeLink(run.type, link) : undefined,
@@ -48,7 +111,8 @@ export function lightBurnRuns(lbRuns: OrArray<PartialLightBurnRunOptions>) {
         speed: typeof speedMmPerSec === "number" ? speedMmPerSec :
           typeof speedMmPerMin === "number" ? speedMmPerMin / 60 :
             undefined,
-        ditherMode,
+        // The 1-bit bitmap produced by TPVector should be engraved as is.
+        ditherMode: ditherMode ?? (isOneBit ? "threshold" : undefined),
         ...lbHint.otherFields,
       });
       hints.push(hint);
@@ -65,6 +129,14 @@ export function lightBurnRuns(lbRuns: OrArray<PartialLightBurnRunOptions>) {
       const nonEmptyRunIds = new Set(sheet.getNonEmptyRunIds());
       const matchingHints = hints.filter(hint => nonEmptyRunIds.has(hint.run.id));
       return [
+        {
+          name: `LightBurn project`,
+          desc: `A LightBurn project with the geometry of the runs, placed on the configured ` +
+            `layers with their laser settings.\n` +
+            `Layers: ${matchingHints.map(h => h.run.id).join(", ")}`,
+          fileName: `${sheet.getFileName()}.lbrn2`,
+          data: () => createLightBurnProject({sheet, hints: matchingHints, projectPrints}),
+        },
         {
           name: `LightBurn layer settings`,
           desc: `An empty LightBurn project with just the configured laser settings for the used layers.\n` +
@@ -96,12 +168,14 @@ class LightBurnHintImpl implements LightBurnHint {
   protected constructor(
     readonly run: Pick<RunOptions, "type" | "id">,
     readonly lbLayer: number,
+    readonly dither: DitherOptions | undefined,
     readonly fields: ReadonlyMap<string, unknown>,
   ) {}
 
-  static create({run, lbLayer, ...rest}: {
+  static create({run, lbLayer, dither, ...rest}: {
     run: Pick<RunOptions, "type" | "id">,
     lbLayer: number,
+    dither?: DitherOptions,
     [key: string]: unknown,
   }) {
     const fields = new Map<string, unknown>();
@@ -109,7 +183,7 @@ class LightBurnHintImpl implements LightBurnHint {
     fields.set("name", run.id);
     for (const [key, value] of Object.entries(rest))
       fields.set(key, value);
-    return new LightBurnHintImpl(run, lbLayer, fields);
+    return new LightBurnHintImpl(run, lbLayer, dither, fields);
   }
 
   toString() {
@@ -118,9 +192,10 @@ class LightBurnHintImpl implements LightBurnHint {
 
 }
 
-function createLightBurnLayersConfig(hints: readonly LightBurnHintImpl[]) {
-  const data: Record<RunOptions["type"], Map<number, Map<string, unknown>>> =
-    {cut: new Map(), print: new Map()};
+type LayersFields = Record<RunOptions["type"], Map<number, Map<string, unknown>>>;
+
+function mergeLayersFields(hints: readonly LightBurnHintImpl[]): LayersFields {
+  const data: LayersFields = {cut: new Map(), print: new Map()};
   for (const {run: {type}, lbLayer, fields} of hints) {
     let joinedFields: Map<string, unknown> | undefined = data[type].get(lbLayer);
     if (!joinedFields) {
@@ -144,6 +219,10 @@ function createLightBurnLayersConfig(hints: readonly LightBurnHintImpl[]) {
       }
     }
   }
+  return data;
+}
+
+function cutSettingsXML(data: LayersFields, {printsAsBitmaps = true} = {}) {
   function xmlValues(fields: Map<string, unknown>) {
     return Array.from(fields, ([k, v]) => {
       if (!/^\w+$/.test(k))
@@ -156,15 +235,133 @@ function createLightBurnLayersConfig(hints: readonly LightBurnHintImpl[]) {
     }).join("\n    ");
   }
   return `\
-<?xml version="1.0" encoding="UTF-8"?>
-<LightBurnProject FormatVersion="1">
 ${Array.from(data.cut.values(), (fields) => `\
   <CutSetting type="Cut">
     ${xmlValues(fields)}
   </CutSetting>`).join("\n")}
-${Array.from(data.print.values(), (fields) => `\
+${Array.from(data.print.values(), (fields) => printsAsBitmaps ? `\
   <CutSetting_Img type="Image">
     ${xmlValues(fields)}
-  </CutSetting_Img>`).join("\n")}
+  </CutSetting_Img>` : `\
+  <CutSetting type="Scan">
+    ${xmlValues(fields)}
+  </CutSetting>`).join("\n")}`;
+}
+
+function createLightBurnLayersConfig(hints: readonly LightBurnHintImpl[]) {
+  return `\
+<?xml version="1.0" encoding="UTF-8"?>
+<LightBurnProject FormatVersion="1">
+${cutSettingsXML(mergeLayersFields(hints))}
+</LightBurnProject>`;
+}
+
+function lbNum(value: number) {
+  return String(Number(value.toFixed(4)));
+}
+
+/**
+ * Returns the XML of a LightBurn path shape. The vertices list contains the points with
+ * the optional control points: c0 leading to the next vertex, and c1 coming from the previous
+ * vertex. The primitives list specifies lines (L) and Bézier curves (B) between the vertices.
+ */
+function pathShapeXML({subpath: {start, segments, closed}, cutIndex, toMm}: {
+  subpath: Subpath,
+  cutIndex: number,
+  toMm: (point: Point) => Point,
+}) {
+  const curves = segments.flatMap(toLinesAndCubics);
+  if (!curves.length)
+    return undefined;
+  const last = curves.at(-1)!.to;
+  const closesAtStart = closed && last[0] === start[0] && last[1] === start[1];
+  interface Vert {
+    readonly point: Point;
+    c0?: Point;
+    c1?: Point;
+  }
+  const verts: Vert[] = [{point: start}];
+  const prims: string[] = [];
+  for (let i = 0; i < curves.length; i++) {
+    const curve = curves[i];
+    const fromIndex = verts.length - 1;
+    const isLast = i === curves.length - 1;
+    const toIndex = isLast && closesAtStart ? 0 : fromIndex + 1;
+    if (toIndex)
+      verts.push({point: curve.to});
+    if (curve.type === "cubic") {
+      verts[fromIndex].c0 = curve.control1;
+      verts[toIndex].c1 = curve.control2;
+      prims.push(`B${fromIndex} ${toIndex}`);
+    } else
+      prims.push(`L${fromIndex} ${toIndex}`);
+  }
+  const coords = (prefix: string, point: Point | undefined) => {
+    if (!point)
+      return "";
+    const [x, y] = toMm(point);
+    return `${prefix}x${lbNum(x)}${prefix}y${lbNum(y)}`;
+  };
+  const vertList = verts.map(({point, c0, c1}) => {
+    const [x, y] = toMm(point);
+    return `V${lbNum(x)} ${lbNum(y)}${coords("c0", c0)}${coords("c1", c1)}`;
+  }).join("");
+  return `\
+  <Shape Type="Path" CutIndex="${cutIndex}">
+    <XForm>1 0 0 1 0 0</XForm>
+    <VertList>${vertList}</VertList>
+    <PrimList>${prims.join("")}</PrimList>
+  </Shape>`;
+}
+
+/**
+ * Creates a LightBurn project (lbrn2) file with the configured layers and the geometry of
+ * the runs. The coordinates are in millimeters, with the Y axis pointing up, and the origin
+ * in the bottom left corner of the sheet.
+ */
+async function createLightBurnProject({sheet, hints, projectPrints}: {
+  sheet: Sheet,
+  hints: readonly LightBurnHintImpl[],
+  projectPrints: LightBurnProjectPrints,
+}) {
+  const printsAsBitmaps = projectPrints === "auto" ? !isHeadlessDOM() :
+    projectPrints === "bitmaps" ? true :
+      projectPrints === "shapes" ? false :
+        projectPrints satisfies never;
+  const {minX, minY, width, height} = sheet.viewBox;
+  const millimetersPerUnit = sheet.options.millimetersPerUnit ?? 1;
+  const toMm = ([x, y]: Point): Point =>
+    [(x - minX) * millimetersPerUnit, (minY + height - y) * millimetersPerUnit];
+  const shapes: string[] = [];
+  for (const {run, lbLayer, dither} of hints) {
+    const svg = await sheet.getLaserSVG({
+      grayBandsAsImages: printsAsBitmaps,
+      runsSelector: {runs: [run.id], cornersMarker: false, reversingFrame: false},
+    });
+    svg.querySelector(`[id="${run.id}-handle"]`)?.remove();
+    if (run.type === "print" && printsAsBitmaps) {
+      const {pixelsPerUnit} = sheet.options.resolution;
+      const dataURI = await getPNGDataURI(svg, {...sheet.options.resolution, dither});
+      const mmPerPixel = millimetersPerUnit / pixelsPerUnit;
+      const [centerX, centerY] = toMm([minX + width / 2, minY + height / 2]);
+      shapes.push(`\
+  <Shape Type="Bitmap" CutIndex="${lbLayer}" W="${Math.trunc(width * pixelsPerUnit)}" \
+H="${Math.trunc(height * pixelsPerUnit)}" Gamma="1" Contrast="0" Brightness="0" \
+EnhanceAmount="0" EnhanceRadius="0" EnhanceDenoise="0" File="" \
+Data="${dataURI.slice(dataURI.indexOf(",") + 1)}">
+    <XForm>${[mmPerPixel, 0, 0, mmPerPixel, centerX, centerY].map(lbNum).join(" ")}</XForm>
+  </Shape>`);
+    } else
+      for (const subpath of getElementOutlines(svg)) {
+        const shape = pathShapeXML({subpath, cutIndex: lbLayer, toMm});
+        if (shape)
+          shapes.push(shape);
+      }
+  }
+  return `\
+<?xml version="1.0" encoding="UTF-8"?>
+<LightBurnProject FormatVersion="1" MaterialHeight="0" MirrorX="False" MirrorY="False">
+${cutSettingsXML(mergeLayersFields(hints), {printsAsBitmaps})}
+${shapes.join("\n")}
 </LightBurnProject>`;
 }
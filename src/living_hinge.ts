@@ -0,0 +1,138 @@
+import {Piece} from './pieces.ts';
+import {Turtle} from './turtle.ts';
+
+/**
+ * The pattern of a living hinge:
+ * - `"straight"` - staggered columns of straight cuts, the cuts at the ends of every other column
+ *   open to the edges of the region,
+ * - `"serpentine"` - straight cuts open alternately to the opposite edges of the region, leaving
+ *   a single zig-zag strip of material, very flexible but weak,
+ * - `"lattice"` - staggered columns of slots with rounded ends, removing some material, which
+ *   allows for tighter bends in thick materials.
+ */
+export type LivingHingePattern = "straight" | "serpentine" | "lattice";
+
+export interface PartialLivingHingeOptions {
+  /** Default: `"straight"`. */
+  pattern?: LivingHingePattern;
+  /**
+   * The distance between the columns of cuts. It is adjusted so that the columns are distributed
+   * evenly. Default: the material thickness.
+   */
+  spacing?: number;
+  /**
+   * The approximate length of a single cut in the straight and lattice patterns. It is adjusted
+   * so that the cuts are distributed evenly. Default: ten material thicknesses.
+   */
+  cutLength?: number;
+  /** The length of the material between the cuts. Default: the material thickness. */
+  bridge?: number;
+  /** The width of the slots in the lattice pattern. Default: a third of the material thickness. */
+  slotWidth?: number;
+}
+
+export interface LivingHingeParams extends PartialLivingHingeOptions {
+  /** The length of the region along the bending direction, i.e. across the cuts. */
+  length: number;
+  /** The size of the region along the cuts. */
+  height: number;
+  materialThickness: number;
+}
+
+/**
+ * Returns the length of the flat material needed to bend it by the specified angle, with
+ * the specified inner radius. The neutral axis is assumed to be in the middle of the material.
+ */
+export function livingHingeLength({angleDeg, radius, materialThickness}: {
+  angleDeg: number,
+  radius: number,
+  materialThickness: number,
+}) {
+  return Math.abs(angleDeg) / 180 * Math.PI * (radius + materialThickness / 2);
+}
+
+interface Cut {
+  /** The position along the length of the region. */
+  readonly x: number;
+  readonly from: number;
+  readonly to: number;
+}
+
+/** Returns the cuts of the pattern, in the coordinates of the region. */
+function hingeCuts({
+  length,
+  height,
+  materialThickness,
+  pattern = "straight",
+  spacing = materialThickness,
+  cutLength = 10 * materialThickness,
+  bridge = materialThickness,
+  slotWidth = materialThickness / 3,
+}: LivingHingeParams): Cut[] {
+  const numColumns = Math.max(Math.round(length / spacing), 1);
+  const columnX = (i: number) => (i + 0.5) * length / numColumns;
+  const cuts: Cut[] = [];
+  if (pattern === "serpentine") {
+    for (let i = 0; i < numColumns; i++)
+      cuts.push(i % 2 ? {x: columnX(i), from: bridge, to: height} :
+        {x: columnX(i), from: 0, to: height - bridge});
+    return cuts;
+  }
+  const numCuts = Math.max(Math.round((height - bridge) / (cutLength + bridge)), 1);
+  const cut = (height - (numCuts + 1) * bridge) / numCuts;
+  if (!(cut > 0))
+    throw new Error(`The living hinge region is too short for the bridges: ${height}`);
+  const period = cut + bridge;
+  // In the lattice pattern the slots are closed, so they cannot be open to the edges.
+  const [min, max] = pattern === "lattice" ? [bridge, height - bridge] : [0, height];
+  const minCut = pattern === "lattice" ? slotWidth : 0;
+  for (let i = 0; i < numColumns; i++) {
+    const x = columnX(i);
+    if (i % 2 === 0)
+      for (let k = 0; k < numCuts; k++)
+        cuts.push({x, from: bridge + k * period, to: (k + 1) * period});
+    else
+      for (let k = 0; k <= numCuts; k++) {
+        const center = k * period + bridge / 2;
+        const from = Math.max(center - cut / 2, min);
+        const to = Math.min(center + cut / 2, max);
+        if (to - from > minCut)
+          cuts.push({x, from, to});
+      }
+  }
+  return cuts;
+}
+
+/**
+ * Draws a living hinge pattern in the region starting at the Turtle, extending forward by
+ * the length and to the right (or left) by the height. The cuts are perpendicular to
+ * the direction of the Turtle, and the outline of the region is not drawn.
+ * Returns the Turtle in its original state.
+ */
+export function turtleLivingHinge(t: Turtle, {side = "right", ...params}: LivingHingeParams & {
+  side?: "right" | "left",
+}) {
+  const {pattern = "straight", materialThickness, slotWidth = materialThickness / 3} = params;
+  const sideDeg = side === "right" ? 90 : -90;
+  for (const {x, from, to} of hingeCuts(params))
+    t = t.branch(t => {
+      t = t.penUp().forward(x).right(sideDeg).forward(from).penDown();
+      if (pattern !== "lattice")
+        return t.forward(to - from);
+      const straight = to - from - slotWidth;
+      return t.penUp().forward(slotWidth / 2).strafeLeft(slotWidth / 2).penDown()
+        .forward(straight).arcRight(180, slotWidth / 2)
+        .forward(straight).arcRight(180, slotWidth / 2);
+    });
+  return t;
+}
+
+/**
+ * Returns a living hinge pattern filling the rectangle from `[0, 0]` to `[length, height]`,
+ * with the cuts parallel to the Y axis, so that the material bends along the X axis.
+ * The outline of the rectangle is not included.
+ * @see {@link livingHingeLength}
+ */
+export function livingHinge(params: LivingHingeParams): Piece {
+  return turtleLivingHinge(Turtle.create().setAngle(90), params);
+}
@@ -0,0 +1,193 @@
+import {TabsOptions} from './interlock.ts';
+import {PatternItem, TabsPattern} from './interlock_patterns.ts';
+import {getPiecePolygons} from './outlines.ts';
+import {Piece} from './pieces.ts';
+import {polygonSignedArea} from './polygons.ts';
+import {TabsDict} from './tabbed_face.ts';
+
+/** A face with named tabs, like `TabbedFace` or `ClosedFace`. */
+export type MatingFace<P extends string> = Piece & TabsDict<P>;
+
+/**
+ * An edge of a face, identified by the name of the tabs stored in the face with `tabsDef`
+ * or `def`.
+ */
+export interface MatingEdge<P extends string> {
+  readonly face: MatingFace<P>;
+  readonly edge: P;
+  /** The name of the face, used in the messages. */
+  readonly faceName?: string;
+}
+
+export type MatingProblemKind = "length" | "pattern" | "tabsDir";
+
+export interface MatingProblem {
+  readonly kind: MatingProblemKind;
+  /** The labels of the mating edges, in the form `face.edge`. */
+  readonly edges: readonly [string, string];
+  readonly message: string;
+}
+
+interface ResolvedEdge {
+  readonly label: string;
+  readonly face: Piece;
+  readonly pattern: TabsPattern;
+  readonly options: TabsOptions;
+}
+
+interface Mating {
+  readonly edges: readonly [ResolvedEdge, ResolvedEdge];
+  readonly sameDirection: boolean;
+}
+
+/** Returns the items of the pattern, with the items shorter than the tolerance merged. */
+function normalisedItems(pattern: TabsPattern, tolerance: number) {
+  const result: PatternItem[] = [];
+  for (const {active, length} of pattern.pattern.items) {
+    const last = result.at(-1);
+    if (last && (length <= tolerance || last.active === active))
+      result[result.length - 1] = {active: last.active, length: last.length + length};
+    else if (length > tolerance)
+      result.push({active, length});
+  }
+  return result;
+}
+
+function resolveEdge<P extends string>({face, edge, faceName = `face`}: MatingEdge<P>):
+  ResolvedEdge {
+  const label = `${faceName}.${edge}`;
+  if (!face.tt[edge])
+    throw new Error(`No tabs named ${JSON.stringify(edge)} in ${faceName}`);
+  return {label, face, pattern: face.pat[edge], options: face.opt[edge]};
+}
+
+/**
+ * Returns whether the face is drawn clockwise as displayed, based on its largest closed outline,
+ * or undefined if the face has no closed outline.
+ */
+function isClockwise(face: Piece) {
+  let best: number | undefined;
+  for (const polygon of getPiecePolygons(face)) {
+    const area = polygonSignedArea(polygon);
+    if (best === undefined || Math.abs(area) > Math.abs(best))
+      best = area;
+  }
+  return best === undefined ? undefined : best > 0;
+}
+
+/**
+ * A declaration of the edges of the faces that are joined together, allowing to verify that
+ * the tabs of each pair of edges actually fit each other.
+ *
+ * By default, the mating edges are expected to be drawn in the opposite directions, like when
+ * both faces are drawn clockwise as viewed from the outside. This is the convention of the `fit`
+ * dictionary of `TabbedFace`, so in a correct pair, `tt` of one edge is equal to `fit`
+ * of the other edge.
+ *
+ * Example:
+ *
+ *     const matings = Matings.create()
+ *       .add({face: front, edge: "left", faceName: "front"},
+ *         {face: leftSide, edge: "front", faceName: "left"})
+ *       .add({face: front, edge: "bottom", faceName: "front"},
+ *         {face: bottom, edge: "front", faceName: "bottom"});
+ *     // Throws if there are any problems.
+ *     matings.check();
+ */
+export class Matings {
+
+  protected constructor(
+    private readonly matings: readonly Mating[],
+    private readonly tolerance: number,
+  ) {}
+
+  /** Creates an empty collection. The tolerance is used when comparing the lengths. */
+  static create({tolerance = 1e-6}: {tolerance?: number} = {}) {
+    return new Matings([], tolerance);
+  }
+
+  /**
+   * Declares that the two edges are joined. If `sameDirection` is set, the edges are expected
+   * to be drawn in the same direction, and so the faces in the opposite directions.
+   */
+  add<P1 extends string, P2 extends string>(
+    a: MatingEdge<P1>, b: MatingEdge<P2>, {sameDirection = false} = {}) {
+    return new Matings([...this.matings, {
+      edges: [resolveEdge(a), resolveEdge(b)],
+      sameDirection,
+    }], this.tolerance);
+  }
+
+  /** Returns the problems with the declared pairs of edges. */
+  verify(): MatingProblem[] {
+    const problems: MatingProblem[] = [];
+    const tolerance = this.tolerance;
+    const clockwise = new Map<Piece, boolean | undefined>();
+    function getClockwise(face: Piece) {
+      if (!clockwise.has(face))
+        clockwise.set(face, isClockwise(face));
+      return clockwise.get(face);
+    }
+    for (const {edges: [a, b], sameDirection} of this.matings) {
+      const edges = [a.label, b.label] as const;
+      const problem = (kind: MatingProblemKind, details: string) =>
+        problems.push({kind, edges, message: `Edges ${a.label} and ${b.label}: ${details}`});
+      const [lengthA, lengthB] = [a.pattern.length(), b.pattern.length()];
+      if (Math.abs(lengthA - lengthB) > tolerance)
+        problem("length", `lengths differ: ${lengthA} and ${lengthB}`);
+      else {
+        let expected = a.pattern.matchingTabs();
+        if (!sameDirection)
+          expected = expected.reverse();
+        const expectedItems = normalisedItems(expected, tolerance);
+        const actualItems = normalisedItems(b.pattern, tolerance);
+        if (expectedItems.length !== actualItems.length ||
+          expectedItems.some(({active, length}, i) => active !== actualItems[i].active ||
+            Math.abs(length - actualItems[i].length) > tolerance))
+          problem("pattern", `patterns are not complementary: ${a.pattern} and ${b.pattern}` +
+            ` (expected: ${expected})`);
+      }
+      const [clockwiseA, clockwiseB] = [getClockwise(a.face), getClockwise(b.face)];
+      if (clockwiseA !== undefined && clockwiseB !== undefined) {
+        // The tabs protrude outside of the face if they go left of a face drawn clockwise.
+        const outwardA = (a.options.tabsDir === "left") === clockwiseA;
+        const outwardB = (b.options.tabsDir === "left") === clockwiseB;
+        const dirString = (outward: boolean) => outward ? `outside` : `inside`;
+        if (outwardA !== outwardB)
+          problem("tabsDir", `tabs of ${a.label} go ${dirString(outwardA)} of the face, ` +
+            `but tabs of ${b.label} go ${dirString(outwardB)} of the face ` +
+            `(tabsDir: ${a.options.tabsDir} and ${b.options.tabsDir})`);
+      }
+    }
+    return problems;
+  }
+
+  /** Throws an error listing all the problems, if there are any. */
+  check() {
+    const problems = this.verify();
+    if (problems.length)
+      throw new Error(`Mating edges don't fit:\n` +
+        problems.map(({message}) => `  ${message}`).join("\n"));
+    return this;
+  }
+
+  /** Returns an element with a warning listing all the problems, if there are any. */
+  getWarning() {
+    const problems = this.verify();
+    if (!problems.length)
+      return undefined;
+    const div = document.createElement("div");
+    div.style.color = "#9202ff";
+    div.append(`Warning: Some mating edges don't fit:`);
+    const list = document.createElement("ul");
+    div.append(list);
+    list.style.margin = "0";
+    for (const {message} of problems) {
+      const item = document.createElement("li");
+      list.append(item);
+      item.textContent = message;
+    }
+    return div;
+  }
+
+}
@@ -0,0 +1,117 @@
+import {Point} from './point.ts';
+
+/**
+ * An affine transform matrix `[a, b, c, d, e, f]`, with the same meaning as in the SVG
+ * `matrix(a, b, c, d, e, f)` transform, i.e. mapping `[x, y]` to `[a*x + c*y + e, b*x + d*y + f]`.
+ */
+export type Matrix = readonly [number, number, number, number, number, number];
+
+export const IDENTITY_MATRIX: Matrix = [1, 0, 0, 1, 0, 0];
+
+/** Returns the matrix that applies `second` after `first`. */
+export function multiplyMatrices(first: Matrix, second: Matrix): Matrix {
+  const [a1, b1, c1, d1, e1, f1] = first;
+  const [a2, b2, c2, d2, e2, f2] = second;
+  return [
+    a2 * a1 + c2 * b1,
+    b2 * a1 + d2 * b1,
+    a2 * c1 + c2 * d1,
+    b2 * c1 + d2 * d1,
+    a2 * e1 + c2 * f1 + e2,
+    b2 * e1 + d2 * f1 + f2,
+  ];
+}
+
+export function applyMatrix([a, b, c, d, e, f]: Matrix, [x, y]: Point): Point {
+  return [a * x + c * y + e, b * x + d * y + f];
+}
+
+/** Applies only the linear part of the matrix, which is suitable for transforming vectors. */
+export function applyMatrixToVector([a, b, c, d]: Matrix, [x, y]: Point): Point {
+  return [a * x + c * y, b * x + d * y];
+}
+
+export function invertMatrix([a, b, c, d, e, f]: Matrix): Matrix {
+  const det = a * d - b * c;
+  if (!det)
+    throw new Error(`Matrix is not invertible: ${JSON.stringify([a, b, c, d, e, f])}`);
+  return [
+    d / det,
+    -b / det,
+    -c / det,
+    a / det,
+    (c * f - d * e) / det,
+    (b * e - a * f) / det,
+  ];
+}
+
+export function isIdentityMatrix(matrix: Matrix) {
+  return matrix.every((v, i) => v === IDENTITY_MATRIX[i]);
+}
+
+/** Returns the factor by which the matrix scales areas. Negative if the matrix flips. */
+export function matrixDeterminant([a, b, c, d]: Matrix) {
+  return a * d - b * c;
+}
+
+function toRad(angleDeg: number) {
+  return angleDeg * Math.PI / 180;
+}
+
+function transformFunctionMatrix(name: string, args: readonly number[]): Matrix {
+  const arg = (index: number, defaultValue?: number) => {
+    const value = args[index] ?? defaultValue;
+    if (value === undefined)
+      throw new Error(`Missing argument ${index} of ${name} in a transform: ` +
+        `${JSON.stringify(args)}`);
+    return value;
+  };
+  switch (name) {
+    case "matrix":
+      return [arg(0), arg(1), arg(2), arg(3), arg(4), arg(5)];
+    case "translate":
+      return [1, 0, 0, 1, arg(0), arg(1, 0)];
+    case "scale":
+      return [arg(0), 0, 0, arg(1, arg(0)), 0, 0];
+    case "rotate": {
+      const angle = toRad(arg(0));
+      const cos = Math.cos(angle);
+      const sin = Math.sin(angle);
+      const rotation: Matrix = [cos, sin, -sin, cos, 0, 0];
+      if (args.length < 3)
+        return rotation;
+      const cx = arg(1);
+      const cy = arg(2);
+      return multiplyMatrices(
+        multiplyMatrices([1, 0, 0, 1, -cx, -cy], rotation),
+        [1, 0, 0, 1, cx, cy]);
+    }
+    case "skewX":
+      return [1, 0, Math.tan(toRad(arg(0))), 1, 0, 0];
+    case "skewY":
+      return [1, Math.tan(toRad(arg(0))), 0, 1, 0, 0];
+    default:
+      throw new Error(`Unknown transform function: ${JSON.stringify(name)}`);
+  }
+}
+
+const TRANSFORM_FUNCTION_REGEXP = /([a-zA-Z]+)\s*\(([^)]*)\)/g;
+
+/**
+ * Parses the value of an SVG `transform` attribute into a matrix.
+ * The functions are applied right to left, like in SVG.
+ */
+export function matrixFromSVGTransform(svgTransform: string | null | undefined): Matrix {
+  if (!svgTransform)
+    return IDENTITY_MATRIX;
+  let result = IDENTITY_MATRIX;
+  for (const [, name, argsString] of svgTransform.matchAll(TRANSFORM_FUNCTION_REGEXP)) {
+    const args = argsString.split(/[\s,]+/).filter(Boolean).map(Number);
+    result = multiplyMatrices(transformFunctionMatrix(name, args), result);
+  }
+  return result;
+}
+
+export function matrixToSVGTransform(matrix: Matrix) {
+  return `matrix(${matrix.join(",")})`;
+}
@@ -0,0 +1,182 @@
+import {Piece} from './pieces.ts';
+import {BasicSheetParams, SheetParams} from './sheet.ts';
+import {SheetsCollection, SheetsCollectionInput, sheetsCollection} from './sheets_collection.ts';
+import {OrArray, flattenFilter} from './util.ts';
+
+export interface NestingParams {
+  pieces: OrArray<Piece | undefined>;
+  /** Size of a sheet of the stock material, in millimeters. */
+  stockMillimeters: {width: number, height: number};
+  /** The minimum distance between the pieces, in millimeters. Default: 2. */
+  spacingMillimeters?: number;
+  /** The minimum distance between the pieces and the edges of the stock. Default: the spacing. */
+  marginMillimeters?: number;
+  /** Whether the pieces can be rotated by 90° to fit better. Default: true. */
+  allowRotation?: boolean;
+}
+
+interface Rect {
+  readonly x: number;
+  readonly y: number;
+  readonly width: number;
+  readonly height: number;
+}
+
+function rectContains(outer: Rect, inner: Rect) {
+  return inner.x >= outer.x && inner.y >= outer.y &&
+    inner.x + inner.width <= outer.x + outer.width &&
+    inner.y + inner.height <= outer.y + outer.height;
+}
+
+function rectsOverlap(a: Rect, b: Rect) {
+  return a.x < b.x + b.width && b.x < a.x + a.width &&
+    a.y < b.y + b.height && b.y < a.y + a.height;
+}
+
+/** A bin of the MaxRects algorithm, keeping track of the maximal free rectangles. */
+class MaxRectsBin {
+
+  private freeRects: Rect[];
+
+  constructor(width: number, height: number) {
+    this.freeRects = [{x: 0, y: 0, width, height}];
+  }
+
+  /**
+   * Finds the position for the rectangle of the specified size, minimising the shorter leftover
+   * side of the free rectangle (the Best Short Side Fit rule).
+   */
+  findPosition(width: number, height: number) {
+    let best: {x: number, y: number, score: number, longScore: number} | undefined;
+    for (const free of this.freeRects)
+      if (width <= free.width && height <= free.height) {
+        const leftoverX = free.width - width;
+        const leftoverY = free.height - height;
+        const score = Math.min(leftoverX, leftoverY);
+        const longScore = Math.max(leftoverX, leftoverY);
+        if (!best || score < best.score || (score === best.score && longScore < best.longScore))
+          best = {x: free.x, y: free.y, score, longScore};
+      }
+    return best;
+  }
+
+  place(rect: Rect) {
+    const newRects: Rect[] = [];
+    for (const free of this.freeRects) {
+      if (!rectsOverlap(free, rect)) {
+        newRects.push(free);
+        continue;
+      }
+      if (rect.x > free.x)
+        newRects.push({...free, width: rect.x - free.x});
+      if (rect.x + rect.width < free.x + free.width)
+        newRects.push({
+          ...free,
+          x: rect.x + rect.width,
+          width: free.x + free.width - rect.x - rect.width,
+        });
+      if (rect.y > free.y)
+        newRects.push({...free, height: rect.y - free.y});
+      if (rect.y + rect.height < free.y + free.height)
+        newRects.push({
+          ...free,
+          y: rect.y + rect.height,
+          height: free.y + free.height - rect.y - rect.height,
+        });
+    }
+    this.freeRects = newRects.filter((free, i) => !newRects.some((other, j) =>
+      i !== j && rectContains(other, free) && (!rectContains(free, other) || j < i)));
+  }
+
+}
+
+/**
+ * Arranges the pieces on the sheets of the stock material, adding more sheets as needed.
+ * The pieces are packed by their bounding boxes, the larger pieces first.
+ * Returns a Piece for each of the sheets, with the stock occupying the rectangle from `[0, 0]`
+ * to the stock size converted to units.
+ */
+export function nest({
+  pieces,
+  stockMillimeters,
+  spacingMillimeters = 2,
+  marginMillimeters = spacingMillimeters,
+  allowRotation = true,
+}: NestingParams, millimetersPerUnit = 1): Piece[] {
+  const spacing = spacingMillimeters / millimetersPerUnit;
+  const margin = marginMillimeters / millimetersPerUnit;
+  // The pieces are inflated by the spacing, so the bin is larger by the spacing as well.
+  const binWidth = stockMillimeters.width / millimetersPerUnit - 2 * margin + spacing;
+  const binHeight = stockMillimeters.height / millimetersPerUnit - 2 * margin + spacing;
+  const items = flattenFilter(pieces).map(piece => ({piece, box: piece.getBoundingBox()}))
+    .sort((a, b) => b.box.width * b.box.height - a.box.width * a.box.height ||
+      Math.max(b.box.width, b.box.height) - Math.max(a.box.width, a.box.height));
+  const bins: {bin: MaxRectsBin, parts: Piece[]}[] = [];
+  for (const {piece, box} of items) {
+    const orientations = [
+      {rotated: false, width: box.width + spacing, height: box.height + spacing},
+    ];
+    if (allowRotation && box.width !== box.height)
+      orientations.push(
+        {rotated: true, width: box.height + spacing, height: box.width + spacing});
+    if (!orientations.some(({width, height}) => width <= binWidth && height <= binHeight))
+      throw new Error(`Piece of size ${box.width}×${box.height} does not fit on the stock`);
+    const findPlacement = () => {
+      for (const binData of bins) {
+        let best;
+        for (const orientation of orientations) {
+          const position = binData.bin.findPosition(orientation.width, orientation.height);
+          if (position && (!best || position.score < best.position.score))
+            best = {orientation, position};
+        }
+        if (best)
+          return {binData, ...best};
+      }
+      return undefined;
+    };
+    let placement = findPlacement();
+    if (!placement) {
+      bins.push({bin: new MaxRectsBin(binWidth, binHeight), parts: []});
+      placement = findPlacement()!;
+    }
+    const {binData, orientation: {rotated, width, height}, position: {x, y}} = placement;
+    binData.bin.place({x, y, width, height});
+    const oriented = rotated ? piece.rotateRight() : piece;
+    const orientedBox = oriented.getBoundingBox();
+    binData.parts.push(
+      oriented.translate(margin + x - orientedBox.minX, margin + y - orientedBox.minY));
+  }
+  return bins.map(({parts}) => Piece.create(parts));
+}
+
+/**
+ * Returns the input for the sheets collection with one sheet for each sheet of stock,
+ * named `"1"`, `"2"` and so on, with the view box equal to the stock.
+ * @see {@link nest}
+ */
+export function nestedSheetsInput(params: NestingParams, millimetersPerUnit = 1):
+  SheetsCollectionInput {
+  const {width, height} = params.stockMillimeters;
+  const viewBox = {
+    minX: 0,
+    minY: 0,
+    width: width / millimetersPerUnit,
+    height: height / millimetersPerUnit,
+  };
+  const result: SheetsCollectionInput = {};
+  for (const [i, pieces] of nest(params, millimetersPerUnit).entries())
+    result[`${i + 1}`] = {pieces, viewBox, margin: 0} satisfies SheetParams;
+  return result;
+}
+
+/**
+ * Arranges the pieces on the sheets of the stock material, and returns the collection of
+ * the sheets, one for each sheet of stock. The stock size is converted to units using
+ * the `millimetersPerUnit` option of the basic params.
+ * @see {@link nest}
+ */
+export function nestedSheets(basicParams: BasicSheetParams, params: NestingParams):
+  SheetsCollection<SheetsCollectionInput> {
+  return sheetsCollection(basicParams,
+    nestedSheetsInput(params, basicParams.options?.millimetersPerUnit ?? 1));
+}
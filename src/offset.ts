@@ -0,0 +1,276 @@
+import {Kerf} from './kerf_util.ts';
+import {NO_LAYER} from './layers.ts';
+import {getPieceOutlines} from './outlines.ts';
+import {Path} from './path.ts';
+import {isCircularArc, segmentTangent} from './path_geometry.ts';
+import {ArcSegment, CubicSegment, Segment, Subpath, arcPointAtAngle, flattenSegment, flattenSubpath, isSubpathClosed, segmentDerivative, segmentPoint, splitSegment, subpathsToPathD, toLinesAndCubics} from './path_segments.ts';
+import {Piece, gather} from './pieces.ts';
+import {Point, pointsDist} from './point.ts';
+import {polygonNestingDepth, polygonSignedArea, segmentsIntersection} from './polygons.ts';
+
+/** Maximum depth of subdivision of a curve when approximating its offset. */
+const MAX_SUBDIVISION_DEPTH = 8;
+
+function add([x1, y1]: Point, [x2, y2]: Point, mult = 1): Point {
+  return [x1 + mult * x2, y1 + mult * y2];
+}
+
+function cross([x1, y1]: Point, [x2, y2]: Point) {
+  return x1 * y2 - y1 * x2;
+}
+
+/** Returns the unit normal vector, pointing to the right of the tangent (in Y-up coordinates). */
+function rightNormal([tx, ty]: Point): Point {
+  return [ty, -tx];
+}
+
+/** Approximates the offset of a cubic curve, by subdividing it until the error is small enough. */
+function offsetCubic(segment: CubicSegment, distance: number, tolerance: number, depth = 0):
+  Segment[] {
+  const {from, control1, control2, to} = segment;
+  const from1 = add(from, rightNormal(segmentTangent(segment, 0)), distance);
+  const to1 = add(to, rightNormal(segmentTangent(segment, 1)), distance);
+  // The speed of the offset curve is scaled by 1 + distance * curvature.
+  function armScale(arm: Point, secondDerivative: Point) {
+    const length = Math.hypot(...arm);
+    if (!length)
+      return 1;
+    // The curvature at the end of the curve, computed from the first derivative (3 * arm) and
+    // the second derivative.
+    const curvature = cross(arm, secondDerivative) / (9 * length ** 3);
+    return Math.max(1 + distance * curvature, 0);
+  }
+  const arm0: Point = [control1[0] - from[0], control1[1] - from[1]];
+  const arm1: Point = [control2[0] - to[0], control2[1] - to[1]];
+  const scale0 = armScale(arm0,
+    [6 * (from[0] - 2 * control1[0] + control2[0]), 6 * (from[1] - 2 * control1[1] + control2[1])]);
+  const scale1 = armScale([-arm1[0], -arm1[1]],
+    [6 * (control1[0] - 2 * control2[0] + to[0]), 6 * (control1[1] - 2 * control2[1] + to[1])]);
+  const candidate: CubicSegment = {
+    type: "cubic",
+    from: from1,
+    control1: add(from1, arm0, scale0),
+    control2: add(to1, arm1, scale1),
+    to: to1,
+  };
+  if (depth < MAX_SUBDIVISION_DEPTH) {
+    for (const t of [0.25, 0.5, 0.75]) {
+      const [dx, dy] = segmentDerivative(segment, t);
+      const length = Math.hypot(dx, dy);
+      const expected = length ? add(segmentPoint(segment, t), rightNormal([dx / length, dy / length]),
+        distance) : segmentPoint(candidate, t);
+      if (pointsDist(expected, segmentPoint(candidate, t)) > tolerance) {
+        const [left, right] = splitSegment(segment, 0.5) as [CubicSegment, CubicSegment];
+        return [
+          ...offsetCubic(left, distance, tolerance, depth + 1),
+          ...offsetCubic(right, distance, tolerance, depth + 1),
+        ];
+      }
+    }
+  }
+  return [candidate];
+}
+
+/**
+ * Returns the segments approximating the curve at the distance to the right of the segment
+ * (in Y-up coordinates, for a negative distance - to the left).
+ */
+function offsetSegment(segment: Segment, distance: number, tolerance: number): Segment[] {
+  switch (segment.type) {
+    case "line": {
+      const normal = rightNormal(segmentTangent(segment, 0));
+      return [{type: "line", from: add(segment.from, normal, distance), to: add(segment.to, normal, distance)}];
+    }
+    case "arc":
+      if (isCircularArc(segment)) {
+        const {axisU, axisV, sweepAngle} = segment;
+        const radius = Math.hypot(...axisU);
+        // Whether the right side is away from the center.
+        const rightIsOutside = Math.sign(cross(axisU, axisV)) * Math.sign(sweepAngle) > 0;
+        const newRadius = radius + (rightIsOutside ? distance : -distance);
+        if (newRadius <= tolerance)
+          return [];
+        const scale = newRadius / radius;
+        const arc: ArcSegment = {
+          ...segment,
+          axisU: [axisU[0] * scale, axisU[1] * scale],
+          axisV: [axisV[0] * scale, axisV[1] * scale],
+        };
+        return [{
+          ...arc,
+          from: arcPointAtAngle(arc, arc.startAngle),
+          to: arcPointAtAngle(arc, arc.startAngle + sweepAngle),
+        }];
+      }
+      return toLinesAndCubics(segment).flatMap(piece => offsetSegment(piece, distance, tolerance));
+    case "quadratic":
+      return toLinesAndCubics(segment).flatMap(piece => offsetSegment(piece, distance, tolerance));
+    case "cubic":
+      return offsetCubic(segment, distance, tolerance);
+    default:
+      return segment satisfies never;
+  }
+}
+
+interface ParamPoint {
+  readonly point: Point;
+  readonly index: number;
+  readonly t: number;
+}
+
+/** Flattens the segments, remembering the segment index and the parameter of each point. */
+function flattenWithParams(segments: readonly Segment[], tolerance: number): ParamPoint[] {
+  const result: ParamPoint[] = [];
+  segments.forEach((segment, index) => {
+    result.push({point: segment.from, index, t: 0});
+    const points = flattenSegment(segment, tolerance);
+    points.forEach((point, i) => result.push({point, index, t: (i + 1) / points.length}));
+  });
+  return result;
+}
+
+/**
+ * Finds the intersection of the end of the first chain of segments with the beginning of
+ * the second chain, closest to the junction. Returns the trimmed chains, or undefined if
+ * the chains don't intersect.
+ */
+function trimAtIntersection(first: readonly Segment[], second: readonly Segment[], tolerance: number):
+  [Segment[], Segment[]] | undefined {
+  const firstPoints = flattenWithParams(first, tolerance);
+  const secondPoints = flattenWithParams(second, tolerance);
+  for (let i = firstPoints.length - 1; i > 0; i--)
+    for (let j = 0; j + 1 < secondPoints.length; j++) {
+      const p1 = firstPoints[i - 1];
+      const p2 = firstPoints[i];
+      const q1 = secondPoints[j];
+      const q2 = secondPoints[j + 1];
+      if (p1.index !== p2.index || q1.index !== q2.index)
+        continue;
+      const intersection = segmentsIntersection(p1.point, p2.point, q1.point, q2.point);
+      if (intersection) {
+        const [u, v] = intersection;
+        const point: Point = [
+          p1.point[0] + u * (p2.point[0] - p1.point[0]),
+          p1.point[1] + u * (p2.point[1] - p1.point[1]),
+        ];
+        const [firstPart] = splitSegment(first[p1.index], p1.t + u * (p2.t - p1.t));
+        const [, secondPart] = splitSegment(second[q1.index], q1.t + v * (q2.t - q1.t));
+        return [
+          [...first.slice(0, p1.index), {...firstPart, to: point}],
+          [{...secondPart, from: point}, ...second.slice(q1.index + 1)],
+        ];
+      }
+    }
+  return undefined;
+}
+
+/**
+ * Returns the closed subpath offset by the distance to the right (in Y-up coordinates).
+ * The convex corners are joined with arcs, and at the concave corners the offset segments
+ * are trimmed at their intersection.
+ */
+function offsetClosedSubpath({start, segments, closed}: Subpath, distance: number, tolerance: number):
+  Subpath {
+  const originalSegments = segments.filter(segment =>
+    segment.type !== "line" || pointsDist(segment.from, segment.to) > 1e-12);
+  if (!originalSegments.length)
+    return {start, segments, closed};
+  const chains = originalSegments.map(segment => offsetSegment(segment, distance, tolerance));
+  const n = chains.length;
+  const joins: Segment[][] = Array.from({length: n}, () => []);
+  for (let i = 0; i < n; i++) {
+    const next = (i + 1) % n;
+    const vertex = originalSegments[i].to;
+    const endPoint = chains[i].at(-1)?.to || vertex;
+    const startPoint = chains[next][0]?.from || vertex;
+    if (pointsDist(endPoint, startPoint) <= tolerance)
+      continue;
+    const turn = cross(segmentTangent(originalSegments[i], 1), segmentTangent(originalSegments[next], 0));
+    const trimmed = turn * distance <= 0 && chains[i].length && chains[next].length ?
+      trimAtIntersection(chains[i], chains[next], tolerance) : undefined;
+    if (trimmed)
+      [chains[i], chains[next]] = trimmed;
+    else {
+      const a: Point = [endPoint[0] - vertex[0], endPoint[1] - vertex[1]];
+      const b: Point = [startPoint[0] - vertex[0], startPoint[1] - vertex[1]];
+      const radius = Math.abs(distance);
+      if (turn * distance > 0 && Math.abs(Math.hypot(...a) - radius) <= tolerance &&
+        Math.abs(Math.hypot(...b) - radius) <= tolerance)
+        joins[i].push({
+          type: "arc",
+          from: endPoint,
+          to: startPoint,
+          center: vertex,
+          axisU: [radius, 0],
+          axisV: [0, radius],
+          startAngle: Math.atan2(a[1], a[0]),
+          sweepAngle: Math.atan2(cross(a, b), a[0] * b[0] + a[1] * b[1]),
+        });
+      else
+        joins[i].push({type: "line", from: endPoint, to: startPoint});
+    }
+  }
+  const result = chains.flatMap((chain, i) => [...chain, ...joins[i]]);
+  return {start: result[0]?.from || start, segments: result, closed: true};
+}
+
+/**
+ * Offsets the closed subpaths, so that the outer contours grow and the holes shrink by
+ * the distance (or the other way round, if the distance is negative). The holes are detected
+ * using the even-odd rule. The subpaths ending at their start (like the outlines drawn by
+ * a turtle) are treated as closed, other open subpaths cause an error.
+ */
+export function offsetSubpaths(subpaths: readonly Subpath[], distance: number, {
+  tolerance = Math.max(Math.abs(distance) / 100, 1e-6),
+}: {
+  tolerance?: number,
+} = {}): Subpath[] {
+  if (!distance)
+    return [...subpaths];
+  const closedSubpaths = subpaths.map(subpath => {
+    if (!subpath.segments.length)
+      return subpath;
+    if (!isSubpathClosed(subpath, tolerance))
+      throw new Error(`Cannot offset an open subpath, from ${JSON.stringify(subpath.start)} ` +
+        `to ${JSON.stringify(subpath.segments.at(-1)!.to)}`);
+    return {...subpath, closed: true};
+  });
+  const polygons = closedSubpaths.map(subpath =>
+    subpath.segments.length ? flattenSubpath(subpath, tolerance) : []);
+  return closedSubpaths.map((subpath, i) => {
+    const area = polygonSignedArea(polygons[i]);
+    if (!area)
+      return subpath;
+    // The right side is the outside of a subpath with a positive area.
+    const rightDistance =
+      (polygonNestingDepth(polygons, i) % 2 ? -distance : distance) * Math.sign(area);
+    return offsetClosedSubpath(subpath, rightDistance, tolerance);
+  });
+}
+
+/**
+ * Returns the Piece with all the closed outlines offset by the specified distance: the outer
+ * contours grow and the holes shrink (or the other way round, if the distance is negative).
+ * The convex corners become rounded, like when cut by a laser beam of that radius.
+ * The result is a Path for each layer of the Piece, texts and images are skipped.
+ * The outlines ending at their start count as closed, other open outlines cause an error.
+ *
+ * The distance is assumed to be small compared to the features of the shape, like the kerf.
+ * Self-intersections of the result, other than at the corners, are not removed.
+ */
+export function offset(distance: number, {tolerance}: {tolerance?: number} = {}) {
+  return (piece: Piece) => gather([...piece.getLayers()].map(layer => {
+    const path = Path.fromD(subpathsToPathD(offsetSubpaths(
+      getPieceOutlines(piece.selectLayers(layer)), distance, {tolerance})));
+    return layer === NO_LAYER ? path : path.setLayer(layer);
+  }));
+}
+
+/**
+ * Returns the Piece with the closed outlines offset by the kerf, so that the parts come out
+ * to size: the outer contours grow and the holes shrink by `Kerf.oneSideInUnits`.
+ * @see {@link offset}
+ */
+export function kerfOffset(kerf: Kerf, {tolerance}: {tolerance?: number} = {}) {
+  return offset(kerf.oneSideInUnits, {tolerance});
+}
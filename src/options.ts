@@ -3,6 +3,7 @@ import {Attributes} from './elements.ts';
 import {CornersMarkerType, PosCorrectionMillimeters, RunHandlesOptions, getGlobalOptions} from './global_options.ts';
 import {NO_LAYER, OptionalLayerName} from './layers.ts';
 import {toFileName} from './name.ts';
+import {PartialToneCurve, ToneCurve} from './tone_curve.ts';
 
 /** The context for which an SVG is generated. */
 export type Medium = "preview" | "laser";
@@ -103,9 +104,22 @@ export const DEFAULT_PRINT_STYLE_ATTRIBUTES = getDefaultPrintStyleAttributes();
 
 export interface PartialCutOptions extends PartialCommonRunOptions {
   type: "cut";
+  /**
+   * Whether the parts of lines and arcs that overlap earlier lines and arcs of the run should be
+   * removed from the laser output, so that the edges shared by the adjacent parts are cut only once.
+   * Default: false.
+   */
+  removeDuplicateLines?: boolean;
+  /**
+   * Options of ordering the paths of the run in the laser output. If true, all the optimisations
+   * are enabled. Default: false.
+   */
+  cutOrder?: boolean | PartialCutOrderOptions;
 }
 export interface CutOptions extends CommonRunOptions {
   readonly type: "cut";
+  readonly removeDuplicateLines: boolean;
+  readonly cutOrder: CutOrderOptions;
 }
 /**
  * Creates CutOptions. If layers are not specified, layer equal to the id is used. If id is
@@ -121,6 +135,8 @@ export function cutOptionsFromPartial(
     includeCornersMarker = false,
     posCorrectionMillimeters,
     hint,
+    removeDuplicateLines = false,
+    cutOrder,
   }: PartialCutOptions,
 ): CutOptions {
   return {
@@ -138,14 +154,70 @@ export function cutOptionsFromPartial(
     includeCornersMarker,
     posCorrectionMillimeters,
     hint: hint === undefined ? undefined : String(hint),
+    removeDuplicateLines,
+    cutOrder: cutOrderOptionsFromPartial(cutOrder),
+  };
+}
+
+/** Direction of the closed contours, as displayed. */
+export type CutDirection = "keep" | "clockwise" | "counterclockwise";
+
+export interface PartialCutOrderOptions {
+  enable?: boolean;
+  /**
+   * Whether the contours inside closed contours should be cut before the enclosing contours,
+   * so that the holes are cut before the part drops out. Default: true.
+   */
+  insideOut?: boolean;
+  /**
+   * Whether the travel between the paths should be reduced, by cutting next the nearest path.
+   * The closed contours might be started at a different vertex, and the open paths might be
+   * reversed. If false, the original order is preserved where possible. Default: true.
+   */
+  minimizeTravel?: boolean;
+  /** Direction of the closed contours. Default: `"clockwise"`. */
+  direction?: CutDirection;
+}
+export interface CutOrderOptions extends Required<Readonly<PartialCutOrderOptions>> {}
+export function cutOrderOptionsFromPartial(
+  cutOrderOptions: boolean | PartialCutOrderOptions = false): CutOrderOptions {
+  const {
+    enable = true,
+    insideOut = true,
+    minimizeTravel = true,
+    direction = "clockwise",
+  }: PartialCutOrderOptions =
+    cutOrderOptions === true ? {} :
+      cutOrderOptions === false ? {enable: false} :
+        cutOrderOptions;
+  return {
+    enable,
+    insideOut,
+    minimizeTravel,
+    direction,
   };
 }
 
 export interface PartialPrintOptions extends PartialCommonRunOptions {
   type: "print";
+  /**
+   * Options of converting the run to a 1-bit bitmap by TPVector, when it is rendered as an image,
+   * instead of leaving the dithering to the laser software. If true, the default method is used.
+   * Default: false.
+   */
+  dither?: boolean | PartialDitherOptions;
+  /**
+   * Splits the run into multiple runs, one for each band of gray, so that each band can be
+   * engraved with a different power, without dithering. See `posterizeRun`.
+   */
+  posterize?: number | PartialPosterizeOptions;
+  /** The band of gray engraved by this run. Set by `posterizeRun`. */
+  grayBand?: GrayBand;
 }
 export interface PrintOptions extends CommonRunOptions {
   readonly type: "print";
+  readonly dither: DitherOptions;
+  readonly grayBand?: GrayBand;
 }
 /**
  * Creates PrintOptions. If layers are not specified, layer equal to the id is used, or `"print"`
@@ -161,8 +233,13 @@ export function printOptionsFromPartial(
     includeCornersMarker = true,
     posCorrectionMillimeters = sheetOptions.printPosCorrectionMillimeters,
     hint,
+    dither,
+    posterize,
+    grayBand,
   }: PartialPrintOptions,
 ): PrintOptions {
+  if (posterize !== undefined)
+    throw new Error(`The posterized run ${JSON.stringify(id)} should be split using posterizeRun`);
   return {
     type: "print",
     id,
@@ -178,9 +255,82 @@ export function printOptionsFromPartial(
     includeCornersMarker,
     posCorrectionMillimeters,
     hint: hint === undefined ? undefined : String(hint),
+    dither: ditherOptionsFromPartial(dither),
+    grayBand,
   };
 }
 
+/**
+ * The method of dithering:
+ *  - `"floydSteinberg"`, `"jarvis"`, `"stucki"` - error diffusion with the given kernel,
+ *  - `"bayer"` - ordered dithering with a Bayer matrix,
+ *  - `"halftone"` - round dots in a grid of cells, possibly rotated.
+ */
+export type DitherMethod = "floydSteinberg" | "jarvis" | "stucki" | "bayer" | "halftone";
+
+export interface PartialDitherOptions {
+  enable?: boolean;
+  /** Default: `"floydSteinberg"`. */
+  method?: DitherMethod;
+  /**
+   * For the error diffusion methods, whether every other row should be processed from right
+   * to left, which reduces the directional artifacts. Default: true.
+   */
+  serpentine?: boolean;
+  /** For the `"bayer"` method, the size of the matrix, a power of 2. Default: 8. */
+  bayerSize?: number;
+  /** For the `"halftone"` method, the size of the cell in pixels. Default: 8. */
+  halftoneCellSize?: number;
+  /** For the `"halftone"` method, the angle of the grid of the cells. Default: 45. */
+  halftoneAngleDeg?: number;
+}
+export interface DitherOptions extends Required<Readonly<PartialDitherOptions>> {}
+export function ditherOptionsFromPartial(
+  ditherOptions: boolean | PartialDitherOptions = false): DitherOptions {
+  const {
+    enable = true,
+    method = "floydSteinberg",
+    serpentine = true,
+    bayerSize = 8,
+    halftoneCellSize = 8,
+    halftoneAngleDeg = 45,
+  }: PartialDitherOptions =
+    ditherOptions === true ? {} :
+      ditherOptions === false ? {enable: false} :
+        ditherOptions;
+  if (!(bayerSize >= 1 && Number.isInteger(Math.log2(bayerSize))))
+    throw new Error(`Expected the Bayer matrix size to be a power of 2, got: ${bayerSize}`);
+  return {
+    enable,
+    method,
+    serpentine,
+    bayerSize,
+    halftoneCellSize,
+    halftoneAngleDeg,
+  };
+}
+
+/**
+ * A band of gray, engraved by a single run of a posterized print run. The pixels with
+ * the lightness in the range `[minLightness, maxLightness)` belong to the band.
+ */
+export interface GrayBand {
+  /** The index of the band, 0 for the darkest one. */
+  readonly index: number;
+  readonly count: number;
+  readonly minLightness: number;
+  readonly maxLightness: number;
+  /** The fraction of the full power that should be used for this band. */
+  readonly powerFactor: number;
+}
+
+export interface PartialPosterizeOptions {
+  /** The number of bands of gray, not counting the white, which is not engraved. */
+  levels: number;
+  /** The style attributes of the run of the band. Default: the style attributes of the run. */
+  styleAttributes?: (band: GrayBand) => PartialMediaStyleAttributes | undefined;
+}
+
 export type PartialRunOptions = PartialCutOptions | PartialPrintOptions;
 export type RunOptions = CutOptions | PrintOptions;
 
@@ -386,6 +536,11 @@ export interface PartialSheetOptions {
   previewColors?: PartialPreviewColors;
   laserRunsOptions?: PartialLaserRunsOptions;
   printPosCorrectionMillimeters?: boolean | PosCorrectionMillimeters;
+  /**
+   * The tone curve of the material, applied to the images and the gradients in the laser output.
+   * The preview is not affected.
+   */
+  toneCurve?: PartialToneCurve | ToneCurve;
 }
 export interface SheetOptions {
   readonly name?: string;
@@ -398,6 +553,7 @@ export interface SheetOptions {
   readonly previewColors: PreviewColors;
   readonly laserRunsOptions: LaserRunsOptions;
   readonly printPosCorrectionMillimeters: PosCorrectionMillimeters;
+  readonly toneCurve?: ToneCurve;
 }
 export function sheetOptionsFromPartial({
   name,
@@ -410,6 +566,7 @@ export function sheetOptionsFromPartial({
   previewColors,
   laserRunsOptions,
   printPosCorrectionMillimeters,
+  toneCurve,
 }: PartialSheetOptions): SheetOptions {
   return {
     name,
@@ -423,5 +580,7 @@ export function sheetOptionsFromPartial({
     laserRunsOptions: laserRunsOptionsFromPartial(laserRunsOptions),
     printPosCorrectionMillimeters:
       printPosCorrectionMillimetersFromPartial(printPosCorrectionMillimeters),
+    toneCurve: toneCurve instanceof ToneCurve ? toneCurve :
+      toneCurve && ToneCurve.create(toneCurve),
   };
 }
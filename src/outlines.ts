@@ -0,0 +1,256 @@
+import {IDENTITY_MATRIX, Matrix, matrixFromSVGTransform, multiplyMatrices} from './matrix.ts';
+import {Subpath, flattenSubpath, isSubpathClosed, parsePathD, subpathsBoundingBox, transformSubpaths} from './path_segments.ts';
+import {Point, pointsDist} from './point.ts';
+import {Polygon} from './polygons.ts';
+
+/**
+ * Tag names of the elements that are never rendered directly, so they don't contribute
+ * to the outlines, nor to the bounding box.
+ */
+const NON_RENDERED_TAG_NAMES = new Set([
+  "clipPath", "defs", "desc", "linearGradient", "marker", "mask", "metadata", "pattern",
+  "radialGradient", "script", "stop", "style", "symbol", "title",
+]);
+
+export function isRenderedElement(element: Element) {
+  return !NON_RENDERED_TAG_NAMES.has(element.localName) &&
+    element.getAttribute("display") !== "none";
+}
+
+/** Returns the numeric value of a length attribute, ignoring any units. */
+export function numAttribute(element: Element, name: string, defaultValue = 0) {
+  const value = element.getAttribute(name);
+  if (value === null || value === "" || value === "auto")
+    return defaultValue;
+  const result = Number.parseFloat(value);
+  return Number.isFinite(result) ? result : defaultValue;
+}
+
+/** Returns the transform matrix specified in the `transform` attribute of the element. */
+export function elementMatrix(element: Element) {
+  return matrixFromSVGTransform(element.getAttribute("transform"));
+}
+
+function pointsAttribute(element: Element): Point[] {
+  const nums = (element.getAttribute("points") || "")
+    .split(/[\s,]+/).filter(Boolean).map(Number);
+  const result: Point[] = [];
+  for (let i = 0; i + 1 < nums.length; i += 2)
+    result.push([nums[i], nums[i + 1]]);
+  return result;
+}
+
+function polylineD(points: readonly Point[], closed: boolean) {
+  if (!points.length)
+    return "";
+  return `M${points.map(p => p.join(",")).join(" L")}${closed ? "Z" : ""}`;
+}
+
+function ellipseD([cx, cy]: Point, rx: number, ry: number) {
+  if (rx <= 0 || ry <= 0)
+    return "";
+  return `M${cx + rx},${cy}A${rx},${ry},0,0,1,${cx - rx},${cy}A${rx},${ry},0,0,1,${cx + rx},${cy}Z`;
+}
+
+function rectD(element: Element) {
+  const x = numAttribute(element, "x");
+  const y = numAttribute(element, "y");
+  const width = numAttribute(element, "width");
+  const height = numAttribute(element, "height");
+  if (width <= 0 || height <= 0)
+    return "";
+  const rxAttr = numAttribute(element, "rx", NaN);
+  const ryAttr = numAttribute(element, "ry", NaN);
+  const rx = Math.min(Number.isNaN(rxAttr) ? Number.isNaN(ryAttr) ? 0 : ryAttr : rxAttr, width / 2);
+  const ry = Math.min(Number.isNaN(ryAttr) ? Number.isNaN(rxAttr) ? 0 : rxAttr : ryAttr, height / 2);
+  if (rx <= 0 || ry <= 0)
+    return polylineD([[x, y], [x + width, y], [x + width, y + height], [x, y + height]], true);
+  const arc = (tx: number, ty: number) => `A${rx},${ry},0,0,1,${tx},${ty}`;
+  return [
+    `M${x + rx},${y}`,
+    `H${x + width - rx}`, arc(x + width, y + ry),
+    `V${y + height - ry}`, arc(x + width - rx, y + height),
+    `H${x + rx}`, arc(x, y + height - ry),
+    `V${y + ry}`, arc(x + rx, y),
+    "Z",
+  ].join("");
+}
+
+/**
+ * Returns the value of a d attribute equivalent to the shape of the element, in its own
+ * coordinates (not including its transform), or undefined if the element is not a basic shape
+ * or a path.
+ */
+export function shapeElementToPathD(element: Element): string | undefined {
+  switch (element.localName) {
+    case "path":
+      return element.getAttribute("d") || "";
+    case "rect":
+      return rectD(element);
+    case "circle": {
+      const r = numAttribute(element, "r");
+      return ellipseD([numAttribute(element, "cx"), numAttribute(element, "cy")], r, r);
+    }
+    case "ellipse":
+      return ellipseD([numAttribute(element, "cx"), numAttribute(element, "cy")],
+        numAttribute(element, "rx"), numAttribute(element, "ry"));
+    case "line":
+      return polylineD([
+        [numAttribute(element, "x1"), numAttribute(element, "y1")],
+        [numAttribute(element, "x2"), numAttribute(element, "y2")],
+      ], false);
+    case "polyline":
+      return polylineD(pointsAttribute(element), false);
+    case "polygon":
+      return polylineD(pointsAttribute(element), true);
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Returns the `href` (or `xlink:href`) attribute of the element.
+ */
+export function getHref(element: Element) {
+  return element.getAttribute("href") ?? element.getAttribute("xlink:href") ?? undefined;
+}
+
+/** Finds the element referenced by a `#id` link, within the tree containing the element. */
+export function findReferencedElement(element: Element, href: string | undefined) {
+  if (!href?.startsWith("#"))
+    return undefined;
+  const id = href.slice(1);
+  let root: Element = element;
+  while (root.parentElement)
+    root = root.parentElement;
+  if (root.id === id)
+    return root;
+  for (const candidate of root.querySelectorAll("*"))
+    if (candidate.id === id)
+      return candidate;
+  return undefined;
+}
+
+/** Parameters of a `<use>` element: the referenced element and the additional translation. */
+export function useElementTarget(element: Element) {
+  const target = findReferencedElement(element, getHref(element));
+  if (!target)
+    return undefined;
+  return {
+    target,
+    matrix: [1, 0, 0, 1, numAttribute(element, "x"), numAttribute(element, "y")] as Matrix,
+  };
+}
+
+/**
+ * Returns the geometry of the element and its descendants, as subpaths in the coordinates
+ * of the element's parent (i.e. including the element's transform), transformed additionally
+ * by the specified matrix.
+ * Only the shapes and paths are considered, texts and images are ignored. Elements that are not
+ * rendered (like the contents of `<defs>`) are ignored as well.
+ */
+export function getElementOutlines(element: Element, matrix: Matrix = IDENTITY_MATRIX):
+  Subpath[] {
+  if (!isRenderedElement(element))
+    return [];
+  const fullMatrix = multiplyMatrices(elementMatrix(element), matrix);
+  const d = shapeElementToPathD(element);
+  if (d !== undefined)
+    return transformSubpaths(parsePathD(d), fullMatrix);
+  if (element.localName === "use") {
+    const use = useElementTarget(element);
+    return use ? getElementOutlines(use.target, multiplyMatrices(use.matrix, fullMatrix)) : [];
+  }
+  return [...element.children].flatMap(child => getElementOutlines(child, fullMatrix));
+}
+
+/**
+ * Returns the geometry of the elements of the piece, in the coordinates of the piece.
+ * @see {@link getElementOutlines}
+ */
+export function getPieceOutlines(piece: {getElements(): readonly Element[]}) {
+  return piece.getElements().flatMap(element => getElementOutlines(element));
+}
+
+/**
+ * Returns the geometry of the shapes of the piece, like {@link getPieceOutlines}, but ignoring
+ * the `<use>` elements.
+ */
+export function getPieceShapeOutlines(piece: {getElements(): readonly Element[]}) {
+  return piece.getElements().flatMap(element => {
+    if (element.localName === "use")
+      return [];
+    const clone = element.cloneNode(true) as Element;
+    for (const use of [...clone.querySelectorAll("use")])
+      use.remove();
+    return getElementOutlines(clone);
+  });
+}
+
+/**
+ * Returns copies of the elements of the piece with all the shapes removed, i.e. the parts not
+ * included in {@link getPieceShapeOutlines}. Groups that become empty are omitted.
+ */
+export function getPieceNonShapeElements<E extends Element>(piece: {getElements(): readonly E[]}) {
+  const result: E[] = [];
+  for (const element of piece.getElements()) {
+    if (shapeElementToPathD(element) !== undefined)
+      continue;
+    const clone = element.cloneNode(true) as E;
+    for (const descendant of [...clone.querySelectorAll("*")])
+      if (shapeElementToPathD(descendant) !== undefined)
+        descendant.remove();
+    if (clone.localName !== "g" || [...clone.querySelectorAll("*")].some(e => e.localName !== "g"))
+      result.push(clone);
+  }
+  return result;
+}
+
+/**
+ * Returns the polygons approximating the closed outlines of the piece. Subpaths ending at their
+ * start point are considered closed as well, e.g. the faces drawn by a turtle (allowing for
+ * the rounding errors accumulated in relative path commands). Open subpaths that join
+ * into a loop (in any direction), like the two halves of a slot drawn by `slots`,
+ * are also treated as a single closed outline.
+ */
+export function getPiecePolygons(piece: {getElements(): readonly Element[]}, {tolerance}: {
+  /** The maximum error of the approximation. Default: a thousandth of the size of the piece. */
+  tolerance?: number,
+} = {}): Polygon[] {
+  const subpaths = getPieceOutlines(piece);
+  const box = subpathsBoundingBox(subpaths);
+  if (!box)
+    return [];
+  tolerance ??= Math.max(box.width, box.height) * 1e-3;
+  const polygons: Point[][] = [];
+  const chains: Point[][] = [];
+  for (const subpath of subpaths) {
+    const points = flattenSubpath(subpath, tolerance);
+    if (isSubpathClosed(subpath, tolerance))
+      polygons.push(points);
+    else if (points.length >= 2)
+      chains.push(points);
+  }
+  const used = new Set<Point[]>();
+  for (const first of chains) {
+    if (used.has(first))
+      continue;
+    used.add(first);
+    const points = [...first];
+    for (; ;) {
+      const end = points.at(-1)!;
+      const next = chains.find(chain => !used.has(chain) &&
+        (pointsDist(chain[0], end) <= tolerance || pointsDist(chain.at(-1)!, end) <= tolerance));
+      if (!next)
+        break;
+      used.add(next);
+      points.push(...(pointsDist(next[0], end) <= tolerance ? next : [...next].reverse()).slice(1));
+    }
+    if (pointsDist(points[0], points.at(-1)!) <= tolerance)
+      polygons.push(points);
+  }
+  return polygons.flatMap(points => {
+    const polygon = pointsDist(points[0], points.at(-1)!) <= tolerance ? points.slice(0, -1) : points;
+    return polygon.length >= 3 ? [polygon] : [];
+  });
+}
@@ -1,5 +1,7 @@
 import {createElement} from './elements.ts';
 import {SimpleLazyPiece} from './lazy_piece.ts';
+import {splitSubpathsAtLength, subpathsLength, subpathsPointAtLength, subpathsTangentAtLength} from './path_geometry.ts';
+import {Subpath, parsePathD, subpathsToPathD} from './path_segments.ts';
 import {ORIGIN, Point, isZeroPoint, pointsToString} from './point.ts';
 import {OrArrayRest, flatten, roundReasonably} from './util.ts';
 
@@ -239,6 +241,50 @@ export class Path extends SimpleLazyPiece {
     return this.commands.join(" ");
   }
 
+  /** Returns the geometry of the path, as subpaths consisting of segments. */
+  getSubpaths(): Subpath[] {
+    return parsePathD(this.asPathD());
+  }
+
+  /**
+   * Returns the total length of the path, computed analytically. The moves between
+   * the subpaths are not counted.
+   */
+  getTotalLength() {
+    return subpathsLength(this.getSubpaths());
+  }
+
+  /**
+   * Returns the point at the specified distance along the path. The distance is clamped
+   * to the length of the path.
+   */
+  getPointAtLength(distance: number) {
+    return subpathsPointAtLength(this.getSubpaths(), distance);
+  }
+
+  /** Returns the unit tangent vector (the direction of the path) at the specified distance. */
+  getTangentAtLength(distance: number) {
+    return subpathsTangentAtLength(this.getSubpaths(), distance);
+  }
+
+  /**
+   * Returns the angle of the path at the specified distance, in the convention of Turtle,
+   * i.e. in degrees, clockwise, with 0 meaning up.
+   */
+  getAngleDegAtLength(distance: number) {
+    const [dx, dy] = this.getTangentAtLength(distance);
+    return Math.atan2(dx, -dy) * 180 / Math.PI;
+  }
+
+  /**
+   * Splits the path at the specified distance into two paths. The subpath containing the split
+   * point is no longer closed.
+   */
+  splitAtLength(distance: number): [Path, Path] {
+    const [first, second] = splitSubpathsAtLength(this.getSubpaths(), distance);
+    return [Path.fromD(subpathsToPathD(first)), Path.fromD(subpathsToPathD(second))];
+  }
+
   toString() {
     return `Path[${this.asPathD()}]`;
   }
@@ -0,0 +1,220 @@
+import {LineSegment, Segment, Subpath, flattenSegment, flattenSubpath, isSubpathClosed, reverseSegment, segmentDerivative, segmentPoint, splitSegment, subpathsBoundingBox} from './path_segments.ts';
+import {Point, pointsDist} from './point.ts';
+import {Polygon, isPointInPolygon, segmentsIntersection} from './polygons.ts';
+import {ViewBox} from './view_box.ts';
+
+export type BooleanOperation = "union" | "subtract" | "intersect";
+
+function applyOperation(operation: BooleanOperation, inA: boolean, inB: boolean) {
+  switch (operation) {
+    case "union":
+      return inA || inB;
+    case "subtract":
+      return inA && !inB;
+    case "intersect":
+      return inA && inB;
+    default:
+      return operation satisfies never;
+  }
+}
+
+interface FlatSegment {
+  readonly segment: Segment;
+  /** The points of the flattened segment, with their parameters. */
+  readonly points: readonly {readonly point: Point, readonly t: number}[];
+  readonly box: ViewBox;
+}
+
+function flatSegment(segment: Segment, tolerance: number): FlatSegment {
+  const flat = flattenSegment(segment, tolerance);
+  const points = [
+    {point: segment.from, t: 0},
+    ...flat.map((point, i) => ({point, t: (i + 1) / flat.length})),
+  ];
+  const xs = points.map(({point}) => point[0]);
+  const ys = points.map(({point}) => point[1]);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  return {
+    segment,
+    points,
+    box: {minX, minY, width: Math.max(...xs) - minX, height: Math.max(...ys) - minY},
+  };
+}
+
+function boxesOverlap(a: ViewBox, b: ViewBox, margin: number) {
+  return a.minX <= b.minX + b.width + margin && b.minX <= a.minX + a.width + margin &&
+    a.minY <= b.minY + b.height + margin && b.minY <= a.minY + a.height + margin;
+}
+
+interface SplitPoint {
+  readonly t: number;
+  readonly point: Point;
+}
+
+/**
+ * Returns the parameter of the projection of the point onto the line segment, if the point lies
+ * on the segment, strictly between its ends.
+ */
+function pointOnEdge(point: Point, p1: Point, p2: Point, tolerance: number) {
+  const dx = p2[0] - p1[0];
+  const dy = p2[1] - p1[1];
+  const lengthSq = dx * dx + dy * dy;
+  if (!lengthSq)
+    return undefined;
+  const u = ((point[0] - p1[0]) * dx + (point[1] - p1[1]) * dy) / lengthSq;
+  if (u <= 0 || u >= 1)
+    return undefined;
+  const dist = Math.abs((point[0] - p1[0]) * dy - (point[1] - p1[1]) * dx) / Math.sqrt(lengthSq);
+  return dist <= tolerance ? u : undefined;
+}
+
+/** Finds the points where the two flattened segments cross or touch. */
+function findSplitPoints(a: FlatSegment, b: FlatSegment, tolerance: number,
+  splitsA: SplitPoint[], splitsB: SplitPoint[]) {
+  for (let i = 1; i < a.points.length; i++) {
+    const p1 = a.points[i - 1];
+    const p2 = a.points[i];
+    for (let j = 1; j < b.points.length; j++) {
+      const q1 = b.points[j - 1];
+      const q2 = b.points[j];
+      const intersection = segmentsIntersection(p1.point, p2.point, q1.point, q2.point);
+      if (intersection) {
+        const [u, v] = intersection;
+        const point: Point = [
+          p1.point[0] + u * (p2.point[0] - p1.point[0]),
+          p1.point[1] + u * (p2.point[1] - p1.point[1]),
+        ];
+        splitsA.push({t: p1.t + u * (p2.t - p1.t), point});
+        splitsB.push({t: q1.t + v * (q2.t - q1.t), point});
+      } else {
+        // Check for overlapping parallel edges.
+        for (const [q, splits, e1, e2] of [
+          [q1, splitsA, p1, p2], [q2, splitsA, p1, p2], [p1, splitsB, q1, q2], [p2, splitsB, q1, q2],
+        ] as const) {
+          const u = pointOnEdge(q.point, e1.point, e2.point, tolerance);
+          if (u !== undefined)
+            splits.push({t: e1.t + u * (e2.t - e1.t), point: q.point});
+        }
+      }
+    }
+  }
+}
+
+/** Splits the segment at the specified points. */
+function splitAtPoints(segment: Segment, splits: readonly SplitPoint[], tolerance: number) {
+  const sorted = [...splits].sort((a, b) => a.t - b.t);
+  const result: Segment[] = [];
+  let rest = segment;
+  let restStartT = 0;
+  for (const {t, point} of sorted) {
+    if (pointsDist(point, rest.from) <= tolerance || pointsDist(point, segment.to) <= tolerance)
+      continue;
+    const [left, right] = splitSegment(rest, (t - restStartT) / (1 - restStartT));
+    result.push({...left, to: point});
+    rest = {...right, from: point};
+    restStartT = t;
+  }
+  result.push(rest);
+  return result;
+}
+
+function isCollinearContinuation(first: LineSegment, second: LineSegment, tolerance: number) {
+  const [x1, y1] = first.from;
+  const [x2, y2] = first.to;
+  const [x3, y3] = second.to;
+  const dx = x2 - x1;
+  const dy = y2 - y1;
+  return Math.abs(dx * (y3 - y1) - dy * (x3 - x1)) <= tolerance * Math.hypot(dx, dy) &&
+    dx * (x3 - x2) + dy * (y3 - y2) > 0;
+}
+
+/**
+ * Computes a boolean operation on two regions, each defined by closed subpaths, using
+ * the even-odd rule. Returns the closed subpaths outlining the result, with each boundary
+ * included exactly once. The outer contours are oriented counterclockwise (in Y-up coordinates),
+ * and the holes clockwise. The curves are preserved, split at the intersection points.
+ * The subpaths ending at their start (like the outlines drawn by a turtle) are treated
+ * as closed, other open subpaths cause an error.
+ */
+export function booleanSubpaths(
+  a: readonly Subpath[],
+  b: readonly Subpath[],
+  operation: BooleanOperation,
+  {tolerance}: {tolerance?: number} = {},
+): Subpath[] {
+  const box = subpathsBoundingBox([...a, ...b]);
+  if (!box)
+    return [];
+  tolerance ??= Math.max(box.width, box.height) * 1e-5;
+  const operands = [a, b].map(subpaths =>
+    subpaths.filter(({segments}) => segments.length).map(subpath => {
+      if (!isSubpathClosed(subpath, tolerance))
+        throw new Error(`Boolean operations require closed outlines, got an open subpath ` +
+          `from ${JSON.stringify(subpath.start)} to ${JSON.stringify(subpath.segments.at(-1)!.to)}`);
+      return {...subpath, closed: true};
+    }));
+  const polygons: Polygon[][] = operands.map(subpaths =>
+    subpaths.map(subpath => flattenSubpath(subpath, tolerance)));
+  const isInside = (point: Point, operand: number) =>
+    polygons[operand].filter(polygon => isPointInPolygon(point, polygon)).length % 2 === 1;
+  const isInResult = (point: Point) => applyOperation(operation, isInside(point, 0), isInside(point, 1));
+  const flats = operands.flatMap(subpaths => subpaths.flatMap(({segments}) => segments))
+    .filter(segment => pointsDist(segment.from, segment.to) > tolerance || segment.type !== "line")
+    .map(segment => flatSegment(segment, tolerance));
+  const splits: SplitPoint[][] = flats.map(() => []);
+  for (let i = 0; i < flats.length; i++)
+    for (let j = i + 1; j < flats.length; j++)
+      if (boxesOverlap(flats[i].box, flats[j].box, tolerance))
+        findSplitPoints(flats[i], flats[j], tolerance, splits[i], splits[j]);
+  const kept: Segment[] = [];
+  const sampleDistance = 10 * tolerance;
+  for (let i = 0; i < flats.length; i++)
+    for (const piece of splitAtPoints(flats[i].segment, splits[i], tolerance)) {
+      const [dx, dy] = segmentDerivative(piece, 0.5);
+      const length = Math.hypot(dx, dy);
+      if (!length)
+        continue;
+      const [mx, my] = segmentPoint(piece, 0.5);
+      const nx = -dy / length * sampleDistance;
+      const ny = dx / length * sampleDistance;
+      const leftIn = isInResult([mx + nx, my + ny]);
+      if (leftIn === isInResult([mx - nx, my - ny]))
+        continue;
+      const oriented = leftIn ? piece : reverseSegment(piece);
+      const mid = segmentPoint(oriented, 0.5);
+      if (kept.some(other => pointsDist(other.from, oriented.from) <= tolerance &&
+        pointsDist(other.to, oriented.to) <= tolerance &&
+        pointsDist(segmentPoint(other, 0.5), mid) <= tolerance))
+        continue;
+      kept.push(oriented);
+    }
+  const result: Subpath[] = [];
+  const used = new Set<Segment>();
+  for (const first of kept) {
+    if (used.has(first))
+      continue;
+    used.add(first);
+    const segments = [first];
+    for (; ;) {
+      const end = segments.at(-1)!.to;
+      if (pointsDist(end, first.from) <= tolerance && segments.length > 1)
+        break;
+      const next = kept.find(segment => !used.has(segment) && pointsDist(segment.from, end) <= tolerance);
+      if (!next)
+        break;
+      used.add(next);
+      const last = segments.at(-1)!;
+      if (last.type === "line" && next.type === "line" && isCollinearContinuation(last, next, tolerance))
+        segments[segments.length - 1] = {type: "line", from: last.from, to: next.to};
+      else
+        segments.push(next);
+    }
+    result.push({
+      start: first.from,
+      segments,
+      closed: pointsDist(segments.at(-1)!.to, first.from) <= tolerance,
+    });
+  }
+  return result;
+}
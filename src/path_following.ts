@@ -0,0 +1,193 @@
+import {Matrix} from './matrix.ts';
+import {Path} from './path.ts';
+import {segmentLength, segmentTangent, subpathsLength, subpathsTangentAtLength} from './path_geometry.ts';
+import {Subpath, flattenSegment, flattenSubpath, segmentPoint, transformSubpaths} from './path_segments.ts';
+import {Point, pointsDist} from './point.ts';
+import {Turtle, TurtleFuncArg} from './turtle.ts';
+import {sinCos} from './util.ts';
+
+/**
+ * Where the followed path is placed:
+ * - `"turtle"` - the path is moved and rotated so that it starts at the Turtle, in the direction
+ *   of the Turtle,
+ * - `"absolute"` - the path is used as is, and the Turtle jumps to its start.
+ */
+export type FollowedPathPlacement = "turtle" | "absolute";
+
+export interface TurtleAlongPathArgs {
+  /** The path to follow. Only its first subpath is used. */
+  path: Path;
+  /**
+   * The function drawing along a straight line, starting at the Turtle and going forward.
+   * It receives the length of the path, which corresponds to the length of the line.
+   */
+  func: TurtleFuncArg<[length: number]>;
+  /** Default: `"turtle"`. */
+  placement?: FollowedPathPlacement;
+  /** The maximum deviation of the result from the exact bent shape. Default: 0.01. */
+  tolerance?: number;
+}
+
+/** A point of the path, with its distance from the start and the unit tangent. */
+interface PathSample {
+  readonly dist: number;
+  readonly point: Point;
+  readonly tangent: Point;
+}
+
+/**
+ * Returns the samples of the subpath, dense enough to interpolate it within the tolerance.
+ * The distances of the samples within each segment are scaled so that they sum up to the length
+ * of the segment.
+ */
+function pathSamples({start, segments}: Subpath, tolerance: number): PathSample[] {
+  const samples: PathSample[] = [];
+  let dist = 0;
+  for (const segment of segments) {
+    const n = flattenSegment(segment, tolerance).length;
+    const points: Point[] = [];
+    for (let i = 0; i <= n; i++)
+      points.push(segmentPoint(segment, i / n));
+    const chords = points.slice(1).map((point, i) => pointsDist(points[i], point));
+    const chordsSum = chords.reduce((sum, chord) => sum + chord, 0);
+    if (!chordsSum)
+      continue;
+    const scale = segmentLength(segment) / chordsSum;
+    let segmentDist = dist;
+    for (let i = samples.length ? 1 : 0; i <= n; i++) {
+      if (i)
+        segmentDist += chords[i - 1] * scale;
+      samples.push({dist: segmentDist, point: points[i], tangent: segmentTangent(segment, i / n)});
+    }
+    dist = segmentDist;
+  }
+  if (!samples.length)
+    throw new Error(`The path to follow has no length: ${JSON.stringify(start)}`);
+  return samples;
+}
+
+/** Returns the index of the last sample with the distance not greater than the specified one. */
+function sampleIndex(samples: readonly PathSample[], dist: number) {
+  let [lo, hi] = [0, samples.length - 1];
+  while (lo < hi) {
+    const mid = Math.ceil((lo + hi) / 2);
+    if (samples[mid].dist <= dist)
+      lo = mid;
+    else
+      hi = mid - 1;
+  }
+  return lo;
+}
+
+/**
+ * Returns the point and the tangent at the specified distance along the sampled path.
+ * Beyond the ends, the path is extended with straight lines.
+ */
+function pathFrame(samples: readonly PathSample[], dist: number) {
+  const first = samples[0];
+  const last = samples[samples.length - 1];
+  const beyond = dist < first.dist ? first : dist > last.dist ? last : undefined;
+  if (beyond) {
+    const {point: [x, y], tangent} = beyond;
+    const d = dist - beyond.dist;
+    return {point: [x + d * tangent[0], y + d * tangent[1]] as Point, tangent};
+  }
+  const i = Math.min(sampleIndex(samples, dist), samples.length - 2);
+  const [a, b] = [samples[i], samples[i + 1]];
+  const f = b.dist > a.dist ? (dist - a.dist) / (b.dist - a.dist) : 0;
+  const lerp = (p: Point, q: Point): Point => [p[0] + f * (q[0] - p[0]), p[1] + f * (q[1] - p[1])];
+  const [tx, ty] = lerp(a.tangent, b.tangent);
+  const length = Math.hypot(tx, ty) || 1;
+  return {point: lerp(a.point, b.point), tangent: [tx / length, ty / length] as Point};
+}
+
+/**
+ * Maps the point drawn by a Turtle starting at the origin and looking up, so that the line
+ * going up from the origin is bent along the sampled path.
+ */
+function bendPoint(samples: readonly PathSample[], [x, y]: Point): Point {
+  const {point: [px, py], tangent: [tx, ty]} = pathFrame(samples, -y);
+  // The right side of the tangent, in the coordinates with the Y axis pointing down.
+  return [px - x * ty, py + x * tx];
+}
+
+/** Returns the points of the polyline bent along the path, subdivided at the samples. */
+function bendPolyline(samples: readonly PathSample[], points: readonly Point[]) {
+  const result = [bendPoint(samples, points[0])];
+  for (let i = 1; i < points.length; i++) {
+    const [[x0, y0], [x1, y1]] = [points[i - 1], points[i]];
+    const [d0, d1] = [-y0, -y1];
+    const between = samples.filter(({dist}) => dist > Math.min(d0, d1) && dist < Math.max(d0, d1))
+      .map(({dist}) => (dist - d0) / (d1 - d0))
+      .sort((a, b) => a - b);
+    for (const f of between)
+      result.push(bendPoint(samples, [x0 + f * (x1 - x0), y0 + f * (y1 - y0)]));
+    result.push(bendPoint(samples, points[i]));
+  }
+  return result;
+}
+
+function tangentAngleDeg([tx, ty]: Point) {
+  return Math.atan2(tx, -ty) * 180 / Math.PI;
+}
+
+/** Returns the matrix placing the path so that it starts at the Turtle, in its direction. */
+function placementMatrix(subpath: Subpath, t: Turtle): Matrix {
+  const [sx, sy] = subpath.start;
+  const [sin, cos] = sinCos(t.angleDeg - tangentAngleDeg(subpathsTangentAtLength([subpath], 0)));
+  return [
+    cos, sin, -sin, cos,
+    t.pos[0] - (cos * sx - sin * sy),
+    t.pos[1] - (sin * sx + cos * sy),
+  ];
+}
+
+/**
+ * Executes the function as if the path was straightened into a line going forward from
+ * the Turtle, and then bends the result along the path. The sideways distances from the line are
+ * preserved as distances from the path, measured along its normal. This allows drawing e.g. tabs,
+ * slots or decorations along curved edges.
+ *
+ * The function is executed on a separate Turtle, starting with the same pen state, so it
+ * cannot use the stacks of this Turtle. The returned Turtle is in the state corresponding to
+ * the final state of the function, typically at the end of the path, in its direction.
+ *
+ * Example:
+ *
+ *     turtle.andThen(turtleAlongPath, {
+ *       path: Turtle.create().curve(t => t.right(60).forward(40).right(60)).asPath(),
+ *       func: (t, length) => t.andThen(tabs, TabsPattern.distributed({length, numTabs: 3})),
+ *     })
+ */
+export function turtleAlongPath(t: Turtle, {
+  path,
+  func,
+  placement = "turtle",
+  tolerance = 0.01,
+}: TurtleAlongPathArgs) {
+  let [subpath] = path.getSubpaths();
+  if (!subpath)
+    throw new Error(`The path to follow is empty`);
+  if (placement === "turtle")
+    subpath = transformSubpaths([subpath], placementMatrix(subpath, t))[0];
+  else if (placement !== "absolute")
+    return placement satisfies never;
+  const samples = pathSamples(subpath, tolerance);
+  const straight = Turtle.create().penDown(t.isPenDown)
+    .andThen(func, subpathsLength([subpath]));
+  for (const drawn of straight.asPath().getSubpaths()) {
+    if (!drawn.segments.length)
+      continue;
+    const points = bendPolyline(samples, flattenSubpath(drawn, tolerance));
+    if (pointsDist(points[0], t.pos) > 1e-9)
+      t = t.jumpTo(points[0]);
+    t = t.withPenDown(t => points.slice(1).reduce((t, point) => t.goTo(point), t));
+  }
+  const end = bendPoint(samples, straight.pos);
+  if (pointsDist(end, t.pos) > 1e-9)
+    t = t.jumpTo(end);
+  const {tangent} = pathFrame(samples, -straight.pos[1]);
+  return t
+    .setAngle(straight.angleDeg + tangentAngleDeg(tangent))
+    .penDown(straight.isPenDown);
+}
@@ -0,0 +1,185 @@
+import {ArcSegment, Segment, Subpath, segmentDerivative, segmentPoint, splitSegment} from './path_segments.ts';
+import {Point, pointsDist} from './point.ts';
+
+/** Nodes and weights of the 5-point Gauss-Legendre quadrature on the interval [-1, 1]. */
+const GAUSS_LEGENDRE: readonly (readonly [number, number])[] = [
+  [0, 0.5688888888888889],
+  [-0.5384693101056831, 0.4786286704993665],
+  [0.5384693101056831, 0.4786286704993665],
+  [-0.9061798459386640, 0.2369268850561891],
+  [0.9061798459386640, 0.2369268850561891],
+];
+
+/** Relative precision of the computed lengths of the curves. */
+const LENGTH_PRECISION = 1e-10;
+const MAX_INTEGRATION_DEPTH = 16;
+
+function speed(segment: Segment, t: number) {
+  return Math.hypot(...segmentDerivative(segment, t));
+}
+
+function gaussLength(segment: Segment, t0: number, t1: number) {
+  const half = (t1 - t0) / 2;
+  const mid = (t0 + t1) / 2;
+  return half * GAUSS_LEGENDRE.reduce((sum, [x, w]) => sum + w * speed(segment, mid + half * x), 0);
+}
+
+/** Integrates the speed of the segment, subdividing the interval until the result is stable. */
+function integrateLength(segment: Segment, t0: number, t1: number, whole: number, depth = 0):
+  number {
+  const mid = (t0 + t1) / 2;
+  const left = gaussLength(segment, t0, mid);
+  const right = gaussLength(segment, mid, t1);
+  const scale = Math.max(left + right, 1e-12);
+  if (depth >= MAX_INTEGRATION_DEPTH || Math.abs(left + right - whole) <= LENGTH_PRECISION * scale)
+    return left + right;
+  return integrateLength(segment, t0, mid, left, depth + 1) +
+    integrateLength(segment, mid, t1, right, depth + 1);
+}
+
+/** Returns whether the arc is a part of a circle (and not of a general ellipse). */
+export function isCircularArc({axisU: [ux, uy], axisV: [vx, vy]}: ArcSegment) {
+  const scale = ux * ux + uy * uy;
+  return Math.abs(vx * vx + vy * vy - scale) <= 1e-9 * scale &&
+    Math.abs(ux * vx + uy * vy) <= 1e-9 * scale;
+}
+
+/** Returns the length of the segment between the parameters `t0` and `t1` (from 0 to 1). */
+export function segmentLength(segment: Segment, t0 = 0, t1 = 1) {
+  if (t1 <= t0)
+    return 0;
+  if (segment.type === "line")
+    return (t1 - t0) * pointsDist(segment.from, segment.to);
+  if (segment.type === "arc" && isCircularArc(segment))
+    return (t1 - t0) * Math.abs(segment.sweepAngle) * Math.hypot(...segment.axisU);
+  return integrateLength(segment, t0, t1, gaussLength(segment, t0, t1));
+}
+
+/**
+ * Returns the parameter (from 0 to 1) of the point of the segment at the specified distance
+ * from its start, measured along the segment.
+ */
+export function segmentParamAtLength(segment: Segment, distance: number,
+  length = segmentLength(segment)) {
+  if (distance <= 0 || !length)
+    return 0;
+  if (distance >= length)
+    return 1;
+  if (segment.type === "line" || segment.type === "arc" && isCircularArc(segment))
+    return distance / length;
+  // Newton's method, falling back to bisection when the step leaves the bracket.
+  let [lo, hi] = [0, 1];
+  let t = distance / length;
+  for (let i = 0; i < 50; i++) {
+    const error = segmentLength(segment, 0, t) - distance;
+    if (Math.abs(error) <= LENGTH_PRECISION * length)
+      break;
+    if (error > 0)
+      hi = t;
+    else
+      lo = t;
+    const v = speed(segment, t);
+    const next = v ? t - error / v : NaN;
+    t = next > lo && next < hi ? next : (lo + hi) / 2;
+  }
+  return t;
+}
+
+/** Returns the unit tangent of the segment at the parameter, skipping degenerate points. */
+export function segmentTangent(segment: Segment, t: number): Point {
+  for (const delta of [0, 1e-6, 1e-3, 0.1]) {
+    const [dx, dy] = segmentDerivative(segment, t > 0.5 ? t - delta : t + delta);
+    const length = Math.hypot(dx, dy);
+    if (length > 1e-12)
+      return [dx / length, dy / length];
+  }
+  return [0, 0];
+}
+
+/** Returns the total length of the subpaths. The moves between the subpaths are not counted. */
+export function subpathsLength(subpaths: readonly Subpath[]) {
+  return subpaths.reduce((sum, {segments}) =>
+    sum + segments.reduce((sum, segment) => sum + segmentLength(segment), 0), 0);
+}
+
+/**
+ * A location on the subpaths: the index of the subpath, the index of the segment in it,
+ * and the parameter on the segment.
+ */
+interface SubpathsLocation {
+  readonly subpathIndex: number;
+  readonly segmentIndex: number;
+  readonly t: number;
+}
+
+/**
+ * Returns the location of the point at the specified distance along the subpaths. The distance
+ * is clamped to the length of the subpaths. Returns undefined if there are no segments.
+ */
+function locationAtLength(subpaths: readonly Subpath[], distance: number):
+  SubpathsLocation | undefined {
+  let last: SubpathsLocation | undefined;
+  let remaining = Math.max(distance, 0);
+  for (let subpathIndex = 0; subpathIndex < subpaths.length; subpathIndex++) {
+    const {segments} = subpaths[subpathIndex];
+    for (let segmentIndex = 0; segmentIndex < segments.length; segmentIndex++) {
+      const segment = segments[segmentIndex];
+      const length = segmentLength(segment);
+      if (remaining <= length)
+        return {subpathIndex, segmentIndex, t: segmentParamAtLength(segment, remaining, length)};
+      remaining -= length;
+      last = {subpathIndex, segmentIndex, t: 1};
+    }
+  }
+  return last;
+}
+
+function checkNotEmpty<T>(location: T | undefined): T {
+  if (!location)
+    throw new Error(`The path has no segments`);
+  return location;
+}
+
+/** Returns the point at the specified distance along the subpaths. */
+export function subpathsPointAtLength(subpaths: readonly Subpath[], distance: number): Point {
+  const {subpathIndex, segmentIndex, t} = checkNotEmpty(locationAtLength(subpaths, distance));
+  return segmentPoint(subpaths[subpathIndex].segments[segmentIndex], t);
+}
+
+/** Returns the unit tangent at the specified distance along the subpaths. */
+export function subpathsTangentAtLength(subpaths: readonly Subpath[], distance: number): Point {
+  const {subpathIndex, segmentIndex, t} = checkNotEmpty(locationAtLength(subpaths, distance));
+  return segmentTangent(subpaths[subpathIndex].segments[segmentIndex], t);
+}
+
+/**
+ * Splits the subpaths at the specified distance along them. The subpath containing the split
+ * point is divided into two open subpaths.
+ */
+export function splitSubpathsAtLength(subpaths: readonly Subpath[], distance: number):
+  [Subpath[], Subpath[]] {
+  const {subpathIndex, segmentIndex, t} = checkNotEmpty(locationAtLength(subpaths, distance));
+  const {start, segments} = subpaths[subpathIndex];
+  const segment = segments[segmentIndex];
+  const [left, right] = t <= 0 ? [undefined, segment] : t >= 1 ? [segment, undefined] :
+    splitSegment(segment, t);
+  const point = segmentPoint(segment, t);
+  return [
+    [
+      ...subpaths.slice(0, subpathIndex),
+      {
+        start,
+        segments: [...segments.slice(0, segmentIndex), ...left ? [left] : []],
+        closed: false,
+      },
+    ],
+    [
+      {
+        start: point,
+        segments: [...right ? [right] : [], ...segments.slice(segmentIndex + 1)],
+        closed: false,
+      },
+      ...subpaths.slice(subpathIndex + 1),
+    ],
+  ];
+}
@@ -0,0 +1,777 @@
+import {Matrix, applyMatrix, applyMatrixToVector, matrixDeterminant} from './matrix.ts';
+import {Point, pointsDist, pointsToString} from './point.ts';
+import {roundReasonably} from './util.ts';
+import {ViewBox} from './view_box.ts';
+
+export interface LineSegment {
+  readonly type: "line";
+  readonly from: Point;
+  readonly to: Point;
+}
+
+export interface QuadraticSegment {
+  readonly type: "quadratic";
+  readonly from: Point;
+  readonly control: Point;
+  readonly to: Point;
+}
+
+export interface CubicSegment {
+  readonly type: "cubic";
+  readonly from: Point;
+  readonly control1: Point;
+  readonly control2: Point;
+  readonly to: Point;
+}
+
+/**
+ * An elliptical arc, consisting of the points `center + cos(a) * axisU + sin(a) * axisV`
+ * for `a` going from `startAngle` to `startAngle + sweepAngle` (in radians).
+ * This representation, unlike the SVG arc parameters, is preserved by any affine transform.
+ */
+export interface ArcSegment {
+  readonly type: "arc";
+  readonly from: Point;
+  readonly to: Point;
+  readonly center: Point;
+  readonly axisU: Point;
+  readonly axisV: Point;
+  readonly startAngle: number;
+  readonly sweepAngle: number;
+}
+
+export type Segment = LineSegment | QuadraticSegment | CubicSegment | ArcSegment;
+
+/** A continuous part of a path, starting with a move command. */
+export interface Subpath {
+  readonly start: Point;
+  readonly segments: readonly Segment[];
+  readonly closed: boolean;
+}
+
+/** Number of arguments of each path command. */
+const NUM_ARGS: Readonly<Record<string, number>> = {
+  M: 2, L: 2, H: 1, V: 1, C: 6, S: 4, Q: 4, T: 2, A: 7, Z: 0,
+};
+
+const NUMBER_REGEXP = /[+-]?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/y;
+const FLAG_REGEXP = /[01]/y;
+const SEPARATORS_REGEXP = /[\s,]*/y;
+const COMMAND_REGEXP = /[MmLlHhVvCcSsQqTtAaZz]/y;
+
+/** A scanner of the tokens of a d attribute. */
+class PathDScanner {
+
+  private pos = 0;
+
+  constructor(private readonly d: string) {}
+
+  private match(regexp: RegExp) {
+    SEPARATORS_REGEXP.lastIndex = this.pos;
+    SEPARATORS_REGEXP.exec(this.d);
+    regexp.lastIndex = SEPARATORS_REGEXP.lastIndex;
+    const match = regexp.exec(this.d);
+    if (match)
+      this.pos = regexp.lastIndex;
+    return match?.[0];
+  }
+
+  atEnd() {
+    this.match(/$/y);
+    return this.pos >= this.d.length;
+  }
+
+  command() {
+    return this.match(COMMAND_REGEXP);
+  }
+
+  hasNumber() {
+    const pos = this.pos;
+    const result = this.match(NUMBER_REGEXP) !== undefined;
+    this.pos = pos;
+    return result;
+  }
+
+  /** Reads the arguments of the command. The arc flags can be written without separators. */
+  args(command: string) {
+    const result: number[] = [];
+    for (let i = 0; i < NUM_ARGS[command]; i++) {
+      const isFlag = command === "A" && (i === 3 || i === 4);
+      const token = this.match(isFlag ? FLAG_REGEXP : NUMBER_REGEXP);
+      if (token === undefined)
+        throw new Error(`Invalid arguments of ${command} in path: ${JSON.stringify(this.d)}`);
+      result.push(Number(token));
+    }
+    return result;
+  }
+
+  error(): never {
+    throw new Error(`Invalid path at position ${this.pos}: ${JSON.stringify(this.d)}`);
+  }
+
+}
+
+function reflect([px, py]: Point, [cx, cy]: Point): Point {
+  return [2 * cx - px, 2 * cy - py];
+}
+
+/**
+ * Converts the SVG arc parameters to the center parametrisation.
+ * @see https://www.w3.org/TR/SVG11/implnote.html#ArcConversionEndpointToCenter
+ */
+function arcSegment({from, to, radiusX, radiusY, xAxisRotationDeg, largeArc, sweep}: {
+  from: Point,
+  to: Point,
+  radiusX: number,
+  radiusY: number,
+  xAxisRotationDeg: number,
+  largeArc: boolean,
+  sweep: boolean,
+}): Segment {
+  let rx = Math.abs(radiusX);
+  let ry = Math.abs(radiusY);
+  if (!rx || !ry || (from[0] === to[0] && from[1] === to[1]))
+    return {type: "line", from, to};
+  const phi = xAxisRotationDeg * Math.PI / 180;
+  const cosPhi = Math.cos(phi);
+  const sinPhi = Math.sin(phi);
+  const dx = (from[0] - to[0]) / 2;
+  const dy = (from[1] - to[1]) / 2;
+  const x1 = cosPhi * dx + sinPhi * dy;
+  const y1 = -sinPhi * dx + cosPhi * dy;
+  const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+  if (lambda > 1) {
+    const sqrtLambda = Math.sqrt(lambda);
+    rx *= sqrtLambda;
+    ry *= sqrtLambda;
+  }
+  const num = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+  const den = rx * rx * y1 * y1 + ry * ry * x1 * x1;
+  let coeff = Math.sqrt(Math.max(0, num / den));
+  if (largeArc === sweep)
+    coeff = -coeff;
+  const cx1 = coeff * rx * y1 / ry;
+  const cy1 = -coeff * ry * x1 / rx;
+  const center: Point = [
+    cosPhi * cx1 - sinPhi * cy1 + (from[0] + to[0]) / 2,
+    sinPhi * cx1 + cosPhi * cy1 + (from[1] + to[1]) / 2,
+  ];
+  const startAngle = Math.atan2((y1 - cy1) / ry, (x1 - cx1) / rx);
+  const endAngle = Math.atan2((-y1 - cy1) / ry, (-x1 - cx1) / rx);
+  let sweepAngle = endAngle - startAngle;
+  if (sweep && sweepAngle < 0)
+    sweepAngle += 2 * Math.PI;
+  else if (!sweep && sweepAngle > 0)
+    sweepAngle -= 2 * Math.PI;
+  return {
+    type: "arc",
+    from,
+    to,
+    center,
+    axisU: [rx * cosPhi, rx * sinPhi],
+    axisV: [-ry * sinPhi, ry * cosPhi],
+    startAngle,
+    sweepAngle,
+  };
+}
+
+/**
+ * Parses the value of a d attribute into subpaths with absolute coordinates.
+ * @see https://developer.mozilla.org/en-US/docs/Web/SVG/Attribute/d
+ */
+export function parsePathD(d: string): Subpath[] {
+  const scanner = new PathDScanner(d);
+  const subpaths: Subpath[] = [];
+  let start: Point = [0, 0];
+  let current: Point = [0, 0];
+  let segments: Segment[] | undefined;
+  let lastSegment: Segment | undefined;
+  function finishSubpath(closed: boolean) {
+    if (segments)
+      subpaths.push({start, segments, closed});
+    segments = undefined;
+  }
+  function addSegment(segment: Segment) {
+    if (!segments)
+      segments = [];
+    segments.push(segment);
+    lastSegment = segment;
+    current = segment.to;
+  }
+  let command: string | undefined;
+  while (!scanner.atEnd()) {
+    const nextCommand = scanner.command();
+    if (nextCommand)
+      command = nextCommand;
+    else if (!command || !scanner.hasNumber() || command === "Z" || command === "z")
+      return scanner.error();
+    const upper = command.toUpperCase();
+    const relative = command !== upper;
+    const n = scanner.args(upper);
+    const pt = (x: number, y: number): Point =>
+      relative ? [current[0] + x, current[1] + y] : [x, y];
+    const prevSegment = lastSegment;
+    lastSegment = undefined;
+    switch (upper) {
+      case "M":
+        finishSubpath(false);
+        current = start = pt(n[0], n[1]);
+        segments = [];
+        // Subsequent coordinate pairs are implicit line commands.
+        command = relative ? "l" : "L";
+        break;
+      case "L":
+        addSegment({type: "line", from: current, to: pt(n[0], n[1])});
+        break;
+      case "H":
+        addSegment({type: "line", from: current, to: [relative ? current[0] + n[0] : n[0], current[1]]});
+        break;
+      case "V":
+        addSegment({type: "line", from: current, to: [current[0], relative ? current[1] + n[0] : n[0]]});
+        break;
+      case "C":
+        addSegment({
+          type: "cubic", from: current,
+          control1: pt(n[0], n[1]), control2: pt(n[2], n[3]), to: pt(n[4], n[5]),
+        });
+        break;
+      case "S":
+        addSegment({
+          type: "cubic", from: current,
+          control1: prevSegment?.type === "cubic" ? reflect(prevSegment.control2, current) : current,
+          control2: pt(n[0], n[1]), to: pt(n[2], n[3]),
+        });
+        break;
+      case "Q":
+        addSegment({type: "quadratic", from: current, control: pt(n[0], n[1]), to: pt(n[2], n[3])});
+        break;
+      case "T":
+        addSegment({
+          type: "quadratic", from: current,
+          control: prevSegment?.type === "quadratic" ? reflect(prevSegment.control, current) : current,
+          to: pt(n[0], n[1]),
+        });
+        break;
+      case "A":
+        addSegment(arcSegment({
+          from: current,
+          to: pt(n[5], n[6]),
+          radiusX: n[0],
+          radiusY: n[1],
+          xAxisRotationDeg: n[2],
+          largeArc: !!n[3],
+          sweep: !!n[4],
+        }));
+        break;
+      case "Z":
+        if (segments && (current[0] !== start[0] || current[1] !== start[1]))
+          addSegment({type: "line", from: current, to: start});
+        finishSubpath(true);
+        current = start;
+        lastSegment = undefined;
+        break;
+      default:
+        throw new Error(`Unknown command ${JSON.stringify(command)} in path: ${JSON.stringify(d)}`);
+    }
+  }
+  finishSubpath(false);
+  return subpaths;
+}
+
+function bezierPoint(points: readonly Point[], t: number): Point {
+  let pts = points;
+  while (pts.length > 1) {
+    const next: Point[] = [];
+    for (let i = 1; i < pts.length; i++)
+      next.push([
+        pts[i - 1][0] + (pts[i][0] - pts[i - 1][0]) * t,
+        pts[i - 1][1] + (pts[i][1] - pts[i - 1][1]) * t,
+      ]);
+    pts = next;
+  }
+  return pts[0];
+}
+
+export function arcPointAtAngle({center, axisU, axisV}: ArcSegment, angle: number): Point {
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return [
+    center[0] + cos * axisU[0] + sin * axisV[0],
+    center[1] + cos * axisU[1] + sin * axisV[1],
+  ];
+}
+
+export function segmentControlPoints(segment: Segment): Point[] {
+  switch (segment.type) {
+    case "line":
+      return [segment.from, segment.to];
+    case "quadratic":
+      return [segment.from, segment.control, segment.to];
+    case "cubic":
+      return [segment.from, segment.control1, segment.control2, segment.to];
+    case "arc":
+      return [segment.from, segment.to];
+    default:
+      return segment satisfies never;
+  }
+}
+
+/** Returns the point of the segment at the specified parameter, between 0 and 1. */
+export function segmentPoint(segment: Segment, t: number): Point {
+  if (t <= 0)
+    return segment.from;
+  if (t >= 1)
+    return segment.to;
+  if (segment.type === "arc")
+    return arcPointAtAngle(segment, segment.startAngle + t * segment.sweepAngle);
+  return bezierPoint(segmentControlPoints(segment), t);
+}
+
+/**
+ * Returns the derivative of the segment at the specified parameter, between 0 and 1,
+ * i.e. the direction of the segment, scaled by its speed.
+ */
+export function segmentDerivative(segment: Segment, t: number): Point {
+  switch (segment.type) {
+    case "line":
+      return [segment.to[0] - segment.from[0], segment.to[1] - segment.from[1]];
+    case "quadratic":
+    case "cubic": {
+      const points = segmentControlPoints(segment);
+      const degree = points.length - 1;
+      const diffs: Point[] = [];
+      for (let i = 1; i < points.length; i++)
+        diffs.push([
+          degree * (points[i][0] - points[i - 1][0]),
+          degree * (points[i][1] - points[i - 1][1]),
+        ]);
+      return bezierPoint(diffs, Math.min(Math.max(t, 0), 1));
+    }
+    case "arc": {
+      const {axisU, axisV, startAngle, sweepAngle} = segment;
+      const angle = startAngle + t * sweepAngle;
+      const cos = Math.cos(angle);
+      const sin = Math.sin(angle);
+      return [
+        sweepAngle * (-sin * axisU[0] + cos * axisV[0]),
+        sweepAngle * (-sin * axisU[1] + cos * axisV[1]),
+      ];
+    }
+    default:
+      return segment satisfies never;
+  }
+}
+
+/** Splits the segment at the specified parameter, between 0 and 1. */
+export function splitSegment(segment: Segment, t: number): [Segment, Segment] {
+  const point = segmentPoint(segment, t);
+  switch (segment.type) {
+    case "line":
+      return [{...segment, to: point}, {...segment, from: point}];
+    case "quadratic":
+    case "cubic": {
+      // The de Casteljau algorithm.
+      const left: Point[] = [];
+      const right: Point[] = [];
+      let points = segmentControlPoints(segment);
+      while (points.length) {
+        left.push(points[0]);
+        right.unshift(points.at(-1)!);
+        points = points.slice(1).map(([x, y], i) =>
+          [(1 - t) * points[i][0] + t * x, (1 - t) * points[i][1] + t * y]);
+      }
+      left[left.length - 1] = point;
+      right[0] = point;
+      if (segment.type === "quadratic")
+        return [
+          {type: "quadratic", from: left[0], control: left[1], to: left[2]},
+          {type: "quadratic", from: right[0], control: right[1], to: right[2]},
+        ];
+      return [
+        {type: "cubic", from: left[0], control1: left[1], control2: left[2], to: left[3]},
+        {type: "cubic", from: right[0], control1: right[1], control2: right[2], to: right[3]},
+      ];
+    }
+    case "arc": {
+      const {startAngle, sweepAngle} = segment;
+      return [
+        {...segment, to: point, sweepAngle: t * sweepAngle},
+        {
+          ...segment, from: point,
+          startAngle: startAngle + t * sweepAngle, sweepAngle: (1 - t) * sweepAngle,
+        },
+      ];
+    }
+    default:
+      return segment satisfies never;
+  }
+}
+
+/** Returns the parameters in (0, 1) where the polynomial a*t^2 + b*t + c is zero. */
+function quadraticRoots(a: number, b: number, c: number) {
+  const result: number[] = [];
+  if (Math.abs(a) < 1e-12) {
+    if (Math.abs(b) > 1e-12)
+      result.push(-c / b);
+  } else {
+    const delta = b * b - 4 * a * c;
+    if (delta >= 0) {
+      const sqrtDelta = Math.sqrt(delta);
+      result.push((-b + sqrtDelta) / (2 * a), (-b - sqrtDelta) / (2 * a));
+    }
+  }
+  return result.filter(t => t > 0 && t < 1);
+}
+
+/** Returns the parameters of the points where the segment reaches its extreme coordinates. */
+function segmentExtremaParams(segment: Segment): number[] {
+  switch (segment.type) {
+    case "line":
+      return [];
+    case "quadratic":
+      return [0, 1].flatMap(axis => {
+        const p0 = segment.from[axis];
+        const p1 = segment.control[axis];
+        const p2 = segment.to[axis];
+        const den = p0 - 2 * p1 + p2;
+        if (!den)
+          return [];
+        const t = (p0 - p1) / den;
+        return t > 0 && t < 1 ? [t] : [];
+      });
+    case "cubic":
+      return [0, 1].flatMap(axis => {
+        const p0 = segment.from[axis];
+        const p1 = segment.control1[axis];
+        const p2 = segment.control2[axis];
+        const p3 = segment.to[axis];
+        return quadraticRoots(
+          3 * (-p0 + 3 * p1 - 3 * p2 + p3),
+          6 * (p0 - 2 * p1 + p2),
+          3 * (p1 - p0));
+      });
+    case "arc": {
+      const {axisU, axisV, startAngle, sweepAngle} = segment;
+      const result: number[] = [];
+      for (const axis of [0, 1]) {
+        // Derivative -sin(a)*u + cos(a)*v is zero at a = atan2(v, u) + k*pi.
+        const base = Math.atan2(axisV[axis], axisU[axis]);
+        const lo = Math.min(startAngle, startAngle + sweepAngle);
+        const hi = Math.max(startAngle, startAngle + sweepAngle);
+        for (let k = Math.ceil((lo - base) / Math.PI); base + k * Math.PI < hi; k++) {
+          const t = (base + k * Math.PI - startAngle) / sweepAngle;
+          if (t > 0 && t < 1)
+            result.push(t);
+        }
+      }
+      return result;
+    }
+    default:
+      return segment satisfies never;
+  }
+}
+
+/** A mutable accumulator of a bounding box. */
+export class BoundsBuilder {
+
+  private minX = Infinity;
+  private minY = Infinity;
+  private maxX = -Infinity;
+  private maxY = -Infinity;
+
+  addPoint([x, y]: Point) {
+    this.minX = Math.min(this.minX, x);
+    this.minY = Math.min(this.minY, y);
+    this.maxX = Math.max(this.maxX, x);
+    this.maxY = Math.max(this.maxY, y);
+  }
+
+  addBox(box: ViewBox | undefined) {
+    if (box) {
+      this.addPoint([box.minX, box.minY]);
+      this.addPoint([box.minX + box.width, box.minY + box.height]);
+    }
+  }
+
+  isEmpty() {
+    return this.minX > this.maxX;
+  }
+
+  getBox(): ViewBox | undefined {
+    if (this.isEmpty())
+      return undefined;
+    return {
+      minX: this.minX,
+      minY: this.minY,
+      width: this.maxX - this.minX,
+      height: this.maxY - this.minY,
+    };
+  }
+
+}
+
+/** Returns the exact bounding box of the subpaths, or undefined if there are no subpaths. */
+export function subpathsBoundingBox(subpaths: readonly Subpath[]): ViewBox | undefined {
+  const bounds = new BoundsBuilder();
+  for (const {start, segments} of subpaths) {
+    bounds.addPoint(start);
+    for (const segment of segments) {
+      bounds.addPoint(segment.to);
+      for (const t of segmentExtremaParams(segment))
+        bounds.addPoint(segmentPoint(segment, t));
+    }
+  }
+  return bounds.getBox();
+}
+
+export function transformSegment(segment: Segment, matrix: Matrix): Segment {
+  const tf = (point: Point) => applyMatrix(matrix, point);
+  switch (segment.type) {
+    case "line":
+      return {type: "line", from: tf(segment.from), to: tf(segment.to)};
+    case "quadratic":
+      return {
+        type: "quadratic",
+        from: tf(segment.from), control: tf(segment.control), to: tf(segment.to),
+      };
+    case "cubic":
+      return {
+        type: "cubic",
+        from: tf(segment.from),
+        control1: tf(segment.control1), control2: tf(segment.control2),
+        to: tf(segment.to),
+      };
+    case "arc":
+      return {
+        ...segment,
+        from: tf(segment.from),
+        to: tf(segment.to),
+        center: tf(segment.center),
+        axisU: applyMatrixToVector(matrix, segment.axisU),
+        axisV: applyMatrixToVector(matrix, segment.axisV),
+      };
+    default:
+      return segment satisfies never;
+  }
+}
+
+export function transformSubpaths(subpaths: readonly Subpath[], matrix: Matrix): Subpath[] {
+  return subpaths.map(({start, segments, closed}) => ({
+    start: applyMatrix(matrix, start),
+    segments: segments.map(segment => transformSegment(segment, matrix)),
+    closed,
+  }));
+}
+
+/** Returns the segment reversed, i.e. going from its end to its start. */
+export function reverseSegment(segment: Segment): Segment {
+  switch (segment.type) {
+    case "line":
+      return {type: "line", from: segment.to, to: segment.from};
+    case "quadratic":
+      return {type: "quadratic", from: segment.to, control: segment.control, to: segment.from};
+    case "cubic":
+      return {
+        type: "cubic", from: segment.to,
+        control1: segment.control2, control2: segment.control1,
+        to: segment.from,
+      };
+    case "arc":
+      return {
+        ...segment,
+        from: segment.to,
+        to: segment.from,
+        startAngle: segment.startAngle + segment.sweepAngle,
+        sweepAngle: -segment.sweepAngle,
+      };
+    default:
+      return segment satisfies never;
+  }
+}
+
+/**
+ * Checks whether the subpath is closed: either explicitly (with `Z`), or by ending at its start
+ * point (within the tolerance), like the outlines drawn by a turtle or a `TabbedFace`.
+ */
+export function isSubpathClosed({start, segments, closed}: Subpath, tolerance: number) {
+  return closed || (segments.length > 0 && pointsDist(segments.at(-1)!.to, start) <= tolerance);
+}
+
+export function reverseSubpath({start, segments, closed}: Subpath): Subpath {
+  return {
+    start: segments.at(-1)?.to || start,
+    segments: segments.map(reverseSegment).reverse(),
+    closed,
+  };
+}
+
+/** Maximum sweep angle of an arc approximated by a single cubic Bézier curve. */
+const MAX_ARC_PIECE_ANGLE = Math.PI / 2;
+
+/**
+ * Converts the segment to lines and cubic Bézier curves. Quadratic curves are converted exactly,
+ * arcs are approximated, with each curve spanning at most 90 degrees.
+ */
+export function toLinesAndCubics(segment: Segment): (LineSegment | CubicSegment)[] {
+  switch (segment.type) {
+    case "line":
+    case "cubic":
+      return [segment];
+    case "quadratic": {
+      const {from, control, to} = segment;
+      return [{
+        type: "cubic",
+        from,
+        control1: [from[0] + 2 / 3 * (control[0] - from[0]), from[1] + 2 / 3 * (control[1] - from[1])],
+        control2: [to[0] + 2 / 3 * (control[0] - to[0]), to[1] + 2 / 3 * (control[1] - to[1])],
+        to,
+      }];
+    }
+    case "arc": {
+      const {axisU, axisV, startAngle, sweepAngle} = segment;
+      const numPieces = Math.max(1, Math.ceil(Math.abs(sweepAngle) / MAX_ARC_PIECE_ANGLE - 1e-9));
+      const pieceAngle = sweepAngle / numPieces;
+      const k = 4 / 3 * Math.tan(pieceAngle / 4);
+      const tangent = (angle: number): Point => [
+        -Math.sin(angle) * axisU[0] + Math.cos(angle) * axisV[0],
+        -Math.sin(angle) * axisU[1] + Math.cos(angle) * axisV[1],
+      ];
+      const result: CubicSegment[] = [];
+      for (let i = 0; i < numPieces; i++) {
+        const a0 = startAngle + i * pieceAngle;
+        const a1 = a0 + pieceAngle;
+        const from = i ? arcPointAtAngle(segment, a0) : segment.from;
+        const to = i === numPieces - 1 ? segment.to : arcPointAtAngle(segment, a1);
+        const t0 = tangent(a0);
+        const t1 = tangent(a1);
+        result.push({
+          type: "cubic",
+          from,
+          control1: [from[0] + k * t0[0], from[1] + k * t0[1]],
+          control2: [to[0] - k * t1[0], to[1] - k * t1[1]],
+          to,
+        });
+      }
+      return result;
+    }
+    default:
+      return segment satisfies never;
+  }
+}
+
+/**
+ * Returns the number of linear pieces needed to approximate the segment with the specified
+ * maximum deviation.
+ */
+function numFlatteningPieces(segment: Segment, tolerance: number) {
+  function bezierPieces(points: readonly Point[]) {
+    // The deviation of a chord is bounded by max|B''| / (8 * n^2).
+    const degree = points.length - 1;
+    let maxSecondDiff = 0;
+    for (let i = 2; i < points.length; i++)
+      maxSecondDiff = Math.max(maxSecondDiff, Math.hypot(
+        points[i][0] - 2 * points[i - 1][0] + points[i - 2][0],
+        points[i][1] - 2 * points[i - 1][1] + points[i - 2][1]));
+    return Math.sqrt(degree * (degree - 1) * maxSecondDiff / (8 * tolerance));
+  }
+  switch (segment.type) {
+    case "line":
+      return 1;
+    case "quadratic":
+    case "cubic":
+      return bezierPieces(segmentControlPoints(segment));
+    case "arc": {
+      const radius = Math.max(Math.hypot(...segment.axisU), Math.hypot(...segment.axisV));
+      if (tolerance >= radius)
+        return Math.abs(segment.sweepAngle) / Math.PI * 2;
+      const maxStep = 2 * Math.acos(1 - tolerance / radius);
+      return Math.abs(segment.sweepAngle) / maxStep;
+    }
+    default:
+      return segment satisfies never;
+  }
+}
+
+const MAX_FLATTENING_PIECES = 10000;
+
+/**
+ * Returns the points approximating the segment, excluding its start point, so that the polyline
+ * deviates from the segment by at most the tolerance.
+ */
+export function flattenSegment(segment: Segment, tolerance: number): Point[] {
+  if (segment.type === "line")
+    return [segment.to];
+  const n = Math.min(Math.max(Math.ceil(numFlatteningPieces(segment, tolerance)), 1),
+    MAX_FLATTENING_PIECES);
+  const result: Point[] = [];
+  for (let i = 1; i < n; i++)
+    result.push(segmentPoint(segment, i / n));
+  result.push(segment.to);
+  return result;
+}
+
+/** Returns the points of a polyline or polygon approximating the subpath. */
+export function flattenSubpath({start, segments}: Subpath, tolerance: number): Point[] {
+  return [start, ...segments.flatMap(segment => flattenSegment(segment, tolerance))];
+}
+
+/**
+ * Returns the SVG arc parameters of the arc: the radii and the rotation of the ellipse,
+ * computed from the singular value decomposition of the axes matrix.
+ */
+export function arcSVGParams({axisU, axisV, sweepAngle}: ArcSegment) {
+  const [ux, uy] = axisU;
+  const [vx, vy] = axisV;
+  const e = (ux + vy) / 2;
+  const f = (ux - vy) / 2;
+  const g = (uy + vx) / 2;
+  const h = (uy - vx) / 2;
+  const q = Math.hypot(e, h);
+  const r = Math.hypot(f, g);
+  const a1 = Math.atan2(g, f);
+  const a2 = Math.atan2(h, e);
+  const det = matrixDeterminant([ux, uy, vx, vy, 0, 0]);
+  return {
+    radiusX: q + r,
+    radiusY: Math.abs(q - r),
+    xAxisRotationDeg: (a2 + a1) / 2 * 180 / Math.PI,
+    largeArc: Math.abs(sweepAngle) > Math.PI,
+    sweep: (sweepAngle > 0) === (det > 0),
+  };
+}
+
+function segmentToPathD(segment: Segment): string {
+  switch (segment.type) {
+    case "line":
+      return `L${pointsToString([segment.to])}`;
+    case "quadratic":
+      return `Q${pointsToString([segment.control, segment.to])}`;
+    case "cubic":
+      return `C${pointsToString([segment.control1, segment.control2, segment.to])}`;
+    case "arc": {
+      if (Math.abs(segment.sweepAngle) >= 2 * Math.PI - 1e-9) {
+        // A full ellipse cannot be represented by a single arc command.
+        const half = segment.sweepAngle / 2;
+        const mid = arcPointAtAngle(segment, segment.startAngle + half);
+        return [
+          {...segment, to: mid, sweepAngle: half},
+          {...segment, from: mid, startAngle: segment.startAngle + half, sweepAngle: half},
+        ].map(segmentToPathD).join("");
+      }
+      const {radiusX, radiusY, xAxisRotationDeg, largeArc, sweep} = arcSVGParams(segment);
+      return `A${[radiusX, radiusY, xAxisRotationDeg].map(v => roundReasonably(v)).join(",")},` +
+        `${largeArc ? 1 : 0},${sweep ? 1 : 0},${pointsToString([segment.to])}`;
+    }
+    default:
+      return segment satisfies never;
+  }
+}
+
+/** Returns the value of a d attribute representing the subpaths. */
+export function subpathsToPathD(subpaths: readonly Subpath[]) {
+  return subpaths.map(({start, segments, closed}) => [
+    `M${pointsToString([start])}`,
+    ...segments.map(segmentToPathD),
+    closed ? "Z" : "",
+  ].join("")).join(" ");
+}
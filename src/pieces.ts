@@ -4,6 +4,9 @@ import {Attributes, cloneElement, createElement, getElementsBoundingBox, setAttr
 import {generateId} from './ids.ts';
 import {LayerName, Layerable, NO_LAYER, OptionalLayerName, inLayerString} from './layers.ts';
 import {NormaliseArgs, getNormaliseTransform} from './normalise_transform.ts';
+import {getPieceOutlines} from './outlines.ts';
+import {BooleanOperation, booleanSubpaths} from './path_booleans.ts';
+import {subpathsToPathD} from './path_segments.ts';
 import {Point} from './point.ts';
 import {Tf, Transform, simplifyTransform, transformedToString} from './transform.ts';
 import {AbstractTransformableTo} from './transformable.ts';
@@ -363,6 +366,7 @@ export class Piece
   /**
    * Returns this Piece's bounding box, plus the optional margin.
    * Note that this operation might be slow because it requires the browser to compute layout.
+   * With the headless DOM (see _headless.ts_) the bounding box is calculated analytically.
    */
   getBoundingBox(margin?: PartialViewBoxMargin): ViewBox {
     if (!this.boundingBox) {
@@ -404,6 +408,46 @@ export class Piece
     return gather(this, this.flipXY(center));
   }
 
+  /**
+   * Returns a single path outlining the union of the closed outlines of this Piece and the other
+   * Pieces, so that each edge is cut exactly once. The holes in each of the Pieces are determined
+   * using the even-odd rule. The outlines ending at their start (like the ones drawn by a turtle)
+   * are treated as closed, other open outlines cause an error. Texts and images are skipped.
+   * The result has the layer of this Piece, if it has a single layer.
+   */
+  union(...others: RestPieceCreateArgs) {
+    return this.booleanOperation("union", others);
+  }
+
+  /**
+   * Returns a single path outlining this Piece with the other Pieces cut out.
+   * @see {@link Piece.union}
+   */
+  subtract(...others: RestPieceCreateArgs) {
+    return this.booleanOperation("subtract", others);
+  }
+
+  /**
+   * Returns a single path outlining the common part of this Piece and all the other Pieces.
+   * @see {@link Piece.union}
+   */
+  intersect(...others: RestPieceCreateArgs) {
+    return this.booleanOperation("intersect", others);
+  }
+
+  private booleanOperation(operation: BooleanOperation, others: RestPieceCreateArgs) {
+    let subpaths = getPieceOutlines(this);
+    for (const other of flattenFilter(others))
+      subpaths = booleanSubpaths(subpaths, getPieceOutlines(Piece.create(other)), operation);
+    const result = Piece.createElement({
+      tagName: "path",
+      attributes: {d: subpathsToPathD(subpaths)},
+    });
+    const layers = this.getLayers();
+    const [layer] = layers;
+    return layers.size === 1 && layer !== NO_LAYER ? result.setLayer(layer) : result;
+  }
+
   /** Normalises (i.e. scales and/or translates) the piece to match the specified params. */
   normalise(params: NormaliseArgs, {margin}: OptMargin = {}) {
     return this.transform(getNormaliseTransform(this.getBoundingBox(margin), params));
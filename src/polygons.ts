@@ -0,0 +1,73 @@
+import {Point} from './point.ts';
+
+/** A closed polygon, specified by its vertices (without repeating the first vertex). */
+export type Polygon = readonly Point[];
+
+/**
+ * Returns the signed area of the polygon. It is positive if the polygon is oriented
+ * counterclockwise in the coordinates with the Y axis pointing up (i.e. clockwise as
+ * displayed in SVG).
+ */
+export function polygonSignedArea(polygon: Polygon) {
+  let result = 0;
+  for (let i = 0; i < polygon.length; i++) {
+    const [x1, y1] = polygon[i];
+    const [x2, y2] = polygon[(i + 1) % polygon.length];
+    result += x1 * y2 - x2 * y1;
+  }
+  return result / 2;
+}
+
+/** Checks whether the point is inside the polygon, using the even-odd rule. */
+export function isPointInPolygon([x, y]: Point, polygon: Polygon) {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [xi, yi] = polygon[i];
+    const [xj, yj] = polygon[j];
+    if ((yi > y) !== (yj > y) && x < (xj - xi) * (y - yi) / (yj - yi) + xi)
+      inside = !inside;
+  }
+  return inside;
+}
+
+/**
+ * Returns the number of the other polygons containing the first vertex of the polygon with
+ * the specified index. Using the even-odd rule, the polygon is a hole if the number is odd.
+ */
+export function polygonNestingDepth(polygons: readonly Polygon[], index: number) {
+  let depth = 0;
+  for (let j = 0; j < polygons.length; j++)
+    if (j !== index && polygons[j].length && isPointInPolygon(polygons[index][0], polygons[j]))
+      depth++;
+  return depth;
+}
+
+/**
+ * Returns the parameters of the intersection point of the segments `p1-p2` and `q1-q2`,
+ * as the fractions of the lengths of the segments, or undefined if the segments don't intersect
+ * (or are parallel).
+ */
+export function segmentsIntersection(p1: Point, p2: Point, q1: Point, q2: Point):
+  [number, number] | undefined {
+  const dpx = p2[0] - p1[0];
+  const dpy = p2[1] - p1[1];
+  const dqx = q2[0] - q1[0];
+  const dqy = q2[1] - q1[1];
+  const denominator = dpx * dqy - dpy * dqx;
+  if (!denominator)
+    return undefined;
+  const rx = q1[0] - p1[0];
+  const ry = q1[1] - p1[1];
+  const u = (rx * dqy - ry * dqx) / denominator;
+  const v = (rx * dpy - ry * dpx) / denominator;
+  return u >= 0 && u <= 1 && v >= 0 && v <= 1 ? [u, v] : undefined;
+}
+
+/** Returns the distance from the point to the segment `a-b`. */
+export function distanceToSegment([px, py]: Point, [ax, ay]: Point, [bx, by]: Point) {
+  const [dx, dy] = [bx - ax, by - ay];
+  const lengthSq = dx * dx + dy * dy;
+  const t =
+    lengthSq ? Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / lengthSq)) : 0;
+  return Math.hypot(px - ax - t * dx, py - ay - t * dy);
+}
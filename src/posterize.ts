@@ -0,0 +1,63 @@
+import {getImageLightness} from './dithering.ts';
+import {ditherOptionsFromPartial, GrayBand, PartialPrintOptions, PartialRunOptions, runIdFromPartial} from './options.ts';
+
+/**
+ * Splits a print run with the `posterize` option into a run for each band of gray, starting
+ * from the darkest. The lightness range of the non-white colours is divided into equal bands,
+ * and the fraction of the power for each band is proportional to its darkness, so that the
+ * darkest band uses the full power, and the lightest one uses `1 / levels` of it.
+ *
+ * The run of each band includes the same layers as the original run, and has the id
+ * `<id>-band<n>`. In the laser output, the contents of the runs of the bands are rendered
+ * as images, containing only the pixels from the band (this requires the browser).
+ * In the preview, and in the laser output in the headless mode, the content is included
+ * as vectors only in the run of the darkest band, and the runs of the other bands are empty,
+ * so the content is shown (or engraved) once.
+ *
+ * The other runs are returned unchanged.
+ */
+export function posterizeRun<R extends PartialRunOptions>(run: R): R[] {
+  if (run.type !== "print" || run.posterize === undefined)
+    return [run];
+  const {posterize, ...printRun}: PartialPrintOptions = run;
+  const {levels, styleAttributes} =
+    typeof posterize === "number" ? {levels: posterize} : posterize;
+  if (!(levels >= 1 && Number.isInteger(levels)))
+    throw new Error(`Expected a positive integer number of posterize levels, got: ${levels}`);
+  if (ditherOptionsFromPartial(printRun.dither).enable)
+    throw new Error(`A posterized run cannot be dithered`);
+  const id = runIdFromPartial(run);
+  const layers = run.layers || [id];
+  return Array.from({length: levels}, (_, index) => {
+    const grayBand: GrayBand = {
+      index,
+      count: levels,
+      minLightness: index === 0 ? 0 : index / (levels + 1),
+      maxLightness: (index + 1) / (levels + 1),
+      powerFactor: (levels - index) / levels,
+    };
+    return {
+      ...printRun,
+      id: `${id}-band${index + 1}`,
+      layers,
+      styleAttributes: styleAttributes?.(grayBand) ?? run.styleAttributes,
+      grayBand,
+    } as R;
+  });
+}
+
+/**
+ * Converts the image in place to an image with opaque black pixels where the lightness of the
+ * original image belongs to the band, and white pixels elsewhere. The transparent parts of
+ * the image are treated as white.
+ */
+export function extractGrayBandImageData(imageData: ImageData,
+  {minLightness, maxLightness}: GrayBand) {
+  const lightness = getImageLightness(imageData);
+  const {data} = imageData;
+  for (let i = 0; i < lightness.length; i++) {
+    const value = lightness[i] / 0xFF;
+    const isBand = value >= minLightness && value < maxLightness;
+    data.set(isBand ? [0, 0, 0, 0xFF] : [0xFF, 0xFF, 0xFF, data[4 * i + 3] ? 0xFF : 0], 4 * i);
+  }
+}
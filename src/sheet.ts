@@ -1,13 +1,17 @@
 import {ArtifactData, PartialArtifactData, artifactDataFromPartial, saveArtifact} from './artifacts.ts';
+import {orderCutPaths} from './cut_order.ts';
+import {removeDuplicateLines} from './duplicate_lines.ts';
 import {Attributes, createElement, createSVG, setAttributes} from './elements.ts';
 import * as figures from './figures.ts';
 import {Font} from './fonts.ts';
+import {isHeadlessDOM} from './headless.ts';
 import {Image} from './images.ts';
 import {NO_LAYER} from './layers.ts';
 import * as layouts from './layouts.ts';
 import {getNameSizeSuffix, getSizeString, getSuffixedFileName} from './name.ts';
 import {Medium, PartialRunOptions, PartialSheetOptions, RunOptions, SheetOptions, Side, runOptionsFromPartial, sheetOptionsFromPartial} from './options.ts';
 import {BasicPiece, Defs, Piece, gather} from './pieces.ts';
+import {posterizeRun} from './posterize.ts';
 import {getPNGDataURI} from './svg_converter.ts';
 import {saveSVG, saveSVGAsPNG} from './svg_saver.ts';
 import {createText} from './text.ts';
@@ -129,7 +133,7 @@ export class Sheet {
     const fullMargin = viewBoxMarginFromPartial(margin);
     const box = viewBox === "auto" ? fullPieces.getBoundingBox(fullMargin) :
       extendViewBox(viewBoxFromPartial(viewBox), margin);
-    const allRuns = flatten(runs || DEFAULT_RUNS);
+    const allRuns = flatten(runs || DEFAULT_RUNS).flatMap(posterizeRun);
     const runOptionsMap = new Map<string, RunOptions>();
     const emptyRuns = new Set<string>();
     for (const opts of allRuns) {
@@ -175,6 +179,15 @@ export class Sheet {
       }
       if (runOptions.side === "back")
         pieces = pieces.flipX(this.viewBox.minX + this.viewBox.width / 2);
+      if (runOptions.type === "cut") {
+        if (runOptions.removeDuplicateLines)
+          pieces = removeDuplicateLines(pieces);
+        if (runOptions.cutOrder.enable)
+          pieces = orderCutPaths(pieces, {
+            ...runOptions.cutOrder,
+            start: [this.viewBox.minX, this.viewBox.minY],
+          });
+      }
       if (this.options.cornersMarker.enable && runOptions.includeCornersMarker)
         pieces = gather(pieces, this.getCornersMarkerRawPiece(medium));
     }
@@ -305,10 +318,19 @@ export class Sheet {
   private async getRawSVG({
     medium,
     printsAsImages = false,
+    printsAsVectors = false,
+    grayBandsAsImages = medium === "laser" && !isHeadlessDOM(),
     runsSelector = {},
   }: {
     medium: Medium,
     printsAsImages?: boolean,
+    /** Whether the print runs should be included as vectors, with the full content of the bands. */
+    printsAsVectors?: boolean,
+    /**
+     * Whether the gray band runs are rendered as images containing just their band. Otherwise
+     * the content is included as vectors only in the run of the darkest band.
+     */
+    grayBandsAsImages?: boolean,
     runsSelector?: PartialRunsSelector,
   }): Promise<SVGSVGElement> {
     const {runs, cornersMarker, reversingFrame} =
@@ -319,23 +341,33 @@ export class Sheet {
       group: SVGGElement,
       extraAttributes?: Attributes,
       sibling?: SVGElement,
+      rasterized?: boolean,
     }[] = [];
     for (const id of this.runsOrAll(runs)) {
       const runOptions = this.getRunOptions(id);
       let defs;
       let group;
-      if (runOptions.type === "print" && printsAsImages) {
+      const grayBand = runOptions.type === "print" ? runOptions.grayBand : undefined;
+      const rasterized = runOptions.type === "print" && !printsAsVectors &&
+        (printsAsImages || (grayBand !== undefined && grayBandsAsImages));
+      if (grayBand && grayBand.index > 0 && !rasterized && !printsAsVectors)
+        group = createElement({tagName: "g", attributes: {id: runOptions.id}});
+      else if (rasterized) {
         // TODO: Consider converting pieces to PNG separately, at declared levels.
         group = (await Image.fromURL(await getPNGDataURI(
           await this.getRawSVG({
             medium,
-            printsAsImages: false,
+            printsAsVectors: true,
             runsSelector: {
               runs: [id],
               cornersMarker,
               reversingFrame,
             },
-          }), this.options.resolution),
+          }), {
+            ...this.options.resolution,
+            dither: runOptions.dither,
+            grayBand,
+          }),
           {
             scaling: {
               width: this.viewBox.width,
@@ -346,7 +378,7 @@ export class Sheet {
           .asG({id: runOptions.id});
       } else
         ({defs, runGroup: group} = this.getRunPiece({runOptions, medium}));
-      runsData.push({id, defs, group});
+      runsData.push({id, defs, group, rasterized});
     }
     if (cornersMarker)
       runsData.push(this.getCornersMarker(medium));
@@ -364,6 +396,11 @@ export class Sheet {
           runData.sibling = this.runHandles.get(runData.id);
     }
     const defsElement = gather(runsData.map(({defs}) => defs)).getDefsElement();
+    const {toneCurve} = this.options;
+    if (medium === "laser" && toneCurve)
+      // The runs rendered as images are rendered from the corrected SVG.
+      await Promise.all([defsElement, ...runsData.filter(({rasterized}) => !rasterized)
+        .map(({group}) => group)].map(element => element && toneCurve.applyToSVG(element)));
     const groups = runsData.map(({id, group, extraAttributes, sibling}) => {
       if (extraAttributes || sibling) {
         setAttributes(group, {id: undefined});
@@ -520,12 +557,18 @@ export class Sheet {
    * If the runs selector is specified, the SVG will only contain the specified runs.
    * If `printsAsImages` is specified, all the print layers are actually pre-rendered images,
    * which is helpful if the laser cutter software doesn't implement all the features of SVG.
+   *
+   * The runs of the gray bands of posterized print runs are pre-rendered images if
+   * `grayBandsAsImages` is true (by default, except in the headless mode). Otherwise
+   * the whole content is included as vectors in the run of the darkest band, and the runs
+   * of the other bands are empty.
    */
-  async getLaserSVG({printsAsImages, runsSelector}: {
+  async getLaserSVG({printsAsImages, grayBandsAsImages, runsSelector}: {
     printsAsImages?: boolean,
+    grayBandsAsImages?: boolean,
     runsSelector?: PartialRunsSelector,
   } = {}) {
-    return await this.getRawSVG({medium: "laser", printsAsImages, runsSelector});
+    return await this.getRawSVG({medium: "laser", printsAsImages, grayBandsAsImages, runsSelector});
   }
 
   /** Returns the file name for the laser SVG file with the given params (without extension). */
@@ -737,6 +780,10 @@ export class Sheet {
     return container;
   }
 
+  getArtifacts() {
+    return this.artifacts;
+  }
+
   getSaveArtifactsButtons() {
     if (!this.artifacts.length)
       return undefined;
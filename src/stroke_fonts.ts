@@ -0,0 +1,219 @@
+import {TextOutlinesAlign} from './font_outlines.ts';
+import * as futural from './hershey/futural.ts';
+import * as futuram from './hershey/futuram.ts';
+import * as scripts from './hershey/scripts.ts';
+import * as timesr from './hershey/timesr.ts';
+import {Path} from './path.ts';
+import {Subpath, subpathsToPathD} from './path_segments.ts';
+import {Point} from './point.ts';
+
+/** The Hershey fonts bundled with the library. */
+export const HERSHEY_FONTS = {
+  /** Roman simplex, a single-stroke sans-serif font. */
+  futural: futural.jhf,
+  /** Roman duplex, a double-stroke sans-serif font. */
+  futuram: futuram.jhf,
+  /** Script simplex, a single-stroke script font. */
+  scripts: scripts.jhf,
+  /** Roman complex, a multi-stroke serif font. */
+  timesr: timesr.jhf,
+} as const;
+
+export type HersheyFontName = keyof typeof HERSHEY_FONTS;
+
+export const DEFAULT_HERSHEY_FONT: HersheyFontName = "futural";
+
+export interface StrokeTextOptions {
+  /** The font size, i.e. the size of the em square. Default: 1. */
+  readonly size?: number;
+  /** The additional space between the characters, in the same units as the size. Default: 0. */
+  readonly letterSpacing?: number;
+  /** The distance between the baselines of the lines, as a multiple of the size. Default: 1. */
+  readonly lineHeight?: number;
+  /**
+   * The horizontal alignment of the lines relative to the origin or, if the path is specified,
+   * relative to the start, the middle or the end of the path. Default: `"start"`.
+   */
+  readonly align?: TextOutlinesAlign;
+  /**
+   * The path along which the text is placed, like in a `PathForText`. Each character is placed
+   * on the path at the position of its middle, rotated according to the direction of the path.
+   * The characters not fitting on the path are omitted.
+   */
+  readonly path?: Path;
+}
+
+interface StrokeGlyph {
+  readonly left: number;
+  readonly right: number;
+  /** The open polylines of the glyph, with the X axis at the baseline, pointing down. */
+  readonly strokes: readonly (readonly Point[])[];
+}
+
+/** The value of the coordinate encoded by the character in the JHF format. */
+function jhfCoord(char: string) {
+  return char.charCodeAt(0) - "R".charCodeAt(0);
+}
+
+/**
+ * Parses the glyphs from the JHF format. A record can be split across multiple lines.
+ * @see https://paulbourke.net/dataformats/hershey/
+ */
+function parseJHF(jhf: string, baseline: number): StrokeGlyph[] {
+  const glyphs: StrokeGlyph[] = [];
+  const lines = jhf.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    let record = lines[i];
+    if (!record.trim())
+      continue;
+    const numVertices = Number(record.slice(5, 8));
+    if (!Number.isInteger(numVertices))
+      throw new Error(`Invalid JHF record: ${JSON.stringify(record)}`);
+    while (record.length < 8 + 2 * numVertices && i + 1 < lines.length)
+      record += lines[++i];
+    const strokes: Point[][] = [];
+    let stroke: Point[] = [];
+    for (let pos = 10; pos + 1 < 8 + 2 * numVertices; pos += 2) {
+      if (record.slice(pos, pos + 2) === " R") {
+        strokes.push(stroke);
+        stroke = [];
+      } else
+        stroke.push([jhfCoord(record[pos]), jhfCoord(record[pos + 1]) - baseline]);
+    }
+    strokes.push(stroke);
+    glyphs.push({
+      left: jhfCoord(record[8]),
+      right: jhfCoord(record[9]),
+      strokes: strokes.filter(stroke => stroke.length >= 2),
+    });
+  }
+  return glyphs;
+}
+
+/**
+ * A single-line (stroke) font, like the Hershey fonts. Unlike outline fonts, which produce
+ * double lines when scored, the text is drawn as open strokes, suitable for engraving
+ * and scoring in a line mode.
+ */
+export class StrokeFont {
+
+  protected constructor(
+    private readonly glyphs: ReadonlyMap<number, StrokeGlyph>,
+    /** The size of the em square in font units. */
+    readonly unitsPerEm: number,
+  ) {}
+
+  /**
+   * Creates a font from data in the JHF format, with the consecutive glyphs assigned to
+   * the consecutive code points, starting at `firstCodePoint` (the space by default).
+   * The baseline is at the specified Y coordinate, in font units.
+   */
+  static fromJHF(jhf: string, {firstCodePoint = 32, unitsPerEm = 32, baseline = 9}: {
+    firstCodePoint?: number,
+    unitsPerEm?: number,
+    baseline?: number,
+  } = {}) {
+    return new StrokeFont(
+      new Map(parseJHF(jhf, baseline).map((glyph, i) => [firstCodePoint + i, glyph])),
+      unitsPerEm,
+    );
+  }
+
+  /** Returns one of the bundled Hershey fonts. */
+  static hershey(name: HersheyFontName = DEFAULT_HERSHEY_FONT) {
+    let font = hersheyFontsCache.get(name);
+    if (!font) {
+      font = StrokeFont.fromJHF(HERSHEY_FONTS[name]);
+      hersheyFontsCache.set(name, font);
+    }
+    return font;
+  }
+
+  /** Returns whether the font has a glyph for the character. */
+  hasGlyph(char: string) {
+    return this.glyphs.has(char.codePointAt(0) ?? NaN);
+  }
+
+  /** Returns the glyph for the character. The missing characters are replaced with spaces. */
+  private getGlyph(char: string) {
+    return this.glyphs.get(char.codePointAt(0) ?? NaN) || this.glyphs.get(32) ||
+      {left: -this.unitsPerEm / 4, right: this.unitsPerEm / 4, strokes: []};
+  }
+
+  private layout(text: string, {
+    size = 1,
+    letterSpacing = 0,
+    lineHeight = 1,
+    align = "start",
+  }: StrokeTextOptions) {
+    const scale = size / this.unitsPerEm;
+    return text.split(/\r?\n/).map((line, lineIndex) => {
+      const glyphs: {glyph: StrokeGlyph, x: number}[] = [];
+      let x = 0;
+      for (const char of line) {
+        if (glyphs.length)
+          x += letterSpacing;
+        const glyph = this.getGlyph(char);
+        glyphs.push({glyph, x});
+        x += (glyph.right - glyph.left) * scale;
+      }
+      const alignShift = align === "start" ? 0 : align === "center" ? -x / 2 :
+        align === "end" ? -x : align satisfies never;
+      return {
+        glyphs: glyphs.map(({glyph, x}) => ({glyph, x: x + alignShift})),
+        width: x,
+        y: lineIndex * lineHeight * size,
+        scale,
+      };
+    });
+  }
+
+  /** Returns the width of the longest line of the text. */
+  getTextWidth(text: string, options: StrokeTextOptions = {}) {
+    return Math.max(...this.layout(text, options).map(({width}) => width));
+  }
+
+  /**
+   * Returns a Path with the strokes of the text. The first line of the text is placed on
+   * the X axis, which is the baseline, and the subsequent lines (separated by newlines)
+   * are placed below it. If the path is specified, the text is placed along it instead.
+   */
+  getTextPath(text: string, options: StrokeTextOptions = {}) {
+    const {path, align = "start"} = options;
+    const pathLength = path?.getTotalLength();
+    const pathStart = pathLength === undefined ? 0 :
+      align === "start" ? 0 : align === "center" ? pathLength / 2 : pathLength;
+    const subpaths: Subpath[] = [];
+    for (const {glyphs, y, scale} of this.layout(text, options))
+      for (const {glyph, x} of glyphs) {
+        const width = (glyph.right - glyph.left) * scale;
+        // The point on the baseline in the middle of the glyph, and the direction of the baseline.
+        let origin: Point = [x + width / 2, y];
+        let [dx, dy] = [1, 0];
+        if (path && pathLength !== undefined) {
+          const middle = pathStart + origin[0];
+          if (middle < 0 || middle > pathLength)
+            continue;
+          const [px, py] = path.getPointAtLength(middle);
+          [dx, dy] = path.getTangentAtLength(middle);
+          origin = [px - y * dy, py + y * dx];
+        }
+        const mapPoint = ([gx, gy]: Point): Point => {
+          const [u, v] = [(gx - (glyph.left + glyph.right) / 2) * scale, gy * scale];
+          return [origin[0] + u * dx - v * dy, origin[1] + u * dy + v * dx];
+        };
+        for (const stroke of glyph.strokes) {
+          const points = stroke.map(mapPoint);
+          subpaths.push({
+            start: points[0],
+            segments: points.slice(1).map((to, i) => ({type: "line", from: points[i], to})),
+            closed: false,
+          });
+        }
+      }
+    return Path.fromD(subpathsToPathD(subpaths));
+  }
+
+}
+
+const hersheyFontsCache = new Map<HersheyFontName, StrokeFont>();
@@ -1,36 +1,56 @@
+import {ditherImageData} from './dithering.ts';
 import {PNGAllowTransparency, getGlobalOptions} from './global_options.ts';
+import {isHeadlessDOM} from './headless.ts';
+import {DitherOptions, GrayBand} from './options.ts';
+import {extractGrayBandImageData} from './posterize.ts';
 import {assert} from './util.ts';
 
+export function getSVGString(svg: SVGSVGElement) {
+  return new XMLSerializer().serializeToString(svg);
+}
+
 export function getSVGBlob(svg: SVGSVGElement) {
-  return new Blob(
-    [new XMLSerializer().serializeToString(svg)],
-    {type: "image/svg+xml;charset=utf-8"});
+  return new Blob([getSVGString(svg)], {type: "image/svg+xml;charset=utf-8"});
 }
 
 export interface PartialPNGConversionParams {
   pixelsPerUnit: number;
   allowTransparency?: PNGAllowTransparency;
+  /** If specified and enabled, the rendered image is converted to a 1-bit image. */
+  dither?: DitherOptions;
+  /** If specified, only the pixels from the band are included, as black. */
+  grayBand?: GrayBand;
 }
 interface PNGConversionParams {
   readonly pixelsPerUnit: number;
   readonly allowTransparency: PNGAllowTransparency;
+  readonly dither?: DitherOptions;
+  readonly grayBand?: GrayBand;
 }
 function pngConversionParamsFromPartial({
   pixelsPerUnit,
   allowTransparency = getGlobalOptions().pngAllowTransparency,
+  dither,
+  grayBand,
 }: PartialPNGConversionParams): PNGConversionParams {
   return {
     pixelsPerUnit,
     allowTransparency,
+    dither: dither?.enable ? dither : undefined,
+    grayBand,
   };
 }
 
-/** Converts the SVG to PNG, returned as a data URI, using the specified conversion params. */
-export async function getPNGDataURI(
-  svg: SVGSVGElement, conversionParams: PartialPNGConversionParams): Promise<string> {
+/** Renders the SVG on a canvas, using the specified conversion params. */
+async function renderToCanvas(
+  svg: SVGSVGElement, conversionParams: PartialPNGConversionParams): Promise<HTMLCanvasElement> {
+  if (isHeadlessDOM())
+    throw new Error(`Conversion to PNG is not supported in the headless mode`);
   const {
     pixelsPerUnit,
     allowTransparency,
+    dither,
+    grayBand,
   } = pngConversionParamsFromPartial(conversionParams);
   const svgURL = URL.createObjectURL(getSVGBlob(svg));
   const viewBox = svg.viewBox.baseVal;
@@ -45,9 +65,17 @@ export async function getPNGDataURI(
     ctx.fillRect(0, 0, w, h);
   }
   const img = new Image();
-  return await new Promise<string>(resolve => {
+  return await new Promise<HTMLCanvasElement>(resolve => {
     img.onload = () => {
       ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      if (dither || grayBand) {
+        const imageData = ctx.getImageData(0, 0, w, h);
+        if (grayBand)
+          extractGrayBandImageData(imageData, grayBand);
+        else if (dither)
+          ditherImageData(imageData, dither);
+        ctx.putImageData(imageData, 0, 0);
+      }
       if (allowTransparency === "ifWhite" || allowTransparency === "iffWhite") {
         const imageData = ctx.getImageData(0, 0, w, h);
         const d = imageData.data;
@@ -76,8 +104,27 @@ export async function getPNGDataURI(
       requestAnimationFrame(() => {
         URL.revokeObjectURL(svgURL);
       });
-      resolve(canvas.toDataURL());
+      resolve(canvas);
     };
     img.src = svgURL;
   });
 }
+
+/**
+ * Converts the SVG to PNG, returned as a data URI, using the specified conversion params.
+ * This requires the browser, it is not supported with the headless DOM.
+ */
+export async function getPNGDataURI(
+  svg: SVGSVGElement, conversionParams: PartialPNGConversionParams): Promise<string> {
+  return (await renderToCanvas(svg, conversionParams)).toDataURL();
+}
+
+/**
+ * Converts the SVG to pixels, the same way as for the PNG conversion.
+ * This requires the browser, it is not supported with the headless DOM.
+ */
+export async function getImageData(
+  svg: SVGSVGElement, conversionParams: PartialPNGConversionParams): Promise<ImageData> {
+  const canvas = await renderToCanvas(svg, conversionParams);
+  return assert(canvas.getContext("2d")).getImageData(0, 0, canvas.width, canvas.height);
+}
@@ -1,6 +1,7 @@
-import {PartialInterlockOptions, PartialTabsOptions, TabsOptions, TurtleTabsFunc, turtleInterlock as origTurtleInterlock, tabsOptionsFromPartial, turtleTabs} from './interlock.ts';
+import {PartialInterlockOptions, PartialTabsOptions, TabsOptions, TurtleTabsFunc, matchingTabShape, turtleInterlock as origTurtleInterlock, tabsOptionsFromPartial, turtleTabs} from './interlock.ts';
 import {TabsPattern} from './interlock_patterns.ts';
 import {SimpleLazyPiece} from './lazy_piece.ts';
+import {PartialLivingHingeOptions, livingHingeLength, turtleLivingHinge} from './living_hinge.ts';
 import {DefaultPiece, Piece, PieceFunc} from './pieces.ts';
 import {ORIGIN, Point} from './point.ts';
 import {LazyTurtleFunc, PartialCurveArgs, Turtle, TurtleFunc, TurtleFuncArg} from './turtle.ts';
@@ -77,35 +78,42 @@ function getPointLevel(
 const MAX_FORWARD_LEN_MULTIPLIER_ON_TURN = 1e3;
 
 function lazyMappedObject<K extends string, V, U>(
-  object: Readonly<Record<K, V>>, func: (val: V) => U): Readonly<Record<K, U>> {
+  object: Readonly<Record<K, V>>, func: (val: V, key: K) => U): Readonly<Record<K, U>> {
   return new Proxy({}, {
-    get: (_, key: K) => func(object[key]),
+    get: (_, key: K) => func(object[key], key),
   }) as Readonly<Record<K, U>>;
 }
 
-interface TabsDict<P extends string = never> {
+export interface TabsDict<P extends string = never> {
   readonly tt: Readonly<Record<P, ExpandedTabsFuncParams>>;
   readonly fit: Readonly<Record<P, ExpandedTabsFuncParams>>;
   readonly pat: Readonly<Record<P, TabsPattern>>;
+  readonly opt: Readonly<Record<P, TabsOptions>>;
 }
 
 function bInv(b: boolean | "auto" | undefined) {
   return b === "auto" || b === undefined ? b : !b;
 }
 
+/**
+ * Returns the tabs matching the specified tabs. The face options are used to determine the shape
+ * of the tabs, if it is not specified directly.
+ */
 function matchingTabs({
   pattern,
   onTabLevel,
   startOnTab,
   endOnTab,
   options,
-}: ExpandedTabsFuncParams): ExpandedTabsFuncParams {
+}: ExpandedTabsFuncParams, faceOptions: TabsOptions): ExpandedTabsFuncParams {
+  const tabShape = options?.tabShape ?? faceOptions.tabShape;
   return {
     pattern: pattern.matchingTabs(),
     onTabLevel: bInv(onTabLevel),
     startOnTab: bInv(startOnTab),
     endOnTab: bInv(endOnTab),
-    options,
+    options: tabShape === "rectangle" ? options :
+      {...options, tabShape: matchingTabShape(tabShape)},
   };
 }
 
@@ -127,22 +135,27 @@ function reverseTabs({
 
 class LazySimpleTabsDict<P extends string = never> implements TabsDict<P> {
 
-  static readonly EMPTY = new LazySimpleTabsDict({});
+  static readonly EMPTY = new LazySimpleTabsDict({}, {});
 
   readonly fit;
   readonly pat;
 
   protected constructor(
     readonly tt: Readonly<Record<P, ExpandedTabsFuncParams>>,
+    readonly opt: Readonly<Record<P, TabsOptions>>,
   ) {
-    this.fit = lazyMappedObject(tt, args => reverseTabs(matchingTabs(args)));
+    this.fit = lazyMappedObject(tt, (args, name) => reverseTabs(matchingTabs(args, opt[name])));
     this.pat = lazyMappedObject(tt, ({pattern}) => pattern);
   }
 
-  addTabs(name: P, tabs: ExpandedTabsFuncParams): never;
-  addTabs<N extends string>(name: N, tabs: ExpandedTabsFuncParams): LazySimpleTabsDict<P | N>;
-  addTabs(name: string, tabs: ExpandedTabsFuncParams) {
-    return new LazySimpleTabsDict({...this.tt, [name]: tabs});
+  addTabs(name: P, tabs: ExpandedTabsFuncParams, faceOptions: TabsOptions): never;
+  addTabs<N extends string>(name: N, tabs: ExpandedTabsFuncParams, faceOptions: TabsOptions):
+    LazySimpleTabsDict<P | N>;
+  addTabs(name: string, tabs: ExpandedTabsFuncParams, faceOptions: TabsOptions) {
+    return new LazySimpleTabsDict(
+      {...this.tt, [name]: tabs},
+      {...this.opt, [name]: {...faceOptions, ...tabs.options}},
+    );
   }
 
 }
@@ -296,6 +309,8 @@ export class TabbedFace<P extends string = never>
   readonly fit;
   /** A dictionary of just the patterns, `pat.x` is short for `tt.x.pattern`. */
   readonly pat;
+  /** A dictionary of the effective options of the named tabs, at the time they were stored. */
+  readonly opt;
 
   protected constructor(
     readonly startPos: Point,
@@ -310,6 +325,7 @@ export class TabbedFace<P extends string = never>
     this.tt = tabsDict.tt;
     this.fit = tabsDict.fit;
     this.pat = tabsDict.pat;
+    this.opt = tabsDict.opt;
   }
 
   static create(options: PartialTabsOptions, args?: CreateArgs): TabbedFace;
@@ -418,6 +434,33 @@ export class TabbedFace<P extends string = never>
       .fromTabLevel(onTabLevel);
   }
 
+  /**
+   * Draws a segment without tabs, on the base level, of the length needed to bend the face
+   * around a rounded corner with the specified angle and inner radius, e.g. the corner of
+   * the base of a box, drawn with `arcRight`. The segment has a living hinge pattern on the inner
+   * side of the face (opposite to the tabs), reaching the specified height into the face.
+   * The material thickness defaults to the tab width.
+   * @see {@link livingHingeLength}
+   */
+  livingHinge({angleDeg, radius, height, materialThickness = this.options.tabWidth, ...options}: {
+    angleDeg: number,
+    radius: number,
+    height: number,
+    materialThickness?: number,
+  } & PartialLivingHingeOptions) {
+    const length = livingHingeLength({angleDeg, radius, materialThickness});
+    const side = this.options.tabsDir === "left" ? "right" : "left";
+    return this
+      .branchTurtle({fromTabLevel: false}, t => turtleLivingHinge(t, {
+        length,
+        height,
+        materialThickness,
+        side,
+        ...options,
+      }))
+      .noTabs(TabsPattern.base(length));
+  }
+
   private expandTabsFuncParams(tabsParams: RestTabsParams<P>) {
     const [base, ...modifiers] = tabsParams;
     let params = expandTabsFuncParams(typeof base === "string" ? this.tt[base] : base);
@@ -426,7 +469,7 @@ export class TabbedFace<P extends string = never>
       if (reverse)
         params = reverseTabs(params);
       if (invert)
-        params = matchingTabs(params);
+        params = matchingTabs(params, this.options);
     }
     return params;
   }
@@ -707,7 +750,7 @@ export class TabbedFace<P extends string = never>
 
   private appendNamedTabs(name: string, tabsParams: ExpandedTabsFuncParams) {
     return new TabbedFace(this.startPos, this.startAngle, this.mode, this.options,
-      this.segments, this.tabsDict.addTabs(name, tabsParams));
+      this.segments, this.tabsDict.addTabs(name, tabsParams, this.options));
   }
 
   /**
@@ -851,6 +894,7 @@ export class ClosedFace<P extends string = never> extends DefaultPiece implement
   readonly tt;
   readonly fit;
   readonly pat;
+  readonly opt;
 
   protected constructor(
     private readonly turtle: Turtle,
@@ -861,6 +905,7 @@ export class ClosedFace<P extends string = never> extends DefaultPiece implement
     this.tt = tabsDict.tt;
     this.fit = tabsDict.fit;
     this.pat = tabsDict.pat;
+    this.opt = tabsDict.opt;
   }
 
   static create<P extends string>(turtle: Turtle, face: Piece, tabsDict: LazySimpleTabsDict<P>): ClosedFace<P>;
@@ -1,7 +1,9 @@
 import {AttributesDefTool, SimpleAttributesDefTool} from './def_tool.ts';
 import {Attributes, AttributesBuilder} from './elements.ts';
+import {FontOutlines, TextOutlinesOptions} from './font_outlines.ts';
 import {attributesFromFontAttributes, Font, FontAttributes} from './fonts.ts';
 import {Defs, Piece} from './pieces.ts';
+import {HersheyFontName, StrokeFont, StrokeTextOptions} from './stroke_fonts.ts';
 
 interface PathForTextArgs {
   readonly path: Piece;
@@ -92,3 +94,34 @@ export function createText(text: string, {
     piece = piece.useDefTool(pathDefTool.getTextDefTool());
   return piece;
 }
+
+/**
+ * Creates a Path with the outlines of the text, rendered using the glyphs from the font file.
+ * Unlike the `<text>` element created by `createText`, the Path can be reliably cut or scored
+ * by a laser cutter.
+ *
+ * The font must be loaded from a font file (see `Font.getOutlines`). The first line of the text
+ * is placed on the X axis, which is the baseline.
+ */
+export async function createOutlinedText(text: string, {
+  font,
+  ...options
+}: {font: Font | FontOutlines} & TextOutlinesOptions) {
+  const outlines = font instanceof FontOutlines ? font : await font.getOutlines();
+  return outlines.getTextPath(text, options);
+}
+
+/**
+ * Creates a Path with the single-line strokes of the text, rendered using a stroke font
+ * (by default one of the bundled Hershey fonts). Unlike outlined text, the strokes are open
+ * lines, so they can be engraved or scored in a line mode without producing double lines.
+ *
+ * The first line of the text is placed on the X axis, which is the baseline, unless a path
+ * is specified in the options, in which case the text is placed along the path.
+ */
+export function createStrokeText(text: string, {
+  font = StrokeFont.hershey(),
+  ...options
+}: {font?: StrokeFont | HersheyFontName} & StrokeTextOptions = {}) {
+  return (font instanceof StrokeFont ? font : StrokeFont.hershey(font)).getTextPath(text, options);
+}
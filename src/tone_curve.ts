@@ -0,0 +1,128 @@
+import {parseColor} from './colors.ts';
+import {isHeadlessDOM} from './headless.ts';
+import {assert} from './util.ts';
+
+/**
+ * A point measured on the material using the gradient calibrator (see _calibration/gradient.ts_).
+ * Both values are lightness, from 0 (black) to 1 (white).
+ */
+export interface ToneCurveMeasurement {
+  /** The lightness of the gradient at the measured place. */
+  readonly input: number;
+  /**
+   * The observed lightness of the engraved material at that place, where 0 is the darkest
+   * engraving achievable, and 1 is the unengraved material.
+   */
+  readonly observed: number;
+}
+
+export interface PartialToneCurve {
+  /**
+   * The measurements of the engraved gradient. The curve is corrected so that the observed
+   * lightness matches the requested lightness. Default: no measurements, i.e. linear response.
+   */
+  measured?: readonly ToneCurveMeasurement[];
+  /** The gamma applied after the measurements correction. Default: 1. */
+  gamma?: number;
+  /**
+   * The lightness sent to the laser for the black colour, e.g. the lightness above 0 at which
+   * the material is already fully darkened. Default: 0.
+   */
+  blackPoint?: number;
+  /**
+   * The lightness sent to the laser for the white colour, e.g. the lightness below 1 at which
+   * the material starts being marked. Default: 1.
+   */
+  whitePoint?: number;
+}
+
+/**
+ * A correction of the lightness of the engraved images and gradients, specific to the material,
+ * applied to the laser output only, so that the engraving matches the preview.
+ */
+export class ToneCurve {
+
+  protected constructor(private readonly func: (lightness: number) => number) {}
+
+  static create({
+    measured = [],
+    gamma = 1,
+    blackPoint = 0,
+    whitePoint = 1,
+  }: PartialToneCurve = {}) {
+    const points = [...measured].sort((a, b) => a.observed - b.observed);
+    function inverseMeasured(lightness: number) {
+      if (!points.length)
+        return lightness;
+      if (lightness <= points[0].observed)
+        return points[0].input;
+      for (let i = 1; i < points.length; i++) {
+        const [a, b] = [points[i - 1], points[i]];
+        if (lightness <= b.observed)
+          return b.observed === a.observed ? b.input :
+            a.input + (b.input - a.input) * (lightness - a.observed) / (b.observed - a.observed);
+      }
+      return points.at(-1)!.input;
+    }
+    return new ToneCurve(lightness => blackPoint + (whitePoint - blackPoint) *
+      Math.max(0, Math.min(1, inverseMeasured(lightness))) ** gamma);
+  }
+
+  /** Returns the corrected lightness, from 0 (black) to 1 (white). */
+  apply(lightness: number) {
+    return Math.max(0, Math.min(1, this.func(Math.max(0, Math.min(1, lightness)))));
+  }
+
+  /** Returns the corrected value of a colour channel, from 0 to 255. */
+  applyToChannel(value: number) {
+    return Math.round(0xFF * this.apply(value / 0xFF));
+  }
+
+  /**
+   * Returns the corrected colour, with the curve applied to each channel. The colours in other
+   * formats than `#rgb`, `#rrggbb`, `rgb(r,g,b)`, `black` and `white` are returned unchanged.
+   */
+  applyToColor(color: string) {
+    const channels = parseColor(color);
+    if (!channels)
+      return color;
+    return `rgb(${channels.map(c => this.applyToChannel(c)).join(",")})`;
+  }
+
+  /**
+   * Applies the curve in place to the gradient stops and the images in the SVG.
+   * The images can only be corrected in the browser, in the headless mode they are left intact.
+   */
+  async applyToSVG(svg: SVGElement) {
+    for (const stop of svg.querySelectorAll("stop"))
+      stop.setAttribute("stop-color",
+        this.applyToColor(stop.getAttribute("stop-color") || "black"));
+    if (!isHeadlessDOM())
+      await Promise.all(Array.from(svg.querySelectorAll("image"), async image => {
+        const href = image.getAttribute("href");
+        if (href)
+          image.setAttribute("href", await this.applyToImageURL(href));
+      }));
+  }
+
+  /** Returns the data URI of the image with the curve applied. This requires the browser. */
+  private async applyToImageURL(url: string) {
+    const img = document.createElement("img");
+    img.src = url;
+    await img.decode();
+    const canvas = document.createElement("canvas");
+    canvas.width = img.naturalWidth;
+    canvas.height = img.naturalHeight;
+    const ctx = assert(canvas.getContext("2d"));
+    ctx.drawImage(img, 0, 0);
+    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    const table = Array.from({length: 0x100}, (_, value) => this.applyToChannel(value));
+    const {data} = imageData;
+    for (let i = 0; i < data.length; i += 4)
+      for (let j = 0; j < 3; j++)
+        data[i + j] = table[data[i + j]];
+    ctx.putImageData(imageData, 0, 0);
+    return canvas.toDataURL();
+  }
+
+}
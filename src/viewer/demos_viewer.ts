@@ -1,11 +1,17 @@
 import * as calibrationGradient from '../calibration/gradient.ts';
 import * as calibrationKerf from '../calibration/kerf.ts';
 import * as calibrationPrintPosCorrection from '../calibration/print_pos_correction.ts';
+import * as box from '../demos/box.ts';
+import * as boxAssembly from '../demos/box_assembly.ts';
 import * as coins from '../demos/coins.ts';
+import * as curvedEdges from '../demos/curved_edges.ts';
 import * as houseBox from '../demos/house_box.ts';
 import * as images from '../demos/images.ts';
 import * as jigsawPuzzle from '../demos/jigsaw_puzzle.ts';
+import * as joints from '../demos/joints.ts';
+import * as lSystems from '../demos/l_systems.ts';
 import * as normaliseExplainer from '../demos/normalise_explainer.ts';
+import * as roundedBox from '../demos/rounded_box.ts';
 import * as solver from '../demos/solver.ts';
 import * as tabsAndSlots from '../demos/tabs_and_slots.ts';
 import * as tpVectorIcon from '../demos/tpvector_icon.ts';
@@ -24,6 +30,12 @@ export const DEMOS_VIEWER = Viewer.create()
   .add(jigsawPuzzle)
   .add(tabsAndSlots)
   .add(houseBox)
+  .add(box)
+  .add(boxAssembly)
+  .add(roundedBox)
+  .add(joints)
+  .add(curvedEdges)
+  .add(lSystems)
   .add(images)
   .add(solver)
 
@@ -1,3 +1,5 @@
+import {Assembly, AssemblyView, PartialAssemblyViewOptions, assemblyView} from '../assembly.ts';
+import {createSVG} from '../elements.ts';
 import {GlobalOptionsInput} from '../global_options.ts';
 import {saveBlobDownload} from '../saver.ts';
 import {PartialLaserSVGParams, Sheet} from '../sheet.ts';
@@ -46,6 +48,68 @@ export async function getSheetPreview(sheet: Sheet) {
   return div;
 }
 
+/**
+ * Returns a `<div>` containing a 3D preview of the assembly, with buttons and sliders controlling
+ * the direction of the view, and the warning about the mating edges that don't fit.
+ */
+export function getAssemblyPreview(assembly: Assembly,
+  options: Omit<PartialAssemblyViewOptions, "view"> = {}) {
+  const div = document.createElement("div");
+  div.style.display = "flex";
+  div.style.flexDirection = "column";
+  div.style.gap = "0.2em";
+  const svgContainer = document.createElement("div");
+  div.append(svgContainer);
+  const sliders = {azimuthDeg: 45, elevationDeg: 35};
+  function show(view: AssemblyView) {
+    const piece = assemblyView(assembly, {...options, view});
+    svgContainer.replaceChildren(createSVG({
+      viewBox: piece.getBoundingBox(2),
+      attributes: {width: "100%", height: "30em"},
+      children: piece.asG(),
+    }));
+  }
+  const buttonsRow = ButtonsRow.create();
+  div.append(buttonsRow.elem);
+  const views = ["isometric", "front", "back", "left", "right", "top", "bottom"] as const;
+  buttonsRow.addItems(views.map(view => {
+    const button = document.createElement("button");
+    button.textContent = view;
+    button.addEventListener("click", () => {
+      show(view);
+    });
+    return button;
+  }));
+  const slidersRow = document.createElement("div");
+  div.append(slidersRow);
+  slidersRow.style.display = "flex";
+  slidersRow.style.gap = "1em";
+  slidersRow.style.flexWrap = "wrap";
+  for (const [key, label, min, max] of [
+    ["azimuthDeg", `Azimuth`, -180, 180],
+    ["elevationDeg", `Elevation`, -90, 90],
+  ] as const) {
+    const sliderLabel = document.createElement("label");
+    slidersRow.append(sliderLabel);
+    sliderLabel.append(`${label}: `);
+    const slider = document.createElement("input");
+    sliderLabel.append(slider);
+    slider.type = "range";
+    slider.min = String(min);
+    slider.max = String(max);
+    slider.value = String(sliders[key]);
+    slider.addEventListener("input", () => {
+      sliders[key] = Number(slider.value);
+      show({...sliders});
+    });
+  }
+  show("isometric");
+  const matingsWarning = assembly.matings?.getWarning();
+  if (matingsWarning)
+    div.append(matingsWarning);
+  return div;
+}
+
 /**
  * Returns a `<div>` with checkboxes controlling visibility of particular runs in the
  * `<svg>` element.